@@ -0,0 +1,187 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+
+import { CID, FetchTransport, S5Client } from "../src";
+import { cidTypeRaw } from "../src/constants";
+import { hashData } from "../src/utils/hash";
+
+const content = new Uint8Array(5000).map((_, i) => i % 251);
+
+/**
+ * An upload received by the tus endpoint of a `LocalPortal`.
+ *
+ * @property length - The announced length.
+ * @property chunks - The received data.
+ * @property offset - The number of bytes received.
+ */
+type TusUpload = { length: number; chunks: Buffer[]; offset: number };
+
+/**
+ * A portal on a local HTTP server that stores uploads in memory and serves
+ * them by their raw cid, like the S5 API.
+ */
+class LocalPortal {
+  blobs = new Map<string, Uint8Array>();
+  requests: string[] = [];
+  protected tusUploads = new Map<string, TusUpload>();
+  protected server: Server = createServer((req, res) => {
+    this.handle(req, res).catch((e) => {
+      res.writeHead(500).end(String(e));
+    });
+  });
+
+  /**
+   * Starts the server on a free port.
+   *
+   * @returns - The portal URL.
+   */
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  /**
+   * Stops the server.
+   */
+  async stop(): Promise<void> {
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  /**
+   * Answers a request.
+   *
+   * @param req - The request.
+   * @param res - The response.
+   */
+  protected async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = new URL(req.url as string, "http://localhost").pathname;
+    this.requests.push(`${req.method} ${path}`);
+    const body = await readBody(req);
+
+    if (req.method === "POST" && path === "/s5/upload") {
+      const form = await new Response(body, { headers: { "Content-Type": req.headers["content-type"] as string } })
+        .formData()
+        .catch(() => undefined);
+      const file = form && form.get("file");
+      if (!(file instanceof Blob)) {
+        res.writeHead(400).end();
+        return;
+      }
+      const cid = await this.store(new Uint8Array(await file.arrayBuffer()));
+      res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({ cid }));
+      return;
+    }
+
+    if (req.method === "POST" && path === "/s5/upload/tus") {
+      const location = `/s5/upload/tus/${this.tusUploads.size + 1}`;
+      this.tusUploads.set(location, { length: Number(req.headers["upload-length"]), chunks: [], offset: 0 });
+      res.writeHead(201, { Location: location, "Tus-Resumable": "1.0.0" }).end();
+      return;
+    }
+    const upload = this.tusUploads.get(path);
+    if (upload && req.method === "PATCH") {
+      upload.chunks.push(body);
+      upload.offset += body.length;
+      if (upload.offset === upload.length) {
+        await this.store(new Uint8Array(Buffer.concat(upload.chunks)));
+      }
+      res.writeHead(204, { "Upload-Offset": upload.offset, "Tus-Resumable": "1.0.0" }).end();
+      return;
+    }
+
+    const bytes = this.blobs.get(path.slice(1));
+    if (req.method !== "GET" || !bytes) {
+      res.writeHead(404).end();
+      return;
+    }
+    const range = /^bytes=(\d+)-(\d+)$/.exec(req.headers.range || "");
+    if (range) {
+      const end = Math.min(Number(range[2]), bytes.length - 1);
+      res
+        .writeHead(206, { "Content-Range": `bytes ${range[1]}-${end}/${bytes.length}` })
+        .end(bytes.subarray(Number(range[1]), end + 1));
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "application/octet-stream" }).end(bytes);
+  }
+
+  /**
+   * Stores content under its raw cid.
+   *
+   * @param bytes - The content.
+   * @returns - The cid, base64url encoded.
+   */
+  protected async store(bytes: Uint8Array): Promise<string> {
+    const cid = CID.fromHash(await hashData(bytes), cidTypeRaw, bytes.length).toBase64Url();
+    this.blobs.set(cid, bytes);
+    return cid;
+  }
+}
+
+/**
+ * Reads the body of a request.
+ *
+ * @param req - The request.
+ * @returns - The body.
+ */
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+describe("S5Client with a local portal", () => {
+  const portal = new LocalPortal();
+  let portalUrl: string;
+
+  beforeAll(async () => {
+    portalUrl = await portal.start();
+  });
+
+  afterAll(async () => {
+    await portal.stop();
+  });
+
+  beforeEach(() => {
+    portal.requests = [];
+  });
+
+  it("should upload and download small files with fetch", async () => {
+    const client = new S5Client(portalUrl, { transport: new FetchTransport() });
+
+    const { cid } = await client.uploadFile(new File([content], "data.bin"));
+
+    expect(portal.blobs.get(cid)).toEqual(content);
+    await expect(client.downloadData(cid)).resolves.toEqual(content);
+  });
+
+  it("should upload large files with tus and download them in ranges with axios", async () => {
+    const client = new S5Client(portalUrl);
+
+    const { cid } = await client.uploadFile(new File([content], "data.bin"), { largeFileSize: 1000 });
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of await client.downloadNodeStream(cid, { chunkSize: 2048 })) {
+      chunks.push(chunk);
+    }
+
+    expect(portal.blobs.get(cid)).toEqual(content);
+    expect(Buffer.concat(chunks)).toEqual(Buffer.from(content));
+    expect(portal.requests).toEqual([
+      "POST /s5/upload/tus",
+      "PATCH /s5/upload/tus/1",
+      `GET /${cid}`,
+      `GET /${cid}`,
+      `GET /${cid}`,
+    ]);
+  });
+
+  it("should throw the errors of the portal", async () => {
+    const client = new S5Client(portalUrl, { transport: new FetchTransport() });
+    const missing = content.subarray(1);
+    const cid = CID.fromHash(await hashData(missing), cidTypeRaw, missing.length).toBase64Url();
+
+    await expect(client.downloadData(cid)).rejects.toMatchObject({ responseStatus: 404 });
+  });
+});
@@ -0,0 +1,239 @@
+import type { AxiosRequestConfig } from "axios";
+
+import { createMockClient, MockHandler, MockResponse, portalUrl, requestPath } from "../utils/testing";
+import { challengeTypeLogin, challengeTypeRegister } from "./constants";
+import { decodePublicKey, verify } from "./crypto";
+import { AuthError, ExecuteRequestError } from "./errors";
+import { decodeBase64Url, encodeBase64Url } from "./utils/encoding";
+import { hashData } from "./utils/hash";
+
+const seed = new Uint8Array(32).fill(1);
+const challenge = new Uint8Array(32).fill(9);
+
+/**
+ * Creates a handler that answers account challenges and logs in with the
+ * given response.
+ *
+ * @param loginResponse - The response to the signed login request.
+ * @param [handler] - Answers all other requests.
+ * @returns - The handler.
+ */
+function accountHandler(loginResponse: MockResponse, handler: MockHandler = () => undefined): MockHandler {
+  return (config) => {
+    const path = requestPath(config);
+    if (path === "/s5/account/login" || path === "/s5/account/register") {
+      if (config.method === "get") {
+        return { data: { challenge: encodeBase64Url(challenge) } };
+      }
+      return loginResponse;
+    }
+    return handler(config);
+  };
+}
+
+/**
+ * Returns the requests sent to the given path.
+ *
+ * @param request - The mocked transport function.
+ * @param path - The request path.
+ * @param [method] - The request method.
+ * @returns - The request configs.
+ */
+function requestsTo(request: jest.Mock, path: string, method?: string): AxiosRequestConfig[] {
+  return request.mock.calls
+    .map(([config]) => config)
+    .filter((config) => requestPath(config) === path && (!method || config.method === method));
+}
+
+describe("login", () => {
+  it("should sign the challenge for the portal and use the session cookie", async () => {
+    const { client, request } = createMockClient(
+      accountHandler({ headers: { "set-cookie": ["other=1", "s5-auth-token=abc==def=; Path=/; HttpOnly"] } })
+    );
+
+    await client.login(seed, { label: "laptop" });
+
+    const [challengeRequest] = requestsTo(request, "/s5/account/login", "get");
+    const [loginRequest] = requestsTo(request, "/s5/account/login", "post");
+    const pubKey = new URL(challengeRequest.url as string).searchParams.get("pubKey") as string;
+    const { response, signature, label } = loginRequest.data;
+    const signed = decodeBase64Url(response);
+    const hostHash = await hashData(new TextEncoder().encode("s5.example"));
+    expect(label).toEqual("laptop");
+    expect(loginRequest.data.pubKey).toEqual(pubKey);
+    expect(signed).toEqual(new Uint8Array([challengeTypeLogin, ...challenge, ...hostHash]));
+    await expect(verify(signed, decodeBase64Url(signature), decodePublicKey(decodeBase64Url(pubKey)))).resolves.toBe(
+      true
+    );
+    expect(client.customOptions.authToken).toEqual("abc==def=");
+  });
+
+  it("should derive a different account key for every portal", async () => {
+    const pubKeys = [];
+    for (const portal of [portalUrl, "https://other.example"]) {
+      const { client, request } = createMockClient(accountHandler({ data: { authToken: "token" } }), {}, portal);
+      await client.login(seed);
+      pubKeys.push(requestsTo(request, "/s5/account/login", "post")[0].data.pubKey);
+    }
+
+    expect(pubKeys[0]).not.toEqual(pubKeys[1]);
+  });
+
+  it("should prefer the session token of the response data", async () => {
+    const { client } = createMockClient(
+      accountHandler({ data: { authToken: "token" }, headers: { "set-cookie": "s5-auth-token=cookie" } })
+    );
+
+    await client.login(seed);
+
+    expect(client.customOptions.authToken).toEqual("token");
+  });
+
+  it("should skip cookies without a session token", async () => {
+    const { client } = createMockClient(
+      accountHandler({ headers: { "set-cookie": ["flag; Path=/", "other=1", "s5-auth-token=cookie; Path=/"] } })
+    );
+
+    await client.login(seed);
+
+    expect(client.customOptions.authToken).toEqual("cookie");
+  });
+
+  it("should not send an old session token", async () => {
+    const { client, request } = createMockClient(accountHandler({}), { authToken: "old" });
+
+    await client.login(seed);
+
+    expect(requestsTo(request, "/s5/account/login")).toHaveLength(2);
+    requestsTo(request, "/s5/account/login").forEach((config) => {
+      expect(config.headers).not.toHaveProperty("Authorization");
+    });
+    expect(client.customOptions.authToken).toBeUndefined();
+  });
+
+  it("should throw an AuthError if the portal does not return a challenge", async () => {
+    const { client } = createMockClient(() => ({ data: {} }));
+
+    await expect(client.login(seed)).rejects.toThrow(AuthError);
+  });
+
+  it("should reject seeds of the wrong length", async () => {
+    const { client, request } = createMockClient();
+
+    await expect(client.login(new Uint8Array(16))).rejects.toThrow("seed.length");
+    expect(request).not.toHaveBeenCalled();
+  });
+});
+
+describe("register", () => {
+  it("should sign a registration challenge and log in", async () => {
+    const { client, request } = createMockClient(accountHandler({ data: { authToken: "token" } }));
+
+    await client.register(seed, { email: "user@example.com" });
+
+    const [registerRequest] = requestsTo(request, "/s5/account/register", "post");
+    expect(registerRequest.data.email).toEqual("user@example.com");
+    expect(decodeBase64Url(registerRequest.data.response)[0]).toEqual(challengeTypeRegister);
+    expect(client.customOptions.authToken).toEqual("token");
+  });
+});
+
+describe("session", () => {
+  /**
+   * Creates a client with a portal that issues numbered session tokens and
+   * only accepts the latest one.
+   *
+   * @param [customOptions] - The client options.
+   * @returns - The client, the mocked transport function and a function that expires the session.
+   */
+  function createSessionClient(customOptions = {}) {
+    let logins = 0;
+    let expired = false;
+    const { client, request } = createMockClient((config) => {
+      const path = requestPath(config);
+      if (path === "/s5/account/login") {
+        if (config.method === "get") {
+          return { data: { challenge: encodeBase64Url(challenge) } };
+        }
+        logins++;
+        expired = false;
+        return { data: { authToken: `token${logins}` } };
+      }
+      const authorization = config.headers && config.headers["Authorization"];
+      if (
+        path === "/s5/account/logout" ||
+        (path === "/s5/account" && !expired && authorization === `Bearer token${logins}`)
+      ) {
+        return { data: { id: 1 } };
+      }
+      return { status: 401 };
+    }, customOptions);
+    return { client, request, expire: () => (expired = true) };
+  }
+
+  it("should log in again when the portal rejects the session token", async () => {
+    const { client, request, expire } = createSessionClient();
+    await client.login(seed);
+    expire();
+
+    await expect(client.getAccountInfo()).resolves.toEqual({ id: 1 });
+
+    expect(client.customOptions.authToken).toEqual("token2");
+    const accountRequests = requestsTo(request, "/s5/account");
+    expect(accountRequests.map(({ headers }) => headers && headers["Authorization"])).toEqual([
+      "Bearer token1",
+      "Bearer token2",
+    ]);
+  });
+
+  it("should log in again with a copy of the seed", async () => {
+    const { client, request, expire } = createSessionClient();
+    const changedSeed = seed.slice();
+    await client.login(changedSeed);
+    changedSeed.fill(0);
+    expire();
+
+    await client.getAccountInfo();
+
+    const [first, second] = requestsTo(request, "/s5/account/login", "post");
+    expect(second.data.pubKey).toEqual(first.data.pubKey);
+  });
+
+  it("should keep a loginFn set by the user", async () => {
+    const loginFn = jest.fn(async () => undefined);
+    const { client } = createSessionClient({ loginFn });
+    await client.login(seed);
+
+    expect(client.customOptions.loginFn).toBe(loginFn);
+    await client.logout();
+    expect(client.customOptions.loginFn).toBe(loginFn);
+  });
+
+  it("should forget the session on logout", async () => {
+    const { client, request } = createSessionClient();
+    await client.login(seed);
+
+    await client.logout();
+
+    const [logoutRequest] = requestsTo(request, "/s5/account/logout", "post");
+    expect(logoutRequest.headers).toMatchObject({ Authorization: "Bearer token1" });
+    expect(client.customOptions.authToken).toBeUndefined();
+    expect(client.customOptions.loginFn).toBeUndefined();
+    await expect(client.getAccountInfo()).rejects.toThrow(AuthError);
+  });
+
+  it("should ignore portals without a logout endpoint", async () => {
+    const { client } = createMockClient(() => ({ status: 404 }), { authToken: "token" });
+
+    await client.logout();
+
+    expect(client.customOptions.authToken).toBeUndefined();
+  });
+
+  it("should forget the session even if logging out failed", async () => {
+    const { client } = createMockClient(() => ({ status: 500 }), { authToken: "token" });
+
+    await expect(client.logout()).rejects.toThrow(ExecuteRequestError);
+    expect(client.customOptions.authToken).toBeUndefined();
+  });
+});
@@ -0,0 +1,322 @@
+import type { AxiosResponse } from "axios";
+
+import { S5Client } from "./client";
+import { challengeTypeLogin, challengeTypeRegister } from "./constants";
+import { encodePublicKey, genKeyPairFromSeed, KeyPair, SEED_LENGTH, sign } from "./crypto";
+import { AuthError, NotFoundError } from "./errors";
+import { createTransportError } from "./transport";
+import { decodeBase64Url, encodeBase64Url, encodeEndian } from "./utils/encoding";
+import { concatBytes } from "./utils/file";
+import { hashData } from "./utils/hash";
+import { BaseCustomOptions, DEFAULT_BASE_OPTIONS } from "./utils/options";
+import { throwValidationError } from "./utils/validation";
+
+/**
+ * Custom account options.
+ *
+ * @property [endpointRegister] - The relative URL path of the portal endpoint to register accounts with.
+ * @property [endpointLogin] - The relative URL path of the portal endpoint to log in with.
+ * @property [endpointLogout] - The relative URL path of the portal endpoint to log out with.
+ * @property [endpointAccount] - The relative URL path of the portal endpoint to get account information from.
+ */
+export type CustomAccountOptions = BaseCustomOptions & {
+  endpointRegister?: string;
+  endpointLogin?: string;
+  endpointLogout?: string;
+  endpointAccount?: string;
+};
+
+/**
+ * Custom options for logging in.
+ *
+ * @property [label] - A label for the session, e.g. the name of the device.
+ */
+export type CustomLoginOptions = CustomAccountOptions & {
+  label?: string;
+};
+
+/**
+ * Custom options for registering an account.
+ *
+ * @property [email] - The email address of the account, if the portal requires one.
+ */
+export type CustomRegisterOptions = CustomLoginOptions & {
+  email?: string;
+};
+
+/**
+ * Information about the account that is logged in. The fields depend on the
+ * portal.
+ *
+ * @property [id] - The account ID.
+ * @property [email] - The email address of the account.
+ * @property [createdAt] - When the account was created.
+ * @property [quotaExceeded] - Whether the account exceeded its storage quota.
+ * @property [emailConfirmed] - Whether the email address was confirmed.
+ * @property [isRestricted] - Whether the account is restricted.
+ */
+export type AccountInfo = {
+  id?: number;
+  email?: string | null;
+  createdAt?: number;
+  quotaExceeded?: boolean;
+  emailConfirmed?: boolean;
+  isRestricted?: boolean;
+  [key: string]: unknown;
+};
+
+export const DEFAULT_ACCOUNT_OPTIONS = {
+  ...DEFAULT_BASE_OPTIONS,
+  endpointRegister: "/s5/account/register",
+  endpointLogin: "/s5/account/login",
+  endpointLogout: "/s5/account/logout",
+  endpointAccount: "/s5/account",
+};
+
+/**
+ * The derivation index of the seeds of portal account keys.
+ */
+const PORTAL_ACCOUNTS_DERIVATION_INDEX = 1;
+
+/**
+ * The name of the cookie portals store the session token in.
+ */
+const AUTH_TOKEN_COOKIE_NAME = "s5-auth-token";
+
+/**
+ * The `loginFn`s installed by `register` and `login`, so `logout` only
+ * removes its own.
+ */
+const sessionLoginFns = new WeakMap<S5Client, () => Promise<void>>();
+
+/**
+ * Registers an account on the portal and logs in. The account key is derived
+ * from the seed and the portal host, so the same seed gives a different
+ * account on every portal.
+ *
+ * @param this - S5Client
+ * @param seed - The 32-byte seed of the user, e.g. from `genSeed`.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.endpointRegister="/s5/account/register"] - The relative URL path of the portal endpoint to contact.
+ * @param [customOptions.email] - The email address of the account.
+ * @returns - A promise that resolves when the account was registered.
+ * @throws - Will throw if the seed is invalid or the portal rejects the registration.
+ */
+export async function register(this: S5Client, seed: Uint8Array, customOptions?: CustomRegisterOptions): Promise<void> {
+  const opts = { ...DEFAULT_ACCOUNT_OPTIONS, ...this.customOptions, ...customOptions };
+
+  const authToken = await authenticate(this, seed, challengeTypeRegister, opts.endpointRegister, opts, {
+    email: opts.email,
+    label: opts.label,
+  });
+  startSession(this, seed, authToken, opts);
+}
+
+/**
+ * Logs in to the account of the seed on the portal by signing a challenge.
+ * The session token is sent with all further requests, and the client logs
+ * in again when the portal rejects it, unless a `loginFn` is set.
+ *
+ * @param this - S5Client
+ * @param seed - The 32-byte seed of the user.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.endpointLogin="/s5/account/login"] - The relative URL path of the portal endpoint to contact.
+ * @returns - A promise that resolves when the client is logged in.
+ * @throws - Will throw if the seed is invalid or the portal rejects the login.
+ */
+export async function login(this: S5Client, seed: Uint8Array, customOptions?: CustomLoginOptions): Promise<void> {
+  const opts = { ...DEFAULT_ACCOUNT_OPTIONS, ...this.customOptions, ...customOptions };
+
+  const authToken = await authenticate(this, seed, challengeTypeLogin, opts.endpointLogin, opts, {
+    label: opts.label,
+  });
+  startSession(this, seed, authToken, opts);
+}
+
+/**
+ * Ends the session on the portal and forgets the session token. Portals
+ * without a logout endpoint are ignored.
+ *
+ * @param this - S5Client
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.endpointLogout="/s5/account/logout"] - The relative URL path of the portal endpoint to contact.
+ * @returns - A promise that resolves when the client is logged out.
+ */
+export async function logout(this: S5Client, customOptions?: CustomAccountOptions): Promise<void> {
+  const opts = { ...DEFAULT_ACCOUNT_OPTIONS, ...this.customOptions, ...customOptions };
+
+  try {
+    await this.executeRequest({
+      ...opts,
+      endpointPath: opts.endpointLogout,
+      method: "post",
+      // Don't log in again just to log out.
+      loginFn: undefined,
+    });
+  } catch (e) {
+    if (!(e instanceof NotFoundError)) {
+      throw e;
+    }
+  } finally {
+    const { loginFn } = this.customOptions;
+    this.customOptions = {
+      ...this.customOptions,
+      authToken: undefined,
+      loginFn: loginFn === sessionLoginFns.get(this) ? undefined : loginFn,
+    };
+    sessionLoginFns.delete(this);
+  }
+}
+
+/**
+ * Gets information about the account that is logged in.
+ *
+ * @param this - S5Client
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.endpointAccount="/s5/account"] - The relative URL path of the portal endpoint to contact.
+ * @returns - The account information.
+ * @throws - Will throw an `AuthError` if the client is not logged in.
+ */
+export async function getAccountInfo(this: S5Client, customOptions?: CustomAccountOptions): Promise<AccountInfo> {
+  const opts = { ...DEFAULT_ACCOUNT_OPTIONS, ...this.customOptions, ...customOptions };
+
+  const response = await this.executeRequest({
+    ...opts,
+    endpointPath: opts.endpointAccount,
+    method: "get",
+  });
+  return response.data as AccountInfo;
+}
+
+/**
+ * Answers the challenge of a portal account endpoint. The signed response is
+ * the challenge type, the challenge and the BLAKE3 hash of the portal host,
+ * so it can't be replayed on other portals.
+ *
+ * @param client - The S5 client.
+ * @param seed - The 32-byte seed of the user.
+ * @param challengeType - The challenge type of the endpoint.
+ * @param endpointPath - The endpoint to contact.
+ * @param opts - The account options.
+ * @param data - Additional fields to send with the signed response.
+ * @returns - The session token, if the portal returned it instead of only setting a cookie.
+ * @throws - Will throw if the seed is invalid.
+ * @throws - Will throw an `AuthError` if the portal does not return a challenge.
+ */
+async function authenticate(
+  client: S5Client,
+  seed: Uint8Array,
+  challengeType: number,
+  endpointPath: string,
+  opts: CustomAccountOptions,
+  data: Record<string, string | undefined>
+): Promise<string | undefined> {
+  // Both requests must go to the same portal, even for clients with several.
+  const portalUrl = await client.portalUrl();
+  const host = new URL(portalUrl, "http://localhost").host;
+  const keyPair = await deriveAccountKeyPair(seed, host);
+  const pubKey = encodeBase64Url(encodePublicKey(keyPair.publicKey));
+
+  // Logging in must not trigger a login itself, or send an old session token.
+  const config = { ...opts, url: portalUrl, endpointPath, authToken: undefined, loginFn: undefined };
+  const challengeResponse = await client.executeRequest({ ...config, method: "get", query: { pubKey } });
+  const challenge = challengeResponse.data && challengeResponse.data.challenge;
+  if (typeof challenge !== "string") {
+    const message = "Portal did not return an account challenge";
+    throw new AuthError(
+      message,
+      createTransportError(message, "ERR_BAD_RESPONSE", challengeResponse.config, challengeResponse),
+      challengeResponse.status,
+      null
+    );
+  }
+
+  const response = concatBytes([
+    new Uint8Array([challengeType]),
+    decodeBase64Url(challenge),
+    await hashData(new TextEncoder().encode(host)),
+  ]);
+  const signature = await sign(response, keyPair);
+  const result = await client.executeRequest({
+    ...config,
+    method: "post",
+    data: { ...data, pubKey, response: encodeBase64Url(response), signature: encodeBase64Url(signature) },
+  });
+  return getAuthToken(result);
+}
+
+/**
+ * Derives the key pair of the account of a seed on a portal.
+ *
+ * @param seed - The 32-byte seed of the user.
+ * @param host - The host of the portal.
+ * @returns - The key pair.
+ * @throws - Will throw if the seed does not have the expected length.
+ */
+async function deriveAccountKeyPair(seed: Uint8Array, host: string): Promise<KeyPair> {
+  if (seed.length !== SEED_LENGTH) {
+    throwValidationError("seed.length", seed.length, "parameter", `${SEED_LENGTH}`);
+  }
+
+  const accountsSeed = await hashData(concatBytes([seed, encodeEndian(PORTAL_ACCOUNTS_DERIVATION_INDEX, 32)]));
+  const portalSeed = await hashData(concatBytes([accountsSeed, await hashData(new TextEncoder().encode(host))]));
+  return genKeyPairFromSeed(portalSeed);
+}
+
+/**
+ * Returns the session token of a login response, from the `authToken` field
+ * or the `s5-auth-token` cookie. Browsers don't expose the cookie, but send
+ * it with further requests.
+ *
+ * @param response - The login response.
+ * @returns - The session token, if found.
+ */
+function getAuthToken(response: AxiosResponse): string | undefined {
+  if (response.data && typeof response.data.authToken === "string") {
+    return response.data.authToken;
+  }
+
+  const cookies = [response.headers && response.headers["set-cookie"]].flat();
+  for (const cookie of cookies) {
+    if (!cookie) {
+      continue;
+    }
+    // Split on the first `=` only, as tokens may end with `=` padding.
+    const pair = cookie.split(";")[0];
+    const index = pair.indexOf("=");
+    if (index === -1) {
+      continue;
+    }
+    const value = pair.slice(index + 1).trim();
+    if (pair.slice(0, index).trim() === AUTH_TOKEN_COOKIE_NAME && value) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Stores the session token on the client and, unless the user set their own
+ * `loginFn`, logs in again with the seed when the portal rejects the token.
+ *
+ * @param client - The S5 client.
+ * @param seed - The 32-byte seed of the user.
+ * @param authToken - The session token, if the portal returned one.
+ * @param opts - The options to log in again with.
+ */
+function startSession(
+  client: S5Client,
+  seed: Uint8Array,
+  authToken: string | undefined,
+  opts: CustomLoginOptions
+): void {
+  let { loginFn } = client.customOptions;
+  if (!loginFn || loginFn === sessionLoginFns.get(client)) {
+    // Keep a copy, so changes to the caller's seed don't affect the session.
+    const sessionSeed = seed.slice();
+    const sessionLoginFn = () => client.login(sessionSeed, { ...opts, loginFn: undefined });
+    sessionLoginFns.set(client, sessionLoginFn);
+    loginFn = sessionLoginFn;
+  }
+  client.customOptions = { ...client.customOptions, authToken, loginFn };
+}
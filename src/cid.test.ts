@@ -0,0 +1,83 @@
+import { CID, CIDEncoding } from "./cid";
+import { cidTypeMetadataMedia, cidTypeMetadataWebApp, cidTypeRaw, cidTypeResolver, mkeyEd25519 } from "./constants";
+
+const rawCid = "uJh_GXVMH4v2EnuVDRREtSak1K5BNOV52NLl55j0q72jrj0BUiQ";
+const digest = new Uint8Array(32).map((_, i) => i);
+
+describe("CID", () => {
+  it("should decode a raw CID", () => {
+    const cid = CID.decode(rawCid);
+
+    expect(cid.type).toEqual(cidTypeRaw);
+    expect(cid.isRaw).toBe(true);
+    expect(cid.size).toEqual(9_000_000);
+    expect(cid.digest.length).toEqual(32);
+    expect(cid.toString()).toEqual(rawCid);
+  });
+
+  it.each<CIDEncoding>(["base64url", "base58btc", "base32"])("should round-trip CIDs encoded as %s", (encoding) => {
+    const cids = [
+      CID.fromHash(digest, cidTypeRaw, 0),
+      CID.fromHash(digest, cidTypeRaw, 2 ** 40 + 7),
+      CID.fromHash(digest, cidTypeMetadataWebApp),
+      new CID(cidTypeResolver, new Uint8Array([mkeyEd25519, ...digest])),
+    ];
+
+    for (const cid of cids) {
+      const decoded = CID.decode(cid.encode(encoding));
+
+      expect(decoded.equals(cid)).toBe(true);
+      expect(decoded.size).toEqual(cid.size);
+      expect(decoded.toBytes()).toEqual(cid.toBytes());
+    }
+  });
+
+  it("should decode CIDs regardless of their encoding", () => {
+    const cid = CID.decode(rawCid);
+
+    expect(CID.decode(cid.toBase58()).toString()).toEqual(rawCid);
+    expect(CID.decode(cid.toBase32()).toString()).toEqual(rawCid);
+  });
+
+  it("should reject CIDs that are not valid", () => {
+    const bytes = CID.decode(rawCid).toBytes();
+
+    expect(CID.isValid(rawCid)).toBe(true);
+    expect(CID.isValid("")).toBe(false);
+    expect(CID.isValid(`x${rawCid.slice(1)}`)).toBe(false);
+    expect(CID.isValid(rawCid.slice(0, 20))).toBe(false);
+    expect(() => CID.fromBytes(new Uint8Array([0x01, ...bytes.subarray(1)]))).toThrow();
+    expect(() => CID.fromHash(digest, cidTypeRaw)).toThrow();
+    expect(() => CID.fromHash(digest, cidTypeMetadataWebApp, 1)).toThrow();
+    expect(() => new CID(cidTypeResolver, CID.fromHash(digest, cidTypeRaw, 1).hash)).toThrow();
+    expect(() => new CID(0x99, bytes.subarray(1, 34))).toThrow("a known S5 CID type");
+    expect(() => new CID(cidTypeRaw, bytes.subarray(1, 33), 1)).toThrow("hash.length");
+  });
+
+  it("should create raw base64url CIDs by default", () => {
+    const cid = CID.fromHash(digest, undefined, 1);
+
+    expect(cid.isRaw).toBe(true);
+    expect(cid.encode()).toEqual(cid.encode("base64url"));
+  });
+
+  it.each([
+    [cidTypeRaw, 1, false],
+    [cidTypeMetadataMedia, undefined, true],
+    [cidTypeMetadataWebApp, undefined, true],
+  ])("should tell whether CIDs of the type %s reference metadata", (type, size, expected) => {
+    const cid = CID.fromHash(digest, type, size);
+
+    expect(cid.isMetadata).toBe(expected);
+    expect(cid.isResolver).toBe(false);
+  });
+
+  it("should compare CIDs by type, hash and size", () => {
+    const cid = CID.fromHash(digest, cidTypeRaw, 1);
+    const otherDigest = digest.map((byte) => byte ^ 1);
+
+    expect(cid.equals(CID.fromHash(digest, cidTypeRaw, 1))).toBe(true);
+    expect(cid.equals(CID.fromHash(digest, cidTypeRaw, 2))).toBe(false);
+    expect(cid.equals(CID.fromHash(otherDigest, cidTypeRaw, 1))).toBe(false);
+  });
+});
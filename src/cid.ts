@@ -0,0 +1,302 @@
+import {
+  cidTypeMetadataMedia,
+  cidTypeMetadataWebApp,
+  cidTypeRaw,
+  cidTypeResolver,
+  mhashBlake3Default,
+  mkeyEd25519,
+} from "./constants";
+import {
+  decodeBase32,
+  decodeBase58,
+  decodeBase64Url,
+  decodeNumber,
+  encodeBase32,
+  encodeBase58,
+  encodeBase64Url,
+  encodeNumber,
+} from "./utils/encoding";
+import { throwValidationError } from "./utils/validation";
+
+/**
+ * The multibase encodings supported for S5 CIDs.
+ */
+export type CIDEncoding = "base64url" | "base58btc" | "base32";
+
+/**
+ * The multibase prefixes of the supported encodings.
+ */
+const MULTIBASE_PREFIXES: Record<CIDEncoding, string> = {
+  base64url: "u",
+  base58btc: "z",
+  base32: "b",
+};
+
+/**
+ * The length of a BLAKE3 multihash or an Ed25519 multikey, including the
+ * prefix byte.
+ */
+export const MULTIHASH_LENGTH = 33;
+
+/**
+ * All the CID types known to this client.
+ */
+const KNOWN_CID_TYPES = [cidTypeRaw, cidTypeMetadataMedia, cidTypeMetadataWebApp, cidTypeResolver];
+
+/**
+ * An S5 content identifier.
+ *
+ * A CID consists of a type byte, a multihash (or, for resolver CIDs, the
+ * multicoded public key of the registry entry) and, for raw CIDs only, the
+ * size of the content as a little-endian number.
+ */
+export class CID {
+  /**
+   * Creates a `CID`.
+   *
+   * @param type - The CID type, e.g. `cidTypeRaw`.
+   * @param hash - The multihash (or multikey for resolver CIDs), including the prefix byte.
+   * @param [size] - The size of the content in bytes. Only used for raw CIDs.
+   * @throws - Will throw if the type, hash or size are not valid.
+   */
+  constructor(public readonly type: number, public readonly hash: Uint8Array, public readonly size?: number) {
+    if (!KNOWN_CID_TYPES.includes(type)) {
+      throwValidationError("type", type, "parameter", "a known S5 CID type");
+    }
+    if (hash.length !== MULTIHASH_LENGTH) {
+      throwValidationError("hash.length", hash.length, "parameter", `${MULTIHASH_LENGTH}`);
+    }
+    const expectedPrefix = type === cidTypeResolver ? mkeyEd25519 : mhashBlake3Default;
+    if (hash[0] !== expectedPrefix) {
+      throwValidationError("hash[0]", hash[0], "parameter", `${expectedPrefix}`);
+    }
+    if (type === cidTypeRaw) {
+      if (size === undefined || !Number.isSafeInteger(size) || size < 0) {
+        throwValidationError("size", size, "parameter", "a non-negative integer for raw CIDs");
+      }
+    } else if (size !== undefined) {
+      throwValidationError("size", size, "parameter", "undefined for non-raw CIDs");
+    }
+  }
+
+  /**
+   * Creates a CID from a BLAKE3 hash digest.
+   *
+   * @param digest - The 32-byte BLAKE3 digest.
+   * @param [type=cidTypeRaw] - The CID type.
+   * @param [size] - The size of the content in bytes. Required for raw CIDs.
+   * @returns - The CID.
+   */
+  static fromHash(digest: Uint8Array, type: number = cidTypeRaw, size?: number): CID {
+    const hash = new Uint8Array(MULTIHASH_LENGTH);
+    hash[0] = mhashBlake3Default;
+    hash.set(digest, 1);
+    return new CID(type, hash, size);
+  }
+
+  /**
+   * Decodes a CID from its binary representation.
+   *
+   * @param bytes - The CID bytes.
+   * @returns - The CID.
+   * @throws - Will throw if the bytes do not contain a valid CID.
+   */
+  static fromBytes(bytes: Uint8Array): CID {
+    if (bytes.length < 1 + MULTIHASH_LENGTH) {
+      throwValidationError("bytes.length", bytes.length, "parameter", `at least ${1 + MULTIHASH_LENGTH}`);
+    }
+    const type = bytes[0];
+    const hash = bytes.slice(1, 1 + MULTIHASH_LENGTH);
+
+    let size: number | undefined;
+    if (type === cidTypeRaw) {
+      size = decodeNumber(bytes.subarray(1 + MULTIHASH_LENGTH));
+    } else if (bytes.length !== 1 + MULTIHASH_LENGTH) {
+      throwValidationError("bytes.length", bytes.length, "parameter", `${1 + MULTIHASH_LENGTH} for non-raw CIDs`);
+    }
+    return new CID(type, hash, size);
+  }
+
+  /**
+   * Decodes a CID from a multibase string. Base64url ("u"), base58btc ("z")
+   * and base32 ("b") prefixes are supported.
+   *
+   * @param cid - The CID string.
+   * @returns - The CID.
+   * @throws - Will throw if the string is not a valid S5 CID.
+   */
+  static decode(cid: string): CID {
+    if (typeof cid !== "string" || cid.length < 2) {
+      throwValidationError("cid", cid, "parameter", "a multibase-encoded S5 CID");
+    }
+
+    return CID.fromBytes(decodeMultibase(cid, "CID"));
+  }
+
+  /**
+   * Checks whether the given string is a valid S5 CID.
+   *
+   * @param cid - The CID string.
+   * @returns - Whether the CID can be decoded.
+   */
+  static isValid(cid: string): boolean {
+    try {
+      CID.decode(cid);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * The hash digest without the multihash prefix byte.
+   *
+   * @returns - The digest.
+   */
+  get digest(): Uint8Array {
+    return this.hash.subarray(1);
+  }
+
+  /**
+   * Whether this CID references raw content.
+   *
+   * @returns - True for raw CIDs.
+   */
+  get isRaw(): boolean {
+    return this.type === cidTypeRaw;
+  }
+
+  /**
+   * Whether this CID references a metadata file.
+   *
+   * @returns - True for media and web app metadata CIDs.
+   */
+  get isMetadata(): boolean {
+    return this.type === cidTypeMetadataMedia || this.type === cidTypeMetadataWebApp;
+  }
+
+  /**
+   * Whether this CID references a registry entry.
+   *
+   * @returns - True for resolver CIDs.
+   */
+  get isResolver(): boolean {
+    return this.type === cidTypeResolver;
+  }
+
+  /**
+   * Returns the binary representation of the CID.
+   *
+   * @returns - The CID bytes.
+   */
+  toBytes(): Uint8Array {
+    const sizeBytes = this.size !== undefined ? encodeNumber(this.size) : new Uint8Array(0);
+    const bytes = new Uint8Array(1 + this.hash.length + sizeBytes.length);
+    bytes[0] = this.type;
+    bytes.set(this.hash, 1);
+    bytes.set(sizeBytes, 1 + this.hash.length);
+    return bytes;
+  }
+
+  /**
+   * Encodes the CID as a multibase string.
+   *
+   * @param [encoding="base64url"] - The encoding to use.
+   * @returns - The encoded CID, including the multibase prefix.
+   */
+  encode(encoding: CIDEncoding = "base64url"): string {
+    return encodeMultibase(this.toBytes(), encoding);
+  }
+
+  /**
+   * Encodes the CID as a base64url string.
+   *
+   * @returns - The encoded CID.
+   */
+  toBase64Url(): string {
+    return this.encode("base64url");
+  }
+
+  /**
+   * Encodes the CID as a base58btc string.
+   *
+   * @returns - The encoded CID.
+   */
+  toBase58(): string {
+    return this.encode("base58btc");
+  }
+
+  /**
+   * Encodes the CID as a base32 string.
+   *
+   * @returns - The encoded CID.
+   */
+  toBase32(): string {
+    return this.encode("base32");
+  }
+
+  /**
+   * Returns the default (base64url) encoding of the CID.
+   *
+   * @returns - The encoded CID.
+   */
+  toString(): string {
+    return this.toBase64Url();
+  }
+
+  /**
+   * Checks whether this CID is equal to another one, regardless of encoding.
+   *
+   * @param other - The other CID.
+   * @returns - Whether both CIDs have the same type, hash and size.
+   */
+  equals(other: CID): boolean {
+    if (this.type !== other.type || this.size !== other.size) {
+      return false;
+    }
+    return this.hash.every((byte, i) => byte === other.hash[i]);
+  }
+}
+
+/**
+ * Encodes bytes as a multibase string.
+ *
+ * @param bytes - The bytes to encode.
+ * @param encoding - The encoding to use.
+ * @returns - The encoded bytes, including the multibase prefix.
+ */
+export function encodeMultibase(bytes: Uint8Array, encoding: CIDEncoding): string {
+  switch (encoding) {
+    case "base58btc":
+      return MULTIBASE_PREFIXES.base58btc + encodeBase58(bytes);
+    case "base32":
+      return MULTIBASE_PREFIXES.base32 + encodeBase32(bytes);
+    default:
+      return MULTIBASE_PREFIXES.base64url + encodeBase64Url(bytes);
+  }
+}
+
+/**
+ * Decodes a base64url ("u"), base58btc ("z") or base32 ("b") multibase string.
+ *
+ * @param str - The multibase string.
+ * @param kind - What the string contains, used in error messages.
+ * @returns - The decoded bytes.
+ * @throws - Will throw if the prefix is not supported or the string is not valid.
+ */
+export function decodeMultibase(str: string, kind: string): Uint8Array {
+  try {
+    switch (str[0]) {
+      case MULTIBASE_PREFIXES.base64url:
+        return decodeBase64Url(str.slice(1));
+      case MULTIBASE_PREFIXES.base58btc:
+        return decodeBase58(str.slice(1));
+      case MULTIBASE_PREFIXES.base32:
+        return decodeBase32(str.slice(1));
+      default:
+        throw new Error(`Unsupported multibase prefix '${str[0]}'`);
+    }
+  } catch (e) {
+    throw new Error(`Could not decode ${kind} '${str}': ${(e as Error).message}`);
+  }
+}
@@ -0,0 +1,321 @@
+import type { AxiosInstance, AxiosRequestConfig } from "axios";
+
+import { createMockClient, MockHandler, portalUrl } from "../utils/testing";
+import { S5Client } from "./client";
+import { ExecuteRequestError, NotFoundError, PortalResolutionError } from "./errors";
+
+const serverUrl = "https://server.example";
+
+/**
+ * Creates a handler that resolves the portal, answering the HEAD request to
+ * the initial portal URL with the given URLs in turn. `null` fails the request.
+ *
+ * @param urls - The resolved portal URLs for every resolution.
+ * @param [handler] - Answers all other requests.
+ * @returns - The handler.
+ */
+function resolutionHandler(urls: ({ portal?: string; server?: string } | null)[], handler?: MockHandler): MockHandler {
+  return (config) => {
+    if (config.method === "head" && config.url === "https:///") {
+      const resolved = urls.length > 1 ? urls.shift() : urls[0];
+      if (!resolved) {
+        return { status: null };
+      }
+      const headers: Record<string, string> = {};
+      if (resolved.portal) {
+        headers["s5-portal-api"] = resolved.portal;
+      }
+      if (resolved.server) {
+        headers["s5-server-api"] = resolved.server;
+      }
+      return { headers };
+    }
+    return handler && handler(config);
+  };
+}
+
+describe("S5Client", () => {
+  it("should create a client for a single portal without options by default", () => {
+    const client = new S5Client();
+
+    expect(client.customOptions).toEqual({});
+    expect(client.portals).toEqual([]);
+  });
+
+  it("should send requests with the given axios instance", async () => {
+    const request = jest.fn(async (config: AxiosRequestConfig) => ({ status: 200, data: { ok: true }, config }));
+    const client = new S5Client(portalUrl, { axiosInstance: { request } as unknown as AxiosInstance });
+
+    await expect(client.executeRequest({ endpointPath: "/s5/account" })).resolves.toMatchObject({
+      data: { ok: true },
+    });
+    expect(request).toHaveBeenCalledWith(expect.objectContaining({ url: `${portalUrl}/s5/account` }));
+  });
+
+  it("should send the options of a request", async () => {
+    const { client, request } = createMockClient(undefined, {
+      APIKey: "password",
+      s5ApiKey: "key",
+      customUserAgent: "agent",
+      customCookie: "cookie=1",
+    });
+
+    await client.executeRequest({
+      ...client.customOptions,
+      endpointPath: "/s5/upload",
+      extraPath: "file",
+      query: { filename: "a b" },
+      subdomain: "sub",
+      headers: { "X-Custom": "1" },
+    });
+
+    expect(request.mock.calls[0][0]).toMatchObject({
+      url: "https://sub.s5.example/s5/upload/file?filename=a%20b",
+      auth: { username: "", password: "password" },
+      headers: { "X-Custom": "1", "S5-Api-Key": "key", "User-Agent": "agent", Cookie: "cookie=1" },
+      withCredentials: true,
+    });
+  });
+
+  it("should report the progress of a request", async () => {
+    const { client } = createMockClient((config) => {
+      config.onUploadProgress?.({ loaded: 5, total: 10 } as ProgressEvent);
+      config.onUploadProgress?.({ loaded: 0, total: 0 } as ProgressEvent);
+      config.onDownloadProgress?.({ loaded: 10, total: 10 } as ProgressEvent);
+    });
+    const onUploadProgress = jest.fn();
+    const onDownloadProgress = jest.fn();
+
+    await client.executeRequest({ endpointPath: "/s5/upload", onUploadProgress, onDownloadProgress });
+
+    expect(onUploadProgress.mock.calls.map(([progress]) => progress)).toEqual([0.5, 1]);
+    expect(onDownloadProgress).toHaveBeenCalledWith(1, { loaded: 10, total: 10 });
+  });
+
+  it("should keep an explicit session token when logging in again", async () => {
+    const { client, request } = createMockClient((config) =>
+      config.headers && config.headers["Authorization"] === "Bearer explicit" && request.mock.calls.length === 1
+        ? { status: 401 }
+        : undefined
+    );
+    const loginFn = jest.fn(async () => {
+      client.customOptions.authToken = "refreshed";
+    });
+
+    await client.executeRequest({ endpointPath: "/s5/account", authToken: "explicit", loginFn });
+
+    expect(loginFn).toHaveBeenCalledTimes(1);
+    expect(request.mock.calls.map(([config]) => config.headers && config.headers["Authorization"])).toEqual([
+      "Bearer explicit",
+      "Bearer explicit",
+    ]);
+  });
+
+  it("should not retry aborted requests", async () => {
+    const controller = new AbortController();
+    const { client, request } = createMockClient(
+      () => {
+        controller.abort();
+        return { status: 503 };
+      },
+      { retryPolicy: { baseDelay: 1 } }
+    );
+
+    await expect(client.executeRequest({ endpointPath: "/s5/account", signal: controller.signal })).rejects.toThrow(
+      ExecuteRequestError
+    );
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("should add the portal URL to request errors", async () => {
+    const { client } = createMockClient(() => ({ status: 404 }));
+
+    await expect(client.executeRequest({ endpointPath: "/s5/account" })).rejects.toMatchObject({
+      constructor: NotFoundError,
+      portalUrl,
+    });
+  });
+});
+
+describe("portal resolution", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should not resolve custom portal URLs", async () => {
+    const { client, request } = createMockClient();
+
+    await client.initPortalUrl();
+
+    await expect(client.portalUrl()).resolves.toEqual(portalUrl);
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it("should resolve the portal once for concurrent requests", async () => {
+    const { client, request } = createMockClient(resolutionHandler([{ portal: portalUrl, server: serverUrl }]), {}, "");
+
+    const urls = await Promise.all([client.portalUrl(), client.portalUrl(), client.portalServerUrl()]);
+    await client.initPortalUrl();
+
+    expect(urls).toEqual([portalUrl, portalUrl, serverUrl]);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("should resolve the portal for every client", async () => {
+    const handler = jest.fn(resolutionHandler([{ portal: portalUrl }]));
+    const { client } = createMockClient(handler, {}, "");
+    const { client: otherClient } = createMockClient(handler, {}, "");
+
+    await client.portalUrl();
+    await otherClient.portalUrl();
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("should throw if the portal does not send its URLs", async () => {
+    const { client } = createMockClient(resolutionHandler([{ portal: portalUrl }]), {}, "");
+    await expect(client.portalServerUrl()).rejects.toThrow(PortalResolutionError);
+
+    const { client: clientWithoutUrls } = createMockClient(resolutionHandler([{}]), {}, "");
+    await expect(clientWithoutUrls.portalUrl()).rejects.toThrow("Could not get portal URL for the given portal");
+  });
+
+  it("should throw if the response has no headers", async () => {
+    const { client, request } = createMockClient(undefined, {}, "");
+    request.mockImplementation(async (config) => ({ status: 200, data: {}, config } as never));
+
+    await expect(client.portalUrl()).rejects.toMatchObject({ constructor: PortalResolutionError, isRetryable: true });
+  });
+
+  it("should resolve the portal again after a failure", async () => {
+    const { client, request } = createMockClient(resolutionHandler([null, { portal: portalUrl }]), {}, "");
+
+    await expect(client.portalUrl()).rejects.toThrow(ExecuteRequestError);
+    await expect(client.portalUrl()).resolves.toEqual(portalUrl);
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it("should resolve the portal again once the TTL passed and report changes", async () => {
+    jest.useFakeTimers({ now: 0 });
+    const { client, request } = createMockClient(
+      resolutionHandler([
+        { portal: portalUrl, server: serverUrl },
+        { portal: portalUrl, server: serverUrl },
+        { portal: "https://other.example", server: serverUrl },
+      ]),
+      { portalResolutionTtl: 1000 },
+      ""
+    );
+    const listener = jest.fn();
+    const removeListener = client.onPortalUrlChange(listener);
+
+    await client.portalUrl();
+    jest.advanceTimersByTime(1000);
+    await client.portalUrl();
+    expect(listener).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1000);
+
+    await expect(client.portalUrl()).resolves.toEqual("https://other.example");
+    expect(listener).toHaveBeenCalledWith({ portalUrl: "https://other.example", serverUrl }, { portalUrl, serverUrl });
+    expect(request).toHaveBeenCalledTimes(3);
+
+    removeListener();
+    jest.advanceTimersByTime(1000);
+    await client.portalUrl();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    ["succeeds", [null, { portal: portalUrl }], ["rejected", "fulfilled"]],
+    ["fails", [null, null], ["rejected", "rejected"]],
+  ])("should not use the URLs of a failed resolution if resolving them again %s", async (_name, urls, statuses) => {
+    const { client } = createMockClient(resolutionHandler(urls), { portalResolutionTtl: 0 }, "");
+    const listener = jest.fn();
+    client.onPortalUrlChange(listener);
+
+    const results = await Promise.allSettled([client.portalUrl(), client.portalUrl()]);
+
+    expect(results.map(({ status }) => status)).toEqual(statuses);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should keep the previous URLs if resolving them again fails", async () => {
+    jest.useFakeTimers({ now: 0 });
+    const { client } = createMockClient(
+      resolutionHandler([{ portal: portalUrl }, null]),
+      { portalResolutionTtl: 1 },
+      ""
+    );
+
+    await client.portalUrl();
+    jest.advanceTimersByTime(1);
+
+    await expect(client.portalUrl()).resolves.toEqual(portalUrl);
+  });
+});
+
+describe("middleware", () => {
+  it("should let middleware change requests and responses in the order it was added", async () => {
+    const { client, request } = createMockClient(() => ({ data: { ok: true } }));
+    const calls: string[] = [];
+    client.use({
+      onRequest: (config) => {
+        calls.push("request 1");
+        return { ...config, headers: { ...config.headers, "X-Trace": "1" } };
+      },
+      onResponse: (response) => {
+        calls.push("response 1");
+        return { ...response, data: { ...response.data, first: true } };
+      },
+    });
+    client.use({
+      onRequest: () => {
+        calls.push("request 2");
+      },
+      onResponse: () => {
+        calls.push("response 2");
+      },
+    });
+
+    const response = await client.executeRequest({ endpointPath: "/s5/account" });
+
+    expect(calls).toEqual(["request 1", "request 2", "response 1", "response 2"]);
+    expect(request.mock.calls[0][0].headers).toMatchObject({ "X-Trace": "1" });
+    expect(response.data).toEqual({ ok: true, first: true });
+  });
+
+  it("should pass S5 errors to middleware", async () => {
+    const { client } = createMockClient(() => ({ status: 404 }));
+    const onError = jest.fn();
+    client.use({ onError });
+
+    await expect(client.executeRequest({ endpointPath: "/s5/account" })).rejects.toThrow(NotFoundError);
+    expect(onError).toHaveBeenCalledWith(
+      expect.any(NotFoundError),
+      expect.objectContaining({ url: `${portalUrl}/s5/account` })
+    );
+  });
+
+  it("should pass other errors to middleware unchanged", async () => {
+    const error = new Error("bug");
+    const { client } = createMockClient(() => {
+      throw error;
+    });
+    const onError = jest.fn();
+    client.use({ onError });
+
+    await expect(client.executeRequest({ endpointPath: "/s5/account" })).rejects.toBe(error);
+    expect(onError).toHaveBeenCalledWith(error, expect.anything());
+  });
+
+  it("should stop calling removed middleware", async () => {
+    const { client } = createMockClient();
+    const onRequest = jest.fn();
+    const remove = client.use({ onRequest });
+
+    remove();
+    await client.executeRequest({ endpointPath: "/s5/account" });
+
+    expect(onRequest).not.toHaveBeenCalled();
+  });
+});
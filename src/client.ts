@@ -1,20 +1,40 @@
-import axios, { AxiosError } from "axios";
-import type { AxiosResponse, ResponseType, Method } from "axios";
+import type { AxiosError, AxiosInstance, AxiosRequestConfig, AxiosResponse, ResponseType, Method } from "axios";
 
 import {
   uploadFile,
   uploadLargeFile,
   uploadDirectory,
+  uploadDirectoryFiles,
+  uploadDirectoryFromPath,
   uploadDirectoryRequest,
   uploadSmallFile,
   uploadSmallFileRequest,
   uploadLargeFileRequest,
+  uploadMetadata,
 } from "./upload";
-import { downloadFile, getCidUrl, getMetadata } from "./download";
+import { getRegistryEntry, setRegistryEntry } from "./registry";
+import { resolveCid, updateResolver } from "./resolver";
+import {
+  downloadBlob,
+  downloadData,
+  downloadFile,
+  downloadMetadata,
+  downloadNodeStream,
+  downloadStream,
+  getCidUrl,
+  getMetadata,
+} from "./download";
+import { getAccountInfo, login, logout, register } from "./account";
 
 import { defaultPortalUrl, ensureUrl } from "./utils/url";
+import { throwValidationError } from "./utils/validation";
+import { PortalPool, PortalSelection, PortalState } from "./portals";
 
 import { buildRequestHeaders, buildRequestUrl, ExecuteRequestError, Headers } from "./request";
+import { PortalResolutionError, S5Error, UploadError } from "./errors";
+import { DEFAULT_RETRY_POLICY, getRetryDelay, RetryPolicy } from "./retry";
+import { sleep } from "./utils/async";
+import { AxiosTransport, getDefaultTransport, Transport } from "./transport";
 
 /**
  * Custom client options.
@@ -26,6 +46,14 @@ import { buildRequestHeaders, buildRequestUrl, ExecuteRequestError, Headers } fr
  * @property [onDownloadProgress] - Optional callback to track download progress.
  * @property [onUploadProgress] - Optional callback to track upload progress.
  * @property [loginFn] - A function that, if set, is called when a 401 is returned from the request before re-trying the request.
+ * @property [authToken] - The session token of a portal account (sets the "Authorization" header). Set by `register` and `login`; pass a stored token to resume a session.
+ * @property [portalSelection="round-robin"] - How a portal is selected for downloads and other read requests when the client has several portals.
+ * @property [portalCooldown=30000] - How long, in ms, a portal that failed is avoided when the client has several portals.
+ * @property [portalHealthCheckInterval] - How often, in ms, to check the health of all portals when the client has several portals. Disabled by default.
+ * @property [portalResolutionTtl] - How long, in ms, the resolved portal URLs are used before the portal is asked again. By default they are resolved once.
+ * @property [retryPolicy] - When and how often to retry requests that failed with a retryable error, including metadata fetches and portal resolution. By default requests are not retried.
+ * @property [axiosInstance] - The axios instance to send requests with, e.g. one with a custom adapter. By default every client creates its own.
+ * @property [transport] - The transport to send requests with, e.g. a `FetchTransport`. Defaults to axios, or to `fetch` in runtimes without XHR or Node's HTTP stack. Takes precedence over `axiosInstance`.
  */
 export type CustomClientOptions = {
   APIKey?: string;
@@ -35,8 +63,35 @@ export type CustomClientOptions = {
   onDownloadProgress?: (progress: number, event: ProgressEvent) => void;
   onUploadProgress?: (progress: number, event: ProgressEvent) => void;
   loginFn?: (config?: RequestConfig) => Promise<void>;
+  authToken?: string;
+  portalSelection?: PortalSelection;
+  portalCooldown?: number;
+  portalHealthCheckInterval?: number;
+  portalResolutionTtl?: number;
+  retryPolicy?: RetryPolicy;
+  axiosInstance?: AxiosInstance;
+  transport?: Transport;
 };
 
+/**
+ * The URLs the initial portal URL of a client resolved to.
+ *
+ * @property portalUrl - The API portal URL, from the `s5-portal-api` header, or the custom portal URL.
+ * @property [serverUrl] - The portal server URL, from the `s5-server-api` header, if the portal sent one.
+ */
+export type ResolvedPortalUrls = {
+  portalUrl: string;
+  serverUrl?: string;
+};
+
+/**
+ * Called when the resolved portal URLs of a client change after re-resolving them.
+ *
+ * @param urls - The new URLs.
+ * @param previous - The URLs that were resolved before.
+ */
+export type PortalUrlChangeListener = (urls: ResolvedPortalUrls, previous: ResolvedPortalUrls) => void;
+
 /**
  * Config options for a single request.
  *
@@ -51,6 +106,7 @@ export type CustomClientOptions = {
  * @property [responseType] - The response type.
  * @property [transformRequest] - A function that allows manually transforming the request.
  * @property [transformResponse] - A function that allows manually transforming the response.
+ * @property [signal] - A signal that cancels the request when aborted.
  */
 export type RequestConfig = CustomClientOptions & {
   endpointPath?: string;
@@ -64,22 +120,27 @@ export type RequestConfig = CustomClientOptions & {
   responseType?: ResponseType;
   transformRequest?: (data: unknown) => string;
   transformResponse?: (data: string) => Record<string, unknown>;
+  signal?: AbortSignal;
 };
 
-// Add a response interceptor so that we always return an error of type
-// `ExecuteResponseError`.
-axios.interceptors.response.use(
-  function (response) {
-    // Any status code that lie within the range of 2xx cause this function to trigger.
-    // Do something with response data.
-    return response;
-  },
-  function (error) {
-    // Any status codes that falls outside the range of 2xx cause this function to trigger
-    // Do something with response error.
-    return Promise.reject(ExecuteRequestError.From(error as AxiosError));
-  }
-);
+/**
+ * Hooks that are called for every request a client sends to a portal, e.g.
+ * for logging, tracing headers, metrics or rewriting requests. Hooks of
+ * several middleware are called in the order they were added. Large file
+ * uploads with tus don't pass through middleware.
+ *
+ * @property [onRequest] - Called before a request is sent. May return a changed request config.
+ * @property [onResponse] - Called with a successful response. May return a changed response.
+ * @property [onError] - Called when a request failed, with the error it fails with.
+ */
+export type ClientMiddleware = {
+  onRequest?: (request: AxiosRequestConfig) => AxiosRequestConfig | void | Promise<AxiosRequestConfig | void>;
+  onResponse?: (
+    response: AxiosResponse,
+    request: AxiosRequestConfig
+  ) => AxiosResponse | void | Promise<AxiosResponse | void>;
+  onError?: (error: unknown, request: AxiosRequestConfig) => void | Promise<void>;
+};
 
 /**
  * The S5 Client which can be used to access S5-net.
@@ -91,12 +152,21 @@ export class S5Client {
   // S5Client` is called without a given portal. This initial URL is used to
   // resolve the final portal URL.
   protected initialPortalUrl: string;
-  // The resolved API portal URL. The request won't be made until needed, or
-  // `initPortalUrl()` is called. The request is only made once, for all S5
-  // Clients.
-  protected static resolvedPortalUrl?: Promise<string>;
+  // The resolved API portal URLs. The request won't be made until needed, or
+  // `initPortalUrl()` is called. Every client resolves its own initial URL,
+  // and again once `portalResolutionTtl` has passed.
+  protected resolvedPortalUrls?: Promise<ResolvedPortalUrls>;
+  protected resolvedPortalUrlsExpireAt = Infinity;
+  protected portalUrlChangeListeners = new Set<PortalUrlChangeListener>();
+  // The transport requests are sent with, and the middleware they pass through.
+  readonly transport: Transport;
+  protected middleware: ClientMiddleware[] = [];
   // The custom portal URL, if one was passed in to `new S5Client()`.
   protected customPortalUrl?: string;
+  // The portals, if several were passed in to `new S5Client()`. Requests
+  // fail over to the next portal on network errors and 5xx responses.
+  protected portalPool?: PortalPool;
+  protected healthCheckTimer?: ReturnType<typeof setInterval>;
 
   // Set methods (defined in other files).
 
@@ -108,22 +178,55 @@ export class S5Client {
   protected uploadLargeFile = uploadLargeFile;
   protected uploadLargeFileRequest = uploadLargeFileRequest;
   uploadDirectory = uploadDirectory;
+  uploadDirectoryFromPath = uploadDirectoryFromPath;
+  protected uploadDirectoryFiles = uploadDirectoryFiles;
   protected uploadDirectoryRequest = uploadDirectoryRequest;
+  uploadMetadata = uploadMetadata;
 
   // Download
 
   downloadFile = downloadFile;
+  downloadData = downloadData;
+  downloadBlob = downloadBlob;
+  downloadStream = downloadStream;
+  downloadNodeStream = downloadNodeStream;
   getCidUrl = getCidUrl;
   getMetadata = getMetadata;
+  downloadMetadata = downloadMetadata;
+
+  // Account
+
+  register = register;
+  login = login;
+  logout = logout;
+  getAccountInfo = getAccountInfo;
+
+  // Registry
+
+  getRegistryEntry = getRegistryEntry;
+  setRegistryEntry = setRegistryEntry;
+  updateResolver = updateResolver;
+  resolveCid = resolveCid;
 
   /**
    * The S5 Client which can be used to access S5-net.
    *
    * @class
-   * @param [initialPortalUrl] The initial portal URL to use to access S5, if specified. A request will be made to this URL to get the actual portal URL. To use the default portal while passing custom options, pass "".
+   * @param [initialPortalUrl] The initial portal URL to use to access S5, if specified. A request will be made to this URL to get the actual portal URL. To use the default portal while passing custom options, pass "". Pass several portal URLs, in order of preference, to fail over between them.
    * @param [customOptions] Configuration for the client.
    */
-  constructor(initialPortalUrl = "", customOptions: CustomClientOptions = {}) {
+  constructor(initialPortalUrl: string | string[] = "", customOptions: CustomClientOptions = {}) {
+    if (Array.isArray(initialPortalUrl)) {
+      const urls = initialPortalUrl.map((url) => ensureUrl(url));
+      if (urls.length === 0) {
+        throwValidationError("initialPortalUrl", initialPortalUrl, "parameter", "a non-empty list of portal URLs");
+      }
+      if (urls.length > 1) {
+        this.portalPool = new PortalPool(urls, customOptions.portalSelection, customOptions.portalCooldown);
+      }
+      initialPortalUrl = urls[0];
+    }
+
     if (initialPortalUrl === "") {
       // Portal was not given, use the default portal URL. We'll still make a request for the resolved portal URL.
       initialPortalUrl = defaultPortalUrl();
@@ -133,6 +236,88 @@ export class S5Client {
     }
     this.initialPortalUrl = initialPortalUrl;
     this.customOptions = customOptions;
+    this.transport =
+      customOptions.transport ||
+      (customOptions.axiosInstance ? new AxiosTransport(customOptions.axiosInstance) : getDefaultTransport());
+
+    if (this.portalPool && customOptions.portalHealthCheckInterval) {
+      this.healthCheckTimer = setInterval(() => {
+        this.checkPortalHealth().catch(() => undefined);
+      }, customOptions.portalHealthCheckInterval);
+      // Don't keep Node processes alive just for health checks.
+      if (typeof this.healthCheckTimer === "object" && "unref" in this.healthCheckTimer) {
+        this.healthCheckTimer.unref();
+      }
+    }
+  }
+
+  /**
+   * The state of the portals of a client created with several portal URLs.
+   *
+   * @returns - The portal states, in order of preference, or an empty list for clients with a single portal.
+   */
+  get portals(): PortalState[] {
+    return this.portalPool ? this.portalPool.portals : [];
+  }
+
+  /**
+   * Checks the health of all portals of a client created with several
+   * portal URLs by sending a HEAD request to each of them.
+   *
+   * @returns - The portal states after the check.
+   */
+  async checkPortalHealth(): Promise<PortalState[]> {
+    const pool = this.portalPool;
+    if (!pool) {
+      return [];
+    }
+
+    await Promise.all(
+      pool.portals.map(async ({ url }) => {
+        const start = Date.now();
+        try {
+          // Requests to a portal of the pool update its health themselves.
+          await this.executeRequest({ ...this.customOptions, method: "head", url, retryPolicy: undefined });
+        } catch (e) {
+          if (!isPortalFailure(e)) {
+            // The portal answered, e.g. with a 404, so it is up.
+            pool.reportSuccess(url, Date.now() - start);
+          }
+        }
+      })
+    );
+    return pool.portals;
+  }
+
+  /**
+   * Records the outcome of a request to a portal that was not sent with
+   * `executeRequest`, e.g. a large file upload with tus, in the health of the
+   * portal. Its duration does not count as latency, as it depends on the
+   * amount of data. Used internally by the upload methods.
+   *
+   * @param url - The portal URL.
+   * @param [error] - The error the request failed with, if it failed.
+   */
+  reportPortalRequest(url: string, error?: unknown): void {
+    const pool = this.portalPool;
+    if (!pool) {
+      return;
+    }
+    if (error === undefined) {
+      pool.reportSuccess(url);
+    } else if (isPortalFailure(error)) {
+      pool.reportFailure(url);
+    }
+  }
+
+  /**
+   * Stops the periodic health checks started by the `portalHealthCheckInterval` option.
+   */
+  stopHealthChecks(): void {
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = undefined;
+    }
   }
 
   /* istanbul ignore next */
@@ -147,21 +332,8 @@ export class S5Client {
       return;
     }
 
-    // Try to resolve the portal URL again if it's never been called or if it
-    // previously failed.
-    if (!S5Client.resolvedPortalUrl) {
-      S5Client.resolvedPortalUrl = this.resolvePortalUrl();
-    } else {
-      try {
-        await S5Client.resolvedPortalUrl;
-      } catch (e) {
-        S5Client.resolvedPortalUrl = this.resolvePortalUrl();
-      }
-    }
-
     // Wait on the promise and throw if it fails.
-    await S5Client.resolvedPortalUrl;
-    return;
+    await this.resolvePortal();
   }
 
   /* istanbul ignore next */
@@ -171,26 +343,144 @@ export class S5Client {
    * @returns - the portal URL.
    */
   async portalUrl(): Promise<string> {
+    if (this.portalPool) {
+      return this.portalPool.primary();
+    }
     if (this.customPortalUrl) {
       return this.customPortalUrl;
     }
 
     // Make the request if needed and not done so.
-    await this.initPortalUrl();
+    const { portalUrl } = await this.resolvePortal();
+    return portalUrl;
+  }
+
+  /**
+   * Returns the server URL of the portal, which the portal sends in the
+   * `s5-server-api` header. Makes the request to get it if not done so already.
+   *
+   * @returns - The portal server URL.
+   * @throws - Will throw if the portal did not send a server URL.
+   */
+  async portalServerUrl(): Promise<string> {
+    const { serverUrl } = await this.resolvePortal();
+    if (!serverUrl) {
+      throw new PortalResolutionError(
+        "Could not get server portal URL for the given portal",
+        false,
+        this.initialPortalUrl
+      );
+    }
+    return serverUrl;
+  }
+
+  /**
+   * Adds middleware whose hooks are called for every request the client sends.
+   *
+   * @param middleware - The middleware.
+   * @returns - A function that removes the middleware.
+   */
+  use(middleware: ClientMiddleware): () => void {
+    this.middleware.push(middleware);
+    return () => {
+      this.middleware = this.middleware.filter((added) => added !== middleware);
+    };
+  }
 
-    return await S5Client.resolvedPortalUrl!; // eslint-disable-line
+  /**
+   * Registers a listener that is called when the resolved portal URLs change
+   * after re-resolving them, see the `portalResolutionTtl` option.
+   *
+   * @param listener - The listener.
+   * @returns - A function that removes the listener.
+   */
+  onPortalUrlChange(listener: PortalUrlChangeListener): () => void {
+    this.portalUrlChangeListeners.add(listener);
+    return () => {
+      this.portalUrlChangeListeners.delete(listener);
+    };
   }
 
   /**
-   * Creates and executes a request.
+   * Creates and executes a request. For clients with several portals, the
+   * request is sent to the next portal if one fails with a network error or
+   * a 5xx response, unless the request has a `url`. Requests with a `url` of
+   * one of the portals still update its health. Failed requests are
+   * retried according to the `retryPolicy` option.
    *
    * @param config - Configuration for the request.
    * @returns - The response from axios.
    * @throws - Will throw `ExecuteRequestError` if the request fails. This error contains the original Axios error.
    */
   async executeRequest(config: RequestConfig): Promise<AxiosResponse> {
+    // Requests can turn off retries by setting `retryPolicy` to undefined.
+    const retryPolicy = "retryPolicy" in config ? config.retryPolicy : this.customOptions.retryPolicy;
+    if (!retryPolicy) {
+      return this.executeFailoverRequest(config);
+    }
+
+    const policy = { ...DEFAULT_RETRY_POLICY, ...retryPolicy };
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.executeFailoverRequest(config);
+      } catch (e) {
+        const aborted = config.signal && config.signal.aborted;
+        const delay = aborted ? null : getRetryDelay(policy, e, attempt, config.method);
+        if (delay === null) {
+          throw e;
+        }
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Creates and executes a request, failing over to the next portal for
+   * clients with several portals.
+   *
+   * @param config - Configuration for the request.
+   * @returns - The response from axios.
+   * @throws - Will throw `ExecuteRequestError` if the request fails on all portals.
+   */
+  protected async executeFailoverRequest(config: RequestConfig): Promise<AxiosResponse> {
+    const pool = this.portalPool;
+    if (!pool) {
+      return this.executePortalRequest(config);
+    }
+
+    // Requests that only read data are spread over the portals. Requests with
+    // a `url` are not failed over.
+    const read = !config.method || ["get", "head"].includes(config.method.toLowerCase());
+    const urls = config.url ? [config.url] : pool.order(read);
+    let lastError: unknown;
+    for (const url of urls) {
+      const start = Date.now();
+      try {
+        const response = await this.executePortalRequest({ ...config, url });
+        pool.reportSuccess(url, Date.now() - start);
+        return response;
+      } catch (e) {
+        if (!isPortalFailure(e) || (config.signal && config.signal.aborted)) {
+          throw e;
+        }
+        pool.reportFailure(url);
+        lastError = e;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Creates and executes a request to a single portal.
+   *
+   * @param config - Configuration for the request.
+   * @returns - The response from axios.
+   * @throws - Will throw `ExecuteRequestError` if the request fails. This error contains the original Axios error.
+   */
+  protected async executePortalRequest(config: RequestConfig): Promise<AxiosResponse> {
+    const portalUrl = config.url || (await this.portalUrl());
     const url = await buildRequestUrl(this, {
-      baseUrl: config.url,
+      baseUrl: portalUrl,
       endpointPath: config.endpointPath,
       subdomain: config.subdomain,
       extraPath: config.extraPath,
@@ -198,7 +488,13 @@ export class S5Client {
     });
 
     // Build headers.
-    const headers = buildRequestHeaders(config.headers, config.customUserAgent, config.customCookie, config.s5ApiKey);
+    const headers = buildRequestHeaders(
+      config.headers,
+      config.customUserAgent,
+      config.customCookie,
+      config.s5ApiKey,
+      config.authToken
+    );
 
     const auth = config.APIKey ? { username: "", password: config.APIKey } : undefined;
 
@@ -223,10 +519,8 @@ export class S5Client {
       };
     }
 
-    // NOTE: The error type is `ExecuteRequestError`. We set up a response
-    // interceptor above that does the conversion from `AxiosError`.
     try {
-      return await axios({
+      return await this.sendRequest({
         url,
         method: config.method,
         data: config.data,
@@ -237,6 +531,7 @@ export class S5Client {
         responseType: config.responseType,
         transformRequest: config.transformRequest,
         transformResponse: config.transformResponse,
+        signal: config.signal,
 
         maxContentLength: Infinity,
         maxBodyLength: Infinity,
@@ -247,12 +542,19 @@ export class S5Client {
       // If `loginFn` is set and we get an Unauthorized response...
       if (config.loginFn && (e as ExecuteRequestError).responseStatus === 401) {
         // Try logging in again.
+        const staleAuthToken = this.customOptions.authToken;
         await config.loginFn(config);
+        // Send the new session token if the request used the old one.
+        const authToken = config.authToken === staleAuthToken ? this.customOptions.authToken : config.authToken;
         // Unset the login function on the recursive call so that we don't try
-        // to login again, avoiding infinite loops.
-        return await this.executeRequest({ ...config, loginFn: undefined });
+        // to login again, avoiding infinite loops. Retries are left to the
+        // outer call.
+        return await this.executeRequest({ ...config, authToken, loginFn: undefined, retryPolicy: undefined });
       }
 
+      if (e instanceof S5Error && !e.portalUrl) {
+        e.portalUrl = portalUrl;
+      }
       throw e;
     }
   }
@@ -262,37 +564,91 @@ export class S5Client {
   // ===============
 
   /**
-   * Gets the current server URL for the portal. You should generally use
-   * `portalUrl` instead - this method can be used for detecting whether the
-   * current URL is a server URL.
+   * Sends a request with the transport of the client, passing it through
+   * the middleware.
    *
-   * @returns - The portal server URL.
+   * @param request - The request config.
+   * @returns - The response.
+   * @throws - Will throw `ExecuteRequestError` if the request fails. This error contains the original Axios error.
    */
-  protected async resolvePortalServerUrl(): Promise<string> {
-    const response = await this.executeRequest({
-      ...this.customOptions,
-      method: "head",
-      url: this.initialPortalUrl,
-    });
+  protected async sendRequest(request: AxiosRequestConfig): Promise<AxiosResponse> {
+    // Middleware added or removed while the request is sent doesn't apply to it.
+    const middleware = [...this.middleware];
+    for (const { onRequest } of middleware) {
+      if (onRequest) {
+        request = (await onRequest(request)) || request;
+      }
+    }
 
-    if (!response.headers) {
-      throw new Error(
-        "Did not get 'headers' in response despite a successful request. Please try again and report this issue to the devs if it persists."
-      );
+    let response;
+    try {
+      response = await this.transport.request(request);
+    } catch (e) {
+      const error = (e as AxiosError).isAxiosError ? ExecuteRequestError.From(e as AxiosError) : e;
+      for (const { onError } of middleware) {
+        if (onError) {
+          await onError(error, request);
+        }
+      }
+      throw error;
     }
-    const portalUrl = response.headers["s5-server-api"];
-    if (!portalUrl) {
-      throw new Error("Could not get server portal URL for the given portal");
+
+    for (const { onResponse } of middleware) {
+      if (onResponse) {
+        response = (await onResponse(response, request)) || response;
+      }
     }
-    return portalUrl;
+    return response;
   }
 
   /**
-   * Make a request to resolve the provided `initialPortalUrl`.
+   * Returns the resolved portal URLs, resolving them if not done so already,
+   * if the previous attempt failed or if they expired. Concurrent calls share
+   * one request. If re-resolving fails, the previous URLs are kept until they
+   * expire again.
    *
-   * @returns - The portal URL.
+   * @returns - The resolved portal URLs.
    */
-  protected async resolvePortalUrl(): Promise<string> {
+  protected resolvePortal(): Promise<ResolvedPortalUrls> {
+    if (this.resolvedPortalUrls && Date.now() < this.resolvedPortalUrlsExpireAt) {
+      return this.resolvedPortalUrls;
+    }
+
+    const ttl = this.customOptions.portalResolutionTtl;
+    this.resolvedPortalUrlsExpireAt = ttl === undefined ? Infinity : Date.now() + ttl;
+
+    const previousResolution = this.resolvedPortalUrls;
+    const resolution: Promise<ResolvedPortalUrls> = this.resolvePortalUrls().then(
+      async (urls) => {
+        const previous = previousResolution && (await previousResolution.catch(() => undefined));
+        if (previous && (previous.portalUrl !== urls.portalUrl || previous.serverUrl !== urls.serverUrl)) {
+          this.portalUrlChangeListeners.forEach((listener) => listener(urls, previous));
+        }
+        return urls;
+      },
+      async (error) => {
+        const previous = previousResolution && (await previousResolution.catch(() => undefined));
+        if (previous) {
+          return previous;
+        }
+        // Try to resolve the portal URLs again on the next call.
+        if (this.resolvedPortalUrls === resolution) {
+          this.resolvedPortalUrls = undefined;
+        }
+        throw error;
+      }
+    );
+    this.resolvedPortalUrls = resolution;
+    return resolution;
+  }
+
+  /**
+   * Make a request to resolve the provided `initialPortalUrl` to the API
+   * portal URL and the portal server URL.
+   *
+   * @returns - The portal URLs.
+   */
+  protected async resolvePortalUrls(): Promise<ResolvedPortalUrls> {
     const response = await this.executeRequest({
       ...this.customOptions,
       method: "head",
@@ -300,14 +656,32 @@ export class S5Client {
     });
 
     if (!response.headers) {
-      throw new Error(
-        "Did not get 'headers' in response despite a successful request. Please try again and report this issue to the devs if it persists."
+      throw new PortalResolutionError(
+        "Did not get 'headers' in response despite a successful request. Please try again and report this issue to the devs if it persists.",
+        true,
+        this.initialPortalUrl
       );
     }
-    const portalUrl = response.headers["s5-portal-api"];
+    const portalUrl = this.customPortalUrl || response.headers["s5-portal-api"];
     if (!portalUrl) {
-      throw new Error("Could not get portal URL for the given portal");
+      throw new PortalResolutionError("Could not get portal URL for the given portal", false, this.initialPortalUrl);
     }
-    return portalUrl;
+    return { portalUrl, serverUrl: response.headers["s5-server-api"] || undefined };
+  }
+}
+
+/**
+ * Checks whether a request failed because of the portal, i.e. with a network
+ * error or a 5xx response, so it can be sent to another portal. Rate limits
+ * and timeouts are left to the retry policy, which honors `Retry-After`.
+ *
+ * @param error - The request error.
+ * @returns - Whether another portal should be tried.
+ */
+function isPortalFailure(error: unknown): boolean {
+  if (!(error instanceof ExecuteRequestError || error instanceof UploadError)) {
+    return false;
   }
+  // Without a response, only network errors are retryable, not e.g. canceled requests.
+  return error.responseStatus === null ? error.isRetryable : error.responseStatus >= 500;
 }
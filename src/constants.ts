@@ -6,10 +6,18 @@ export const cidTypeMetadataMedia = 0xc5;
 // const cidTypeMetadataFile = 0xc6;
 export const cidTypeMetadataWebApp = 0x59;
 export const cidTypeResolver = 0x25;
+export const cidTypeEncryptedStatic = 0xae;
+
+// ! encryption algorithms
+export const encryptionAlgorithmXChaCha20Poly1305 = 0xa6;
 
 // ! indicates that the registry entry contains a S5 CID
 export const registryS5MagicByte = 0x5a;
 
+// ! record types
+// used as the first byte of signed registry entries
+export const recordTypeRegistryEntry = 0x07;
+
 // ! some multicodec bytes
 // BLAKE3 with default output size of 256 bits
 export const mhashBlake3Default = 0x1f;
@@ -27,6 +35,11 @@ export const metadataTypeDirectory = 0x03;
 
 export const registryMaxDataSize = 48;
 
+// ! Portal account challenge types
+
+export const challengeTypeRegister = 1;
+export const challengeTypeLogin = 2;
+
 // ! p2p protocol message types
 
 export const protocolMethodHandshakeOpen = 1;
@@ -0,0 +1,126 @@
+import { UploadController } from "./controller";
+
+/**
+ * Creates pause handlers that record their calls.
+ *
+ * @returns - The handlers and the recorded calls.
+ */
+function createHandlers() {
+  const calls: string[] = [];
+  return { calls, handlers: { pause: () => calls.push("pause"), resume: () => calls.push("resume") } };
+}
+
+describe("UploadController", () => {
+  it("should pause and resume attached uploads", () => {
+    const controller = new UploadController();
+    const { calls, handlers } = createHandlers();
+    controller.attach(handlers);
+
+    controller.pause();
+    controller.pause();
+    expect(controller.paused).toBe(true);
+    controller.resume();
+    controller.resume();
+
+    expect(calls).toEqual(["pause", "resume"]);
+    expect(controller.paused).toBe(false);
+  });
+
+  it("should control several uploads until they are detached", () => {
+    const controller = new UploadController();
+    const first = createHandlers();
+    const second = createHandlers();
+    const detach = controller.attach(first.handlers);
+    controller.attach(second.handlers);
+
+    controller.pause();
+    detach();
+    controller.resume();
+
+    expect(first.calls).toEqual(["pause"]);
+    expect(second.calls).toEqual(["pause", "resume"]);
+  });
+
+  it("should pause uploads attached while paused", () => {
+    const controller = new UploadController();
+    const { calls, handlers } = createHandlers();
+    controller.pause();
+
+    controller.attach(handlers);
+
+    expect(calls).toEqual(["pause"]);
+  });
+
+  it("should not pause or resume aborted uploads", () => {
+    const controller = new UploadController();
+    const { calls, handlers } = createHandlers();
+    controller.attach(handlers);
+    controller.pause();
+
+    controller.abort();
+    controller.resume();
+
+    expect(controller.signal.aborted).toBe(true);
+    expect(calls).toEqual(["pause"]);
+  });
+
+  describe("follow", () => {
+    it("should abort when a followed signal is aborted", () => {
+      const controller = new UploadController();
+      const abortController = new AbortController();
+      controller.follow(abortController.signal);
+
+      abortController.abort();
+
+      expect(controller.signal.aborted).toBe(true);
+    });
+
+    it("should abort at once for aborted signals", () => {
+      const controller = new UploadController();
+      const abortController = new AbortController();
+      abortController.abort();
+
+      controller.follow(abortController.signal)();
+
+      expect(controller.signal.aborted).toBe(true);
+    });
+
+    it("should listen to a signal once and stop when all uploads settled", () => {
+      const controller = new UploadController();
+      const { signal } = new AbortController();
+      const addEventListener = jest.spyOn(signal, "addEventListener");
+      const removeEventListener = jest.spyOn(signal, "removeEventListener");
+
+      const unfollow1 = controller.follow(signal);
+      const unfollow2 = controller.follow(signal);
+      unfollow1();
+      unfollow1();
+      expect(removeEventListener).not.toHaveBeenCalled();
+      unfollow2();
+
+      expect(addEventListener).toHaveBeenCalledTimes(1);
+      expect(removeEventListener).toHaveBeenCalledWith("abort", addEventListener.mock.calls[0][1]);
+    });
+
+    it("should listen again to a signal followed after all uploads settled", () => {
+      const controller = new UploadController();
+      const abortController = new AbortController();
+      controller.follow(abortController.signal)();
+
+      controller.follow(abortController.signal);
+      abortController.abort();
+
+      expect(controller.signal.aborted).toBe(true);
+    });
+
+    it("should not abort once all uploads following a signal settled", () => {
+      const controller = new UploadController();
+      const abortController = new AbortController();
+      controller.follow(abortController.signal)();
+
+      abortController.abort();
+
+      expect(controller.signal.aborted).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Handlers that let an `UploadController` pause and resume an upload.
+ */
+export type PauseHandlers = {
+  pause: () => void;
+  resume: () => void;
+};
+
+/**
+ * Controls an in-flight upload. Pass it as the `controller` upload option.
+ *
+ * Any upload can be aborted, which cancels its network requests. Only large
+ * files uploaded with tus can be paused and resumed; for other uploads
+ * `pause` and `resume` have no effect.
+ */
+export class UploadController {
+  protected abortController = new AbortController();
+  protected handlers = new Set<PauseHandlers>();
+  protected isPaused = false;
+  // The signals the controller follows, with the number of uploads following each.
+  protected followedSignals = new WeakMap<AbortSignal, { onAbort: () => void; uploads: number }>();
+
+  /**
+   * The signal that is aborted when the upload is aborted.
+   *
+   * @returns - The abort signal.
+   */
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  /**
+   * Whether the upload is currently paused.
+   *
+   * @returns - True if paused.
+   */
+  get paused(): boolean {
+    return this.isPaused;
+  }
+
+  /**
+   * Pauses the upload. A tus upload stops sending data but keeps its state on
+   * the portal, so it can continue from the last acknowledged offset.
+   */
+  pause(): void {
+    if (this.isPaused || this.signal.aborted) {
+      return;
+    }
+    this.isPaused = true;
+    this.handlers.forEach((handlers) => handlers.pause());
+  }
+
+  /**
+   * Resumes a paused upload.
+   */
+  resume(): void {
+    if (!this.isPaused || this.signal.aborted) {
+      return;
+    }
+    this.isPaused = false;
+    this.handlers.forEach((handlers) => handlers.resume());
+  }
+
+  /**
+   * Aborts the upload and cancels its network requests. The upload promise
+   * rejects.
+   */
+  abort(): void {
+    this.abortController.abort();
+  }
+
+  /**
+   * Aborts the upload when the given signal is aborted. A signal is only
+   * listened to once, however many uploads follow it.
+   *
+   * @param signal - The signal to follow.
+   * @returns - A function that stops following the signal once the upload settled.
+   */
+  follow(signal: AbortSignal): () => void {
+    if (signal.aborted) {
+      this.abort();
+      return () => undefined;
+    }
+
+    const followed = this.followedSignals.get(signal) || { onAbort: () => this.abort(), uploads: 0 };
+    if (followed.uploads === 0) {
+      this.followedSignals.set(signal, followed);
+      signal.addEventListener("abort", followed.onAbort, { once: true });
+    }
+    followed.uploads++;
+
+    let unfollowed = false;
+    return () => {
+      if (unfollowed) {
+        return;
+      }
+      unfollowed = true;
+      if (--followed.uploads === 0) {
+        signal.removeEventListener("abort", followed.onAbort);
+        this.followedSignals.delete(signal);
+      }
+    };
+  }
+
+  /**
+   * Registers the pause handlers of a running upload. Used internally by the
+   * upload methods. A controller can control several uploads at once, e.g.
+   * the files of a directory.
+   *
+   * @param handlers - The pause handlers.
+   * @returns - A function that unregisters the handlers once the upload finished.
+   */
+  attach(handlers: PauseHandlers): () => void {
+    this.handlers.add(handlers);
+    if (this.isPaused) {
+      handlers.pause();
+    }
+    return () => {
+      this.handlers.delete(handlers);
+    };
+  }
+}
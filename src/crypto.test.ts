@@ -0,0 +1,69 @@
+import { mkeyEd25519 } from "./constants";
+import {
+  decodePublicKey,
+  encodePublicKey,
+  genKeyPair,
+  genKeyPairFromSeed,
+  genSeed,
+  SEED_LENGTH,
+  sign,
+  verify,
+} from "./crypto";
+
+const message = new TextEncoder().encode("message");
+
+describe("genKeyPairFromSeed", () => {
+  it("should derive the same key pair from the same seed", async () => {
+    const seed = await genSeed();
+
+    const keyPair = await genKeyPairFromSeed(seed);
+
+    expect(seed).toHaveLength(SEED_LENGTH);
+    expect(keyPair.publicKey).toHaveLength(32);
+    expect(keyPair.privateKey).toHaveLength(64);
+    await expect(genKeyPairFromSeed(seed)).resolves.toEqual(keyPair);
+  });
+
+  it("should reject seeds with the wrong length", async () => {
+    await expect(genKeyPairFromSeed(new Uint8Array(16))).rejects.toThrow("seed.length");
+  });
+});
+
+describe("sign", () => {
+  it("should create signatures that verify", async () => {
+    const keyPair = await genKeyPair();
+    const otherKeyPair = await genKeyPair();
+
+    const signature = await sign(message, keyPair);
+
+    await expect(verify(message, signature, keyPair.publicKey)).resolves.toBe(true);
+    await expect(verify(message.subarray(1), signature, keyPair.publicKey)).resolves.toBe(false);
+    await expect(verify(message, signature, otherKeyPair.publicKey)).resolves.toBe(false);
+  });
+
+  it("should not verify malformed signatures and keys", async () => {
+    const keyPair = await genKeyPair();
+    const signature = await sign(message, keyPair);
+
+    await expect(verify(message, signature.subarray(1), keyPair.publicKey)).resolves.toBe(false);
+    await expect(verify(message, signature, keyPair.publicKey.subarray(1))).resolves.toBe(false);
+  });
+});
+
+describe("encodePublicKey", () => {
+  it("should round-trip multicoded public keys", async () => {
+    const { publicKey } = await genKeyPair();
+
+    const multikey = encodePublicKey(publicKey);
+
+    expect(multikey[0]).toEqual(mkeyEd25519);
+    expect(decodePublicKey(multikey)).toEqual(publicKey);
+  });
+
+  it.each([
+    ["a key of another type", new Uint8Array(33)],
+    ["a key without prefix", new Uint8Array(32).fill(mkeyEd25519)],
+  ])("should reject %s", (_name, multikey) => {
+    expect(() => decodePublicKey(multikey)).toThrow("a multicoded Ed25519 public key");
+  });
+});
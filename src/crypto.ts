@@ -0,0 +1,113 @@
+import sodium from "libsodium-wrappers";
+
+import { mkeyEd25519 } from "./constants";
+import { throwValidationError } from "./utils/validation";
+
+/**
+ * The size of an Ed25519 seed in bytes.
+ */
+export const SEED_LENGTH = 32;
+
+/**
+ * An Ed25519 key pair.
+ *
+ * @property publicKey - The 32-byte public key.
+ * @property privateKey - The 64-byte private key (seed followed by the public key).
+ */
+export type KeyPair = {
+  publicKey: Uint8Array;
+  privateKey: Uint8Array;
+};
+
+/**
+ * Generates a random seed that can be used to derive a key pair.
+ *
+ * @returns - The 32-byte seed.
+ */
+export async function genSeed(): Promise<Uint8Array> {
+  await sodium.ready;
+  return sodium.randombytes_buf(SEED_LENGTH);
+}
+
+/**
+ * Generates a random Ed25519 key pair.
+ *
+ * @returns - The key pair.
+ */
+export async function genKeyPair(): Promise<KeyPair> {
+  return genKeyPairFromSeed(await genSeed());
+}
+
+/**
+ * Deterministically derives an Ed25519 key pair from a seed.
+ *
+ * @param seed - The 32-byte seed.
+ * @returns - The key pair.
+ * @throws - Will throw if the seed does not have the expected length.
+ */
+export async function genKeyPairFromSeed(seed: Uint8Array): Promise<KeyPair> {
+  if (seed.length !== SEED_LENGTH) {
+    throwValidationError("seed.length", seed.length, "parameter", `${SEED_LENGTH}`);
+  }
+
+  await sodium.ready;
+  const { publicKey, privateKey } = sodium.crypto_sign_seed_keypair(seed);
+  return { publicKey, privateKey };
+}
+
+/**
+ * Signs a message with the given key pair.
+ *
+ * @param message - The message to sign.
+ * @param keyPair - The key pair.
+ * @returns - The 64-byte detached signature.
+ */
+export async function sign(message: Uint8Array, keyPair: KeyPair): Promise<Uint8Array> {
+  await sodium.ready;
+  return sodium.crypto_sign_detached(message, keyPair.privateKey);
+}
+
+/**
+ * Verifies a detached signature.
+ *
+ * @param message - The signed message.
+ * @param signature - The 64-byte signature.
+ * @param publicKey - The 32-byte public key of the signer.
+ * @returns - Whether the signature is valid.
+ */
+export async function verify(message: Uint8Array, signature: Uint8Array, publicKey: Uint8Array): Promise<boolean> {
+  await sodium.ready;
+  try {
+    return sodium.crypto_sign_verify_detached(signature, message, publicKey);
+  } catch {
+    // libsodium throws on malformed keys and signatures.
+    return false;
+  }
+}
+
+/**
+ * Prepends the Ed25519 multikey prefix to a public key.
+ *
+ * @param publicKey - The 32-byte public key.
+ * @returns - The 33-byte multicoded public key.
+ */
+export function encodePublicKey(publicKey: Uint8Array): Uint8Array {
+  const multikey = new Uint8Array(1 + publicKey.length);
+  multikey[0] = mkeyEd25519;
+  multikey.set(publicKey, 1);
+  return multikey;
+}
+
+/**
+ * Strips the Ed25519 multikey prefix from a multicoded public key.
+ *
+ * @param multikey - The 33-byte multicoded public key.
+ * @returns - The 32-byte public key.
+ * @throws - Will throw if the key is not a multicoded Ed25519 key.
+ */
+export function decodePublicKey(multikey: Uint8Array): Uint8Array {
+  if (multikey.length !== 33 || multikey[0] !== mkeyEd25519) {
+    throwValidationError("publicKey", multikey, "parameter", "a multicoded Ed25519 public key");
+  }
+  return multikey.subarray(1);
+}
@@ -0,0 +1,394 @@
+import { Readable } from "stream";
+
+import { createMockClient, MockHandler, portalUrl, rawCid, requestPath } from "../utils/testing";
+import { CID } from "./cid";
+import { cidTypeMetadataMedia, encryptionAlgorithmXChaCha20Poly1305 } from "./constants";
+import { genKeyPairFromSeed } from "./crypto";
+import { EncryptedCID, encryptContent, genEncryptionKey, getEncryptionPadding, readBlob } from "./encryption";
+import { ExecuteRequestError, IntegrityError } from "./errors";
+import { encodeMetadata, MediaMetadataBuilder, signMetadata } from "./metadata";
+import { concatBytes } from "./utils/file";
+import { hashData } from "./utils/hash";
+
+const content = new Uint8Array(100).map((_, i) => i);
+
+/**
+ * Reads a web stream to the end.
+ *
+ * @param stream - The stream.
+ * @returns - The content of the stream.
+ */
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const chunks = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) {
+      return new Uint8Array(Buffer.concat(chunks));
+    }
+    chunks.push(value);
+  }
+}
+
+/**
+ * Creates a handler that serves the given blobs by their cid and answers
+ * Range requests with partial content.
+ *
+ * @param blobs - The blobs by their base64url cid.
+ * @param [headers] - The headers to send with every response.
+ * @returns - The handler.
+ */
+function contentHandler(blobs: Record<string, Uint8Array>, headers: Record<string, string> = {}): MockHandler {
+  return (config) => {
+    const data = blobs[requestPath(config).slice(1)];
+    if (!data) {
+      return { status: 404 };
+    }
+    const range = config.headers && (config.headers["Range"] as string | undefined);
+    if (!range) {
+      return { data: data.buffer.slice(data.byteOffset, data.byteOffset + data.length), headers };
+    }
+    const [start, end] = range.replace("bytes=", "").split("-").map(Number);
+    return { status: 206, data: data.slice(start, end + 1).buffer, headers };
+  };
+}
+
+/**
+ * Encrypts content like uploads with the `encrypt` option do.
+ *
+ * @param data - The content.
+ * @param chunkSizePower - The chunk size as a power of two.
+ * @returns - The encrypted cid and the encrypted blob.
+ */
+async function encrypt(data: Uint8Array, chunkSizePower: number): Promise<{ cid: EncryptedCID; blob: Uint8Array }> {
+  const key = await genEncryptionKey();
+  const chunks = [];
+  for await (const chunk of encryptContent(readBlob(new Blob([data]), 1000), data.length, key, chunkSizePower)) {
+    chunks.push(chunk);
+  }
+  const blob = concatBytes(chunks);
+  const cid = new EncryptedCID(
+    encryptionAlgorithmXChaCha20Poly1305,
+    chunkSizePower,
+    CID.decode(await rawCid(blob)).hash,
+    key,
+    getEncryptionPadding(data.length, chunkSizePower),
+    CID.decode(await rawCid(data))
+  );
+  return { cid, blob };
+}
+
+describe("downloadData", () => {
+  it("should download and verify content", async () => {
+    const cid = await rawCid(content);
+    const { client } = createMockClient(contentHandler({ [cid]: content }, { "content-type": "text/plain" }));
+
+    await expect(client.downloadData(cid)).resolves.toEqual(content);
+    const blob = await client.downloadBlob(cid);
+    expect(blob.type).toEqual("text/plain");
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(content);
+  });
+
+  it("should throw if the content does not match the cid", async () => {
+    const cid = await rawCid(content);
+    const tampered = content.slice();
+    tampered[0] = 255;
+    const { client } = createMockClient(contentHandler({ [cid]: tampered }));
+    const { client: truncatingClient } = createMockClient(contentHandler({ [cid]: content.subarray(0, 99) }));
+
+    await expect(client.downloadData(cid)).rejects.toThrow(IntegrityError);
+    await expect(truncatingClient.downloadBlob(cid)).rejects.toThrow("Downloaded 99 bytes");
+  });
+
+  it("should reject cids that are not raw cids", async () => {
+    const cid = CID.fromHash(await hashData(content), cidTypeMetadataMedia).toBase64Url();
+    const { client, request } = createMockClient();
+
+    await expect(client.downloadData(cid)).rejects.toThrow("a raw CID");
+    await expect(client.downloadStream(cid)).rejects.toThrow("a raw CID");
+    expect(request).not.toHaveBeenCalled();
+  });
+  it("should download and decrypt encrypted content", async () => {
+    const data = new Uint8Array(5000).map((_, i) => i % 251);
+    const { cid, blob } = await encrypt(data, 12);
+    const { client } = createMockClient(contentHandler({ [cid.encryptedBlobCid.toBase64Url()]: blob }));
+
+    await expect(client.downloadData(cid.toBase64Url())).resolves.toEqual(data);
+    await expect(client.downloadBlob(cid.toBase64Url())).resolves.toMatchObject({ type: "", size: 5000 });
+  });
+});
+
+describe("downloadStream", () => {
+  it("should download the content in chunks and report progress", async () => {
+    const cid = await rawCid(content);
+    const { client, request } = createMockClient(contentHandler({ [cid]: content }));
+    const onDownloadProgress = jest.fn();
+
+    const stream = await client.downloadStream(cid, { chunkSize: 40, onDownloadProgress });
+
+    expect(await readAll(stream)).toEqual(content);
+    expect(request.mock.calls.map(([config]) => config.headers && config.headers["Range"])).toEqual([
+      "bytes=0-39",
+      "bytes=40-79",
+      "bytes=80-99",
+    ]);
+    expect(onDownloadProgress.mock.calls.map(([progress]) => progress)).toEqual([0.4, 0.8, 1]);
+  });
+
+  it("should end empty streams without requests or progress", async () => {
+    const empty = new Uint8Array();
+    const cid = await rawCid(empty);
+    const { client, request } = createMockClient(contentHandler({ [cid]: empty }));
+    const onDownloadProgress = jest.fn();
+
+    const stream = await client.downloadStream(cid, { onDownloadProgress });
+
+    expect(await readAll(stream)).toEqual(empty);
+    expect(request).not.toHaveBeenCalled();
+    expect(onDownloadProgress).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["bytes=10-19", 10, 20],
+    ["bytes=90-", 90, 100],
+    ["bytes=90-200", 90, 100],
+    ["bytes=-5", 95, 100],
+    ["bytes=-500", 0, 100],
+    ["bytes=100-", 100, 100],
+  ])("should download the range %s", async (range, start, end) => {
+    const cid = await rawCid(content);
+    const { client } = createMockClient(contentHandler({ [cid]: content }));
+
+    const stream = await client.downloadStream(cid, { range });
+
+    expect(await readAll(stream)).toEqual(content.slice(start, end));
+  });
+
+  it.each(["bytes=a-b", "bytes=-", "bytes=0-1,5-6", "bytes=101-", "bytes=20-10"])(
+    "should reject the range %s",
+    async (range) => {
+      const cid = await rawCid(content);
+      const { client } = createMockClient(contentHandler({ [cid]: content }));
+
+      await expect(client.downloadStream(cid, { range })).rejects.toThrow("range");
+    }
+  );
+
+  it("should cut the range out of full content returned by the portal", async () => {
+    const cid = await rawCid(content);
+    const { client } = createMockClient(() => ({ data: content.buffer }));
+
+    const stream = await client.downloadStream(cid, { range: "bytes=10-19" });
+
+    expect(await readAll(stream)).toEqual(content.slice(10, 20));
+  });
+
+  it("should error if a range has the wrong length", async () => {
+    const cid = await rawCid(content);
+    const { client } = createMockClient(() => ({ status: 206, data: content.slice(0, 5).buffer }));
+
+    const stream = await client.downloadStream(cid, { range: "bytes=10-19" });
+
+    await expect(readAll(stream)).rejects.toThrow("Downloaded 5 bytes for range 10-19");
+  });
+
+  it("should error if the content does not match the cid", async () => {
+    const cid = await rawCid(content);
+    const tampered = content.slice();
+    tampered[50] = 0;
+    const { client } = createMockClient(contentHandler({ [cid]: tampered }));
+
+    const stream = await client.downloadStream(cid);
+
+    await expect(readAll(stream)).rejects.toThrow(IntegrityError);
+  });
+
+  it("should retry ranges according to retryDelays only", async () => {
+    const { client, request } = createMockClient(() => ({ status: 503 }), {
+      retryPolicy: { baseDelay: 1, jitter: false },
+    });
+    const cid = await rawCid(content);
+
+    const stream = await client.downloadStream(cid, { retryDelays: [0, 1] });
+
+    await expect(readAll(stream)).rejects.toThrow(ExecuteRequestError);
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not retry client errors", async () => {
+    const { client, request } = createMockClient(() => ({ status: 404 }));
+    const cid = await rawCid(content);
+
+    const stream = await client.downloadStream(cid, { retryDelays: [0, 1] });
+
+    await expect(readAll(stream)).rejects.toThrow(ExecuteRequestError);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("should continue with the failed range after a retry", async () => {
+    const cid = await rawCid(content);
+    const serve = contentHandler({ [cid]: content });
+    const { client, request } = createMockClient((config) =>
+      request.mock.calls.length === 2 ? { status: null } : serve(config)
+    );
+
+    const stream = await client.downloadStream(cid, { chunkSize: 50, retryDelays: [0] });
+
+    expect(await readAll(stream)).toEqual(content);
+    expect(request.mock.calls.map(([config]) => config.headers && config.headers["Range"])).toEqual([
+      "bytes=0-49",
+      "bytes=50-99",
+      "bytes=50-99",
+    ]);
+  });
+  it.each([
+    [undefined, 0, 10000, "bytes=0-12335"],
+    ["bytes=4000-4199", 4000, 4200, "bytes=0-8223"],
+    ["bytes=5000-", 5000, 10000, "bytes=4112-12335"],
+    ["bytes=-100", 9900, 10000, "bytes=8224-12335"],
+  ])("should decrypt encrypted content in the range %s", async (range, start, end, encryptedRange) => {
+    const data = new Uint8Array(10000).map((_, i) => i % 251);
+    const { cid, blob } = await encrypt(data, 12);
+    const { client, request } = createMockClient(contentHandler({ [cid.encryptedBlobCid.toBase64Url()]: blob }));
+
+    const stream = await client.downloadStream(cid.toBase64Url(), { range });
+
+    expect(await readAll(stream)).toEqual(data.slice(start, end));
+    // Only the encrypted chunks covering the range are downloaded.
+    expect(request.mock.calls[0][0].headers).toMatchObject({ Range: encryptedRange });
+  });
+
+  it("should error if decrypted content does not match the cid", async () => {
+    const data = new Uint8Array(100).map((_, i) => i);
+    const { cid, blob } = await encrypt(data, 12);
+    const wrongCid = new EncryptedCID(
+      cid.encryptionAlgorithm,
+      cid.chunkSizePower,
+      cid.encryptedBlobHash,
+      cid.encryptionKey,
+      cid.padding,
+      CID.decode(await rawCid(data.slice().reverse()))
+    );
+    const { client } = createMockClient(contentHandler({ [cid.encryptedBlobCid.toBase64Url()]: blob }));
+
+    const stream = await client.downloadStream(wrongCid.toBase64Url());
+
+    await expect(readAll(stream)).rejects.toThrow(IntegrityError);
+    await expect(client.downloadData(wrongCid.toBase64Url())).rejects.toThrow(IntegrityError);
+  });
+});
+
+describe("downloadNodeStream", () => {
+  it("should download the content as a Node stream", async () => {
+    const cid = await rawCid(content);
+    const { client } = createMockClient(contentHandler({ [cid]: content }));
+
+    const stream = await client.downloadNodeStream(cid, { chunkSize: 30 });
+
+    expect(stream).toBeInstanceOf(Readable);
+    const chunks = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    expect(concatBytes(chunks)).toEqual(content);
+  });
+
+  it("should stop the download when the stream is destroyed", async () => {
+    const data = new Uint8Array(10 * 4096);
+    const { cid, blob } = await encrypt(data, 12);
+    const { client, request } = createMockClient(contentHandler({ [cid.encryptedBlobCid.toBase64Url()]: blob }));
+
+    const stream = await client.downloadNodeStream(cid.toBase64Url(), { chunkSize: 4112 });
+    for await (const chunk of stream) {
+      expect(chunk).toHaveLength(4096);
+      break;
+    }
+
+    expect(stream.destroyed).toBe(true);
+    expect(request.mock.calls.length).toBeLessThan(10);
+  });
+});
+describe("getCidUrl", () => {
+  const cid = "uJh9dvBupLgWG3p8CGJ1VR8PLnZvJQedolo8ktb027PrlTT5LvAY";
+
+  it.each([
+    [cid, {}, `${portalUrl}/${cid}`],
+    [`${cid}/dir/file.txt`, {}, `${portalUrl}/${cid}/dir/file.txt`],
+    [cid, { path: "dir/a file?.txt" }, `${portalUrl}/${cid}/dir/a%20file%3F.txt`],
+    [cid, { download: true }, `${portalUrl}/${cid}?attachment=true`],
+    [`s5://${cid}/file`, {}, `${portalUrl}/${cid}/file`],
+    [`https://other.example/${cid}/file`, {}, `${portalUrl}/${cid}/file`],
+  ])("should build the URL of %s with the options %s", async (input, options, url) => {
+    const { client } = createMockClient();
+
+    await expect(client.getCidUrl(input, options)).resolves.toEqual(url);
+  });
+
+  it("should build subdomain URLs with base32 cids", async () => {
+    const { client } = createMockClient();
+    const base32 = CID.decode(cid).toBase32();
+
+    await expect(client.getCidUrl(cid, { subdomain: true, path: "file" })).resolves.toEqual(
+      `https://${base32}.s5.example/file`
+    );
+    await expect(client.getCidUrl(`https://${base32}.other.example/dir/file`)).resolves.toEqual(
+      `${portalUrl}/${base32}/dir/file`
+    );
+  });
+
+  it("should reject invalid input", async () => {
+    const { client } = createMockClient();
+
+    await expect(client.getCidUrl("invalid")).rejects.toThrow();
+    await expect(client.getCidUrl(1 as unknown as string)).rejects.toThrow("type 'string'");
+    await expect(client.getCidUrl(cid, { path: 1 as unknown as string })).rejects.toThrow("opts.path");
+  });
+});
+
+describe("downloadFile", () => {
+  it("should open the download URL", async () => {
+    const { client } = createMockClient();
+    const assign = jest.fn();
+    Object.defineProperty(global, "window", { value: { location: { assign } }, configurable: true });
+
+    try {
+      const url = await client.downloadFile("uJh9dvBupLgWG3p8CGJ1VR8PLnZvJQedolo8ktb027PrlTT5LvAY");
+
+      expect(url).toEqual(`${portalUrl}/uJh9dvBupLgWG3p8CGJ1VR8PLnZvJQedolo8ktb027PrlTT5LvAY?attachment=true`);
+      expect(assign).toHaveBeenCalledWith(url);
+    } finally {
+      delete (global as { window?: unknown }).window;
+    }
+  });
+});
+
+describe("getMetadata", () => {
+  it("should get the metadata of a cid", async () => {
+    const cid = await rawCid(content);
+    const { client, request } = createMockClient(() => ({ data: { type: "raw" } }));
+
+    await expect(client.getMetadata(cid)).resolves.toEqual({ type: "raw" });
+    expect(requestPath(request.mock.calls[0][0])).toEqual(`/s5/metadata/${cid}`);
+  });
+});
+
+describe("downloadMetadata", () => {
+  it("should download, verify and decode metadata", async () => {
+    const keyPair = await genKeyPairFromSeed(new Uint8Array(32).fill(1));
+    const metadata = new MediaMetadataBuilder("My video").build();
+    const bytes = await signMetadata(encodeMetadata(metadata), [keyPair]);
+    const cid = CID.fromHash(await hashData(bytes), cidTypeMetadataMedia).toBase64Url();
+    const { client, request } = createMockClient(() => ({ data: bytes }));
+
+    await expect(client.downloadMetadata(cid)).resolves.toEqual({ ...metadata, signers: [keyPair.publicKey] });
+    expect(requestPath(request.mock.calls[0][0])).toEqual(`/s5/blob/${cid}`);
+  });
+
+  it("should throw if the metadata does not match the cid", async () => {
+    const bytes = encodeMetadata(new MediaMetadataBuilder("My video").build());
+    const cid = CID.fromHash(await hashData(bytes), cidTypeMetadataMedia).toBase64Url();
+    const { client } = createMockClient(() => ({ data: encodeMetadata(new MediaMetadataBuilder("Other").build()) }));
+
+    await expect(client.downloadMetadata(cid)).rejects.toThrow(IntegrityError);
+  });
+});
@@ -1,6 +1,20 @@
-import { ResponseType } from "axios";
+import type { ResponseType } from "axios";
+import { Readable } from "stream";
 
 import { S5Client } from "./client";
+import { CID } from "./cid";
+import { cidTypeRaw } from "./constants";
+import { IntegrityError } from "./errors";
+import { decodeMetadata, verifyMetadata, VerifiedMetadata } from "./metadata";
+import { decryptChunk, ENCRYPTION_TAG_LENGTH, EncryptedCID } from "./encryption";
+import { buildRequestUrl, ExecuteRequestError } from "./request";
+import { sleep } from "./utils/async";
+import { createHasher, hashData } from "./utils/hash";
+import { concatBytes } from "./utils/file";
+import { trimPrefix } from "./utils/string";
+import { createProgressEvent } from "./utils/progress";
+import { URI_S5_PREFIX } from "./utils/url";
+import { throwValidationError, validationError } from "./utils/validation";
 import { BaseCustomOptions, DEFAULT_BASE_OPTIONS } from "./utils/options";
 
 /**
@@ -9,9 +23,12 @@ import { BaseCustomOptions, DEFAULT_BASE_OPTIONS } from "./utils/options";
  * @property [endpointDownload] - The relative URL path of the portal endpoint to contact.
  * @property [download=false] - Indicates to `getCidUrl` whether the file should be downloaded (true) or opened in the browser (false). `downloadFile` and `openFile` override this value.
  * @property [path] - A path to append to the cid, e.g. `dir1/dir2/file`. A Unix-style path is expected. Each path component will be URL-encoded.
- * @property [range] - The Range request header to set for the download. Not applicable for in-borwser downloads.
+ * @property [range] - The Range request header to set for the download, e.g. `bytes=0-1023`. Used by `downloadStream`, not applicable for in-browser downloads.
  * @property [responseType] - The response type.
  * @property [subdomain=false] - Whether to return the final cid in subdomain format.
+ * @property [chunkSize=8388608] - The size of the ranges requested by `downloadStream`.
+ * @property [retryDelays=[0, 1_000, 5_000, 15_000]] - How many milliseconds to wait before re-requesting a range after a network failure in `downloadStream`. The array's length indicates the maximum number of retries per range. Ranges are retried according to these delays instead of the `retryPolicy` of the client.
+ * @property [maxResolverHops=8] - The maximum number of resolver CIDs to follow before giving up.
  */
 export type CustomDownloadOptions = BaseCustomOptions & {
   endpointDownload?: string;
@@ -20,10 +37,22 @@ export type CustomDownloadOptions = BaseCustomOptions & {
   range?: string;
   responseType?: ResponseType;
   subdomain?: boolean;
+  chunkSize?: number;
+  retryDelays?: number[];
+  maxResolverHops?: number;
 };
 
+/**
+ * Custom get metadata options.
+ *
+ * @property [endpointGetMetadata] - The relative URL path of the portal endpoint to contact.
+ * @property [endpointDownloadBlob] - The relative URL path of the portal endpoint to contact for raw metadata files.
+ * @property [maxResolverHops=8] - The maximum number of resolver CIDs to follow before giving up.
+ */
 export type CustomGetMetadataOptions = BaseCustomOptions & {
   endpointGetMetadata?: string;
+  endpointDownloadBlob?: string;
+  maxResolverHops?: number;
 };
 
 /**
@@ -37,6 +66,16 @@ export type GetMetadataResponse = {
   metadata: Record<string, unknown>;
 };
 
+/**
+ * The size of the ranges requested by `downloadStream`, 8 MiB by default.
+ */
+export const DEFAULT_DOWNLOAD_CHUNK_SIZE = 1 << 23;
+
+/**
+ * The delays, in ms, before a failed range request is retried.
+ */
+const DEFAULT_DOWNLOAD_RETRY_DELAYS = [0, 1_000, 5_000, 15_000];
+
 export const DEFAULT_DOWNLOAD_OPTIONS = {
   ...DEFAULT_BASE_OPTIONS,
   endpointDownload: "/",
@@ -45,18 +84,21 @@ export const DEFAULT_DOWNLOAD_OPTIONS = {
   range: undefined,
   responseType: undefined,
   subdomain: false,
+  chunkSize: DEFAULT_DOWNLOAD_CHUNK_SIZE,
+  retryDelays: DEFAULT_DOWNLOAD_RETRY_DELAYS,
 };
 
 const DEFAULT_GET_METADATA_OPTIONS = {
   ...DEFAULT_BASE_OPTIONS,
   endpointGetMetadata: "/s5/metadata",
+  endpointDownloadBlob: "/s5/blob",
 };
 
 /**
  * Initiates a download of the content of the cid within the browser.
  *
  * @param this - S5Client
- * @param cid - 46-character cid, or a valid cid URL. Can be followed by a path. Note that the cid will not be encoded, so if your path might contain special characters, consider using `customOptions.path`.
+ * @param cid - 46-character cid, an `s5://` URI or a valid cid URL. Can be followed by a path. Note that the cid will not be encoded, so if your path might contain special characters, consider using `customOptions.path`.
  * @param [customOptions] - Additional settings that can optionally be set.
  * @param [customOptions.endpointDownload="/"] - The relative URL path of the portal endpoint to contact.
  * @returns - The full URL that was used.
@@ -77,11 +119,143 @@ export async function downloadFile(
   return url;
 }
 
+/**
+ * Downloads the content of the given raw cid and verifies it against the
+ * BLAKE3 hash and size encoded in the cid. Content uploaded with the
+ * `encrypt` option is decrypted.
+ *
+ * @param this - S5Client
+ * @param cid - The raw or encrypted cid of the content, or a resolver cid pointing at it, in any supported encoding.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.endpointDownload="/"] - The relative URL path of the portal endpoint to contact.
+ * @returns - The verified content.
+ * @throws - Will throw if the cid is not a valid raw cid or could not be resolved to one.
+ * @throws - Will throw an `IntegrityError` if the content does not match the cid.
+ */
+export async function downloadData(
+  this: S5Client,
+  cid: string,
+  customOptions?: CustomDownloadOptions
+): Promise<Uint8Array> {
+  const { data } = await downloadVerifiedContent(this, cid, customOptions);
+  return data;
+}
+
+/**
+ * Downloads the content of the given raw cid as a `Blob` and verifies it
+ * against the BLAKE3 hash and size encoded in the cid. The blob type is taken
+ * from the Content-Type header returned by the portal, and empty for
+ * encrypted content.
+ *
+ * @param this - S5Client
+ * @param cid - The raw or encrypted cid of the content, or a resolver cid pointing at it, in any supported encoding.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.endpointDownload="/"] - The relative URL path of the portal endpoint to contact.
+ * @returns - The verified content.
+ * @throws - Will throw if the cid is not a valid raw cid or could not be resolved to one.
+ * @throws - Will throw an `IntegrityError` if the content does not match the cid.
+ */
+export async function downloadBlob(this: S5Client, cid: string, customOptions?: CustomDownloadOptions): Promise<Blob> {
+  const { data, contentType } = await downloadVerifiedContent(this, cid, customOptions);
+  return new Blob([data], { type: contentType });
+}
+
+/**
+ * Downloads the content of the given raw cid as a stream. The content is
+ * requested in ranges of `chunkSize` bytes, so it is never buffered in
+ * memory as a whole, and a range that fails because of a network error is
+ * re-requested from the current offset according to `retryDelays`.
+ *
+ * When the whole content is requested, it is hashed while streaming and the
+ * stream errors with an `IntegrityError` at the end if it does not match the
+ * cid. Partial ranges can only be checked for their length.
+ *
+ * Encrypted content is decrypted and authenticated chunk by chunk.
+ *
+ * @param this - S5Client
+ * @param cid - The raw or encrypted cid of the content, or a resolver cid pointing at it, in any supported encoding.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.endpointDownload="/"] - The relative URL path of the portal endpoint to contact.
+ * @param [customOptions.range] - The byte range to download, e.g. `bytes=1024-` to resume a download at an offset.
+ * @returns - A web `ReadableStream` of the content. In Node, `downloadNodeStream` returns a Node `Readable` instead.
+ * @throws - Will throw if the cid is not a valid raw cid, could not be resolved to one, or the range is invalid.
+ */
+export async function downloadStream(
+  this: S5Client,
+  cid: string,
+  customOptions?: CustomDownloadOptions
+): Promise<ReadableStream<Uint8Array>> {
+  const opts = { ...DEFAULT_DOWNLOAD_OPTIONS, ...this.customOptions, ...customOptions };
+
+  if (EncryptedCID.isEncrypted(cid)) {
+    return downloadDecryptedStream(this, EncryptedCID.decode(cid), opts);
+  }
+
+  const parsedCid = await this.resolveCid(cid, opts);
+  if (!parsedCid.isRaw) {
+    throwValidationError("cid", cid, "parameter", "a raw CID or a resolver CID pointing at one");
+  }
+  const size = parsedCid.size as number;
+  const { start, end } = parseRange(opts.range, size);
+
+  // Only the full content can be checked against the cid hash.
+  const hasher = start === 0 && end === size ? await createHasher() : undefined;
+
+  let offset = start;
+
+  return new ReadableStream<Uint8Array>({
+    pull: async (controller) => {
+      if (offset >= end) {
+        if (hasher) {
+          verifyDigest(parsedCid, hasher.digest());
+        }
+        controller.close();
+        return;
+      }
+
+      const chunkEnd = Math.min(offset + opts.chunkSize, end);
+      const chunk = await downloadRange(this, parsedCid.toBase64Url(), offset, chunkEnd, opts);
+      if (hasher) {
+        hasher.update(chunk);
+      }
+      offset = chunkEnd;
+      controller.enqueue(chunk);
+
+      if (opts.onDownloadProgress) {
+        const loaded = offset - start;
+        const total = end - start;
+        opts.onDownloadProgress(loaded / total, createProgressEvent(loaded, total));
+      }
+    },
+  });
+}
+
+/**
+ * Downloads the content of the given raw cid as a Node stream. Node only.
+ * See `downloadStream` for how the content is requested and verified.
+ *
+ * @param this - S5Client
+ * @param cid - The raw or encrypted cid of the content, or a resolver cid pointing at it, in any supported encoding.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.endpointDownload="/"] - The relative URL path of the portal endpoint to contact.
+ * @param [customOptions.range] - The byte range to download, e.g. `bytes=1024-` to resume a download at an offset.
+ * @returns - A Node `Readable` of the content. Destroying it stops the download.
+ * @throws - Will throw if the cid is not a valid raw cid, could not be resolved to one, or the range is invalid.
+ */
+export async function downloadNodeStream(
+  this: S5Client,
+  cid: string,
+  customOptions?: CustomDownloadOptions
+): Promise<Readable> {
+  const stream = await this.downloadStream(cid, customOptions);
+  return Readable.from(readStream(stream), { objectMode: false });
+}
+
 /**
  * Constructs the full URL for the given cid.
  *
  * @param this - S5Client
- * @param cid - Base64 cid, or a valid URL that contains a cid. See `downloadFile`.
+ * @param cid - Base64 cid, an `s5://` URI or a valid portal URL that contains a cid, optionally followed by a path. See `downloadFile`.
  * @param [customOptions] - Additional settings that can optionally be set.
  * @param [customOptions.endpointDownload="/"] - The relative URL path of the portal endpoint to contact.
  * @returns - The full URL for the cid.
@@ -89,12 +263,38 @@ export async function downloadFile(
  */
 export async function getCidUrl(this: S5Client, cid: string, customOptions?: CustomDownloadOptions): Promise<string> {
   const opts = { ...DEFAULT_DOWNLOAD_OPTIONS, ...this.customOptions, ...customOptions };
-  console.log(opts);
 
-  const portalUrl = await this.portalUrl();
+  const { cid: parsedCid, cidString, path: cidPath } = parseCidInput(cid);
+
+  let path = cidPath;
+  if (opts.path !== undefined) {
+    if (typeof opts.path !== "string") {
+      throwValidationError("opts.path", opts.path, "option", "type 'string'");
+    }
+    path += "/" + opts.path.split("/").map(encodeURIComponent).join("/");
+  }
+  path = trimPrefix(path.replace(/\/+/g, "/"), "/");
+
+  const query: { [key: string]: string | undefined } = {};
+  if (opts.download) {
+    // Tell the portal to serve the file as an attachment.
+    query.attachment = "true";
+  }
 
-  const resolveUrl = portalUrl + "/" + cid;
-  return resolveUrl;
+  if (opts.subdomain) {
+    // Subdomains are case-insensitive, so the cid needs to be in base32.
+    return buildRequestUrl(this, {
+      subdomain: parsedCid.toBase32(),
+      extraPath: path,
+      query,
+    });
+  }
+
+  return buildRequestUrl(this, {
+    endpointPath: opts.endpointDownload,
+    extraPath: path ? `${cidString}/${path}` : cidString,
+    query,
+  });
 }
 
 /**
@@ -103,9 +303,9 @@ export async function getCidUrl(this: S5Client, cid: string, customOptions?: Cus
  * @param this - S5Client
  * @param cid - Base64 cid.
  * @param [customOptions] - Additional settings that can optionally be set. See `downloadFile` for the full list.
- * @param [customOptions.endpointGetMetadata="/"] - The relative URL path of the portal endpoint to contact.
+ * @param [customOptions.endpointGetMetadata="/s5/metadata"] - The relative URL path of the portal endpoint to contact.
  * @returns - The metadata in JSON format. Empty if no metadata was found.
- * @throws - Will throw if the cid does not contain a cid .
+ * @throws - Will throw if the cid is not a valid S5 CID or a resolver cid could not be resolved.
  */
 export async function getMetadata(
   this: S5Client,
@@ -114,11 +314,389 @@ export async function getMetadata(
 ): Promise<GetMetadataResponse> {
   const opts = { ...DEFAULT_GET_METADATA_OPTIONS, ...this.customOptions, ...customOptions };
 
+  // Validate the CID and follow resolver CIDs before making the request.
+  const resolvedCid = await this.resolveCid(cid, opts);
+
   const response = await this.executeRequest({
     ...opts,
     method: "get",
-    extraPath: cid,
+    endpointPath: opts.endpointGetMetadata,
+    extraPath: resolvedCid.toBase64Url(),
   });
 
   return response.data;
 }
+
+/**
+ * Downloads the raw metadata file of the given cid and decodes it locally,
+ * without relying on the JSON rendering of the portal. The file is verified
+ * against the hash in the cid before decoding, and its signature proofs are
+ * verified.
+ *
+ * @param this - S5Client
+ * @param cid - The metadata cid, or a resolver cid pointing at one, in any supported encoding.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.endpointDownloadBlob="/s5/blob"] - The relative URL path of the portal endpoint to contact.
+ * @returns - The decoded metadata, including the public keys of the verified signers.
+ * @throws - Will throw if the cid is invalid or the file is not valid metadata.
+ * @throws - Will throw an `IntegrityError` if the file does not match the cid or a signature proof is invalid.
+ */
+export async function downloadMetadata(
+  this: S5Client,
+  cid: string,
+  customOptions?: CustomGetMetadataOptions
+): Promise<VerifiedMetadata> {
+  const opts = { ...DEFAULT_GET_METADATA_OPTIONS, ...this.customOptions, ...customOptions };
+
+  const resolvedCid = await this.resolveCid(cid, opts);
+
+  const response = await this.executeRequest({
+    ...opts,
+    method: "get",
+    endpointPath: opts.endpointDownloadBlob,
+    extraPath: resolvedCid.toBase64Url(),
+    responseType: "arraybuffer",
+  });
+
+  const data = new Uint8Array(response.data);
+  const digest = await hashData(data);
+  if (!digest.every((byte, i) => byte === resolvedCid.digest[i])) {
+    throw new IntegrityError(
+      `Downloaded metadata does not match cid '${resolvedCid.toBase64Url()}'`,
+      resolvedCid.toBase64Url(),
+      CID.fromHash(digest, resolvedCid.type, resolvedCid.size).toBase64Url()
+    );
+  }
+
+  const metadata = decodeMetadata(data);
+  const signers = await verifyMetadata(data);
+  return { ...metadata, signers };
+}
+
+/**
+ * Downloads the content of the given raw cid and verifies it.
+ *
+ * @param client - The S5 client.
+ * @param cid - The raw cid of the content.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @returns - The verified content and its content type.
+ * @throws - Will throw if the cid is not a valid raw cid or could not be resolved to one.
+ * @throws - Will throw an `IntegrityError` if the content does not match the cid.
+ */
+async function downloadVerifiedContent(
+  client: S5Client,
+  cid: string,
+  customOptions?: CustomDownloadOptions
+): Promise<{ data: Uint8Array; contentType: string }> {
+  const opts = { ...DEFAULT_DOWNLOAD_OPTIONS, ...client.customOptions, ...customOptions };
+
+  if (EncryptedCID.isEncrypted(cid)) {
+    const encryptedCid = EncryptedCID.decode(cid);
+    const encrypted = await downloadVerifiedContent(client, encryptedCid.encryptedBlobCid.toBase64Url(), opts);
+    const data = await decryptContent(encryptedCid, encrypted.data);
+    await verifyContent(encryptedCid.originalCid, data);
+    return { data, contentType: "" };
+  }
+
+  const parsedCid = await client.resolveCid(cid, opts);
+  if (!parsedCid.isRaw) {
+    throwValidationError("cid", cid, "parameter", "a raw CID or a resolver CID pointing at one");
+  }
+
+  const response = await client.executeRequest({
+    ...opts,
+    method: "get",
+    endpointPath: opts.endpointDownload,
+    extraPath: parsedCid.toBase64Url(),
+    responseType: "arraybuffer",
+    // The subdomain option only applies to `getCidUrl`.
+    subdomain: undefined,
+  });
+
+  const data = new Uint8Array(response.data);
+  await verifyContent(parsedCid, data);
+
+  const contentType = (response.headers && response.headers["content-type"]) || "";
+  return { data, contentType };
+}
+
+/**
+ * Verifies that the given content matches the hash and size of a raw cid.
+ *
+ * @param cid - The raw cid.
+ * @param data - The downloaded content.
+ * @throws - Will throw an `IntegrityError` if the content was truncated or tampered with.
+ */
+export async function verifyContent(cid: CID, data: Uint8Array): Promise<void> {
+  if (data.length !== cid.size) {
+    throw new IntegrityError(
+      `Downloaded ${data.length} bytes for cid '${cid.toBase64Url()}', expected ${cid.size}`,
+      `${cid.size}`,
+      `${data.length}`
+    );
+  }
+
+  const actualCid = CID.fromHash(await hashData(data), cidTypeRaw, data.length);
+  if (!actualCid.equals(cid)) {
+    throw new IntegrityError(
+      `Downloaded content does not match cid '${cid.toBase64Url()}'`,
+      cid.toBase64Url(),
+      actualCid.toBase64Url()
+    );
+  }
+}
+
+/**
+ * Decrypts downloaded encrypted content and removes the padding.
+ *
+ * @param cid - The encrypted cid of the content.
+ * @param data - The encrypted blob.
+ * @returns - The unencrypted content.
+ * @throws - Will throw an `IntegrityError` if a chunk can't be authenticated.
+ */
+async function decryptContent(cid: EncryptedCID, data: Uint8Array): Promise<Uint8Array> {
+  const encryptedChunkSize = cid.chunkSize + ENCRYPTION_TAG_LENGTH;
+  const chunks: Uint8Array[] = [];
+  for (let offset = 0; offset < data.length; offset += encryptedChunkSize) {
+    const chunk = data.subarray(offset, offset + encryptedChunkSize);
+    chunks.push(await decryptChunk(chunk, cid.encryptionKey, offset / encryptedChunkSize));
+  }
+  return concatBytes(chunks).subarray(0, cid.originalCid.size);
+}
+
+/**
+ * Downloads encrypted content as a stream, decrypting and authenticating it
+ * chunk by chunk. Only the chunks covering the requested range are
+ * downloaded.
+ *
+ * @param client - The S5 client.
+ * @param cid - The encrypted cid of the content.
+ * @param opts - The download options.
+ * @returns - A web `ReadableStream` of the unencrypted content.
+ */
+async function downloadDecryptedStream(
+  client: S5Client,
+  cid: EncryptedCID,
+  opts: CustomDownloadOptions
+): Promise<ReadableStream<Uint8Array>> {
+  const size = cid.originalCid.size as number;
+  const { start, end } = parseRange(opts.range, size);
+
+  const chunkSize = cid.chunkSize;
+  const encryptedChunkSize = chunkSize + ENCRYPTION_TAG_LENGTH;
+  const firstChunk = Math.floor(start / chunkSize);
+  const lastChunk = Math.max(firstChunk + 1, Math.ceil(end / chunkSize));
+
+  const encrypted = await client.downloadStream(cid.encryptedBlobCid.toBase64Url(), {
+    ...opts,
+    range: `bytes=${firstChunk * encryptedChunkSize}-${lastChunk * encryptedChunkSize - 1}`,
+  });
+  const reader = encrypted.getReader();
+
+  // The encrypted blob is verified as a whole by `downloadStream`, the
+  // unencrypted content only if it is requested as a whole.
+  const hasher = start === 0 && end === size ? await createHasher() : undefined;
+  let buffer = new Uint8Array(0);
+  let index = firstChunk;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (buffer.length < encryptedChunkSize) {
+        const { value, done } = await reader.read();
+        if (done) {
+          break;
+        }
+        buffer = concatBytes([buffer, value]);
+      }
+      if (index >= lastChunk) {
+        if (hasher) {
+          verifyDigest(cid.originalCid, hasher.digest());
+        }
+        controller.close();
+        return;
+      }
+
+      const chunk = await decryptChunk(buffer.subarray(0, encryptedChunkSize), cid.encryptionKey, index);
+      buffer = buffer.subarray(encryptedChunkSize);
+
+      // Cut the chunk to the requested range, which also removes the padding.
+      const chunkStart = index * chunkSize;
+      const content = chunk.subarray(Math.max(start - chunkStart, 0), Math.max(end - chunkStart, 0));
+      index++;
+      if (hasher) {
+        hasher.update(content);
+      }
+      controller.enqueue(content);
+    },
+    async cancel(reason) {
+      await reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Compares the digest of downloaded content to a cid.
+ *
+ * @param cid - The raw cid of the content.
+ * @param digest - The BLAKE3 digest of the downloaded content.
+ * @throws - Will throw an `IntegrityError` if the digest does not match the cid.
+ */
+function verifyDigest(cid: CID, digest: Uint8Array): void {
+  const actualCid = CID.fromHash(digest, cidTypeRaw, cid.size);
+  if (!actualCid.equals(cid)) {
+    throw new IntegrityError(
+      `Downloaded content does not match cid '${cid.toBase64Url()}'`,
+      cid.toBase64Url(),
+      actualCid.toBase64Url()
+    );
+  }
+}
+
+/**
+ * Parses a `bytes=` Range header value into offsets.
+ *
+ * @param range - The range, e.g. `bytes=0-1023`, `bytes=1024-` or `bytes=-512`. The whole content if undefined.
+ * @param size - The size of the content.
+ * @returns - The start offset and the exclusive end offset.
+ * @throws - Will throw if the range is malformed or out of bounds.
+ */
+function parseRange(range: string | undefined, size: number): { start: number; end: number } {
+  if (!range) {
+    return { start: 0, end: size };
+  }
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(range.trim());
+  if (!match || (match[1] === "" && match[2] === "")) {
+    throw validationError("range", range, "option", "a single 'bytes=start-end' range");
+  }
+
+  let start: number;
+  let end: number;
+  if (match[1] === "") {
+    // Suffix range, e.g. the last 512 bytes.
+    start = Math.max(size - parseInt(match[2]), 0);
+    end = size;
+  } else {
+    start = parseInt(match[1]);
+    end = match[2] === "" ? size : Math.min(parseInt(match[2]) + 1, size);
+  }
+  if (start > end || start > size) {
+    throw validationError("range", range, "option", `within the content size of ${size} bytes`);
+  }
+  return { start, end };
+}
+
+/**
+ * Reads the chunks of a web stream. The stream is canceled if the reader
+ * stops early, e.g. because the Node stream it feeds was destroyed.
+ *
+ * @param stream - The web stream.
+ * @yields - The chunks of the stream.
+ */
+async function* readStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  let done = false;
+  try {
+    while (!done) {
+      const result = await reader.read();
+      done = result.done;
+      if (result.value) {
+        yield result.value;
+      }
+    }
+  } finally {
+    if (!done) {
+      await reader.cancel();
+    }
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Downloads a single range of the content of a cid, retrying on network
+ * errors and server errors.
+ *
+ * @param client - The S5 client.
+ * @param cid - The cid of the content.
+ * @param start - The start offset.
+ * @param end - The exclusive end offset.
+ * @param opts - The download options.
+ * @returns - The content of the range.
+ * @throws - Will throw if the range could not be downloaded after all retries.
+ */
+async function downloadRange(
+  client: S5Client,
+  cid: string,
+  start: number,
+  end: number,
+  opts: CustomDownloadOptions & { retryDelays: number[] }
+): Promise<Uint8Array> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await client.executeRequest({
+        ...opts,
+        method: "get",
+        endpointPath: opts.endpointDownload,
+        extraPath: cid,
+        headers: { Range: `bytes=${start}-${end - 1}` },
+        responseType: "arraybuffer",
+        // Progress is reported for the whole stream, not per range.
+        onDownloadProgress: undefined,
+        subdomain: undefined,
+        // Ranges are only retried by this loop.
+        retryPolicy: undefined,
+      });
+
+      let data = new Uint8Array(response.data);
+      // The portal may ignore the Range header and return the full content.
+      if (response.status === 200 && data.length > end - start) {
+        data = data.subarray(start, end);
+      }
+      if (data.length !== end - start) {
+        throw new IntegrityError(
+          `Downloaded ${data.length} bytes for range ${start}-${end - 1} of cid '${cid}', expected ${end - start}`,
+          `${end - start}`,
+          `${data.length}`
+        );
+      }
+      return data;
+    } catch (e) {
+      const retryable = e instanceof ExecuteRequestError && e.isRetryable;
+      if (!retryable || attempt >= opts.retryDelays.length) {
+        throw e;
+      }
+      await sleep(opts.retryDelays[attempt]);
+    }
+  }
+}
+
+/**
+ * Extracts the cid and the path following it from a cid string, an `s5://`
+ * URI or a portal URL in either path (`portal/cid/path`) or subdomain
+ * (`cid.portal/path`) format.
+ *
+ * @param input - The input string.
+ * @returns - The decoded cid, the cid as it appeared in the input and the path following it.
+ * @throws - Will throw if the input does not contain a valid cid.
+ */
+function parseCidInput(input: string): { cid: CID; cidString: string; path: string } {
+  if (typeof input !== "string") {
+    throwValidationError("cid", input, "parameter", "type 'string'");
+  }
+
+  let rest = input;
+  if (input.startsWith(URI_S5_PREFIX)) {
+    rest = trimPrefix(input, URI_S5_PREFIX);
+  } else if (/^https?:\/\//i.test(input)) {
+    const url = new URL(input);
+    const subdomain = url.hostname.split(".")[0];
+    if (url.hostname.includes(".") && CID.isValid(subdomain)) {
+      // Subdomain format, the cid is followed directly by the path.
+      return { cid: CID.decode(subdomain), cidString: subdomain, path: trimPrefix(url.pathname, "/") };
+    }
+    rest = trimPrefix(url.pathname, "/");
+  }
+
+  const [cidString, ...pathComponents] = rest.split("/");
+  return { cid: CID.decode(cidString), cidString, path: pathComponents.join("/") };
+}
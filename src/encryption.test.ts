@@ -0,0 +1,192 @@
+import { CID } from "./cid";
+import { cidTypeRaw, encryptionAlgorithmXChaCha20Poly1305 } from "./constants";
+import {
+  decryptChunk,
+  EncryptedCID,
+  encryptChunk,
+  encryptContent,
+  ENCRYPTION_TAG_LENGTH,
+  genEncryptionKey,
+  getEncryptionChunkSizePower,
+  getEncryptionPadding,
+  MAX_ENCRYPTION_CHUNK_SIZE_POWER,
+  readBlob,
+} from "./encryption";
+import { IntegrityError } from "./errors";
+import { concatBytes } from "./utils/file";
+import { hashData } from "./utils/hash";
+
+/**
+ * Encrypts content passed in pieces of the given size.
+ *
+ * @param content - The content.
+ * @param key - The key.
+ * @param chunkSizePower - The chunk size as a power of two.
+ * @param pieceSize - The size of the pieces to pass the content in.
+ * @returns - The encrypted chunks.
+ */
+async function encrypt(
+  content: Uint8Array,
+  key: Uint8Array,
+  chunkSizePower: number,
+  pieceSize: number
+): Promise<Uint8Array[]> {
+  const pieces = readBlob(new Blob([content]), pieceSize);
+  const chunks = [];
+  for await (const chunk of encryptContent(pieces, content.length, key, chunkSizePower)) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe("getEncryptionChunkSizePower", () => {
+  it.each([
+    [0, 12],
+    [4096, 12],
+    [4097, 13],
+    [100_000, 17],
+    [10_000_000, MAX_ENCRYPTION_CHUNK_SIZE_POWER],
+  ])("should use a chunk size power for %s bytes of %s", (size, power) => {
+    expect(getEncryptionChunkSizePower(size)).toEqual(power);
+  });
+});
+
+describe("getEncryptionPadding", () => {
+  it.each([
+    [0, 4096],
+    [1, 4095],
+    [4096, 0],
+    [4097, 4095],
+  ])("should pad %s bytes with %s bytes", (size, padding) => {
+    expect(getEncryptionPadding(size, 12)).toEqual(padding);
+  });
+});
+
+describe("encryptContent", () => {
+  it.each([
+    // Empty content, a partial chunk, a full chunk and a padded last chunk.
+    [0, 1000],
+    [1, 1000],
+    [4096, 1000],
+    [2 * 4096 + 100, 1000],
+    [3 * 4096 + 1, 5000],
+  ])("should round-trip %s bytes passed in pieces of %s bytes", async (size, pieceSize) => {
+    const content = new Uint8Array(size).map((_, i) => i % 251);
+    const key = await genEncryptionKey();
+    const chunkSizePower = 12;
+    const padding = getEncryptionPadding(size, chunkSizePower);
+
+    const chunks = await encrypt(content, key, chunkSizePower, pieceSize);
+
+    expect(chunks).toHaveLength((size + padding) / 4096);
+    const decrypted = [];
+    for (const [index, chunk] of chunks.entries()) {
+      expect(chunk).toHaveLength(4096 + ENCRYPTION_TAG_LENGTH);
+      decrypted.push(await decryptChunk(chunk, key, index));
+    }
+    const padded = concatBytes(decrypted);
+    expect(padded.subarray(0, size)).toEqual(content);
+    expect(padded.subarray(size).every((byte) => byte === 0)).toBe(true);
+  });
+
+  it("should reject content of another size", async () => {
+    const content = new Uint8Array(100);
+    const key = await genEncryptionKey();
+
+    await expect(encryptContent(readBlob(new Blob([content]), 10), 99, key, 12).next()).rejects.toThrow(
+      "larger than 99 bytes"
+    );
+    await expect(encryptContent(readBlob(new Blob([content]), 10), 101, key, 12).next()).rejects.toThrow(
+      "expected 101"
+    );
+  });
+});
+
+describe("decryptChunk", () => {
+  it("should reject chunks that were modified", async () => {
+    const key = await genEncryptionKey();
+    const chunk = await encryptChunk(new Uint8Array(4096), key, 0);
+    chunk[10] ^= 1;
+
+    await expect(decryptChunk(chunk, key, 0)).rejects.toThrow(IntegrityError);
+  });
+
+  it("should reject chunks at another index", async () => {
+    const key = await genEncryptionKey();
+    const chunk = await encryptChunk(new Uint8Array(4096), key, 0);
+
+    await expect(decryptChunk(chunk, key, 1)).rejects.toThrow(IntegrityError);
+  });
+
+  it("should reject chunks encrypted with another key", async () => {
+    const chunk = await encryptChunk(new Uint8Array(4096), await genEncryptionKey(), 0);
+
+    await expect(decryptChunk(chunk, await genEncryptionKey(), 0)).rejects.toThrow(IntegrityError);
+  });
+});
+
+describe("EncryptedCID", () => {
+  it("should round-trip encrypted CIDs", async () => {
+    const content = new Uint8Array(5000).map((_, i) => i % 251);
+    const originalCid = CID.fromHash(await hashData(content), cidTypeRaw, content.length);
+    const blobHash = CID.fromHash(new Uint8Array(32).fill(3), cidTypeRaw, 0).hash;
+    const cid = new EncryptedCID(
+      encryptionAlgorithmXChaCha20Poly1305,
+      12,
+      blobHash,
+      await genEncryptionKey(),
+      getEncryptionPadding(content.length, 12),
+      originalCid
+    );
+
+    const decoded = EncryptedCID.decode(cid.toString());
+
+    expect(EncryptedCID.isEncrypted(cid.toString())).toBe(true);
+    expect(EncryptedCID.isEncrypted(originalCid.toString())).toBe(false);
+    expect(decoded.toBytes()).toEqual(cid.toBytes());
+    expect(decoded.originalCid.equals(originalCid)).toBe(true);
+    expect(decoded.encryptedBlobCid.size).toEqual(2 * (4096 + ENCRYPTION_TAG_LENGTH));
+  });
+
+  it("should reject padding that does not fill the last chunk", async () => {
+    const originalCid = CID.fromHash(new Uint8Array(32), cidTypeRaw, 5000);
+    const blobHash = CID.fromHash(new Uint8Array(32), cidTypeRaw, 0).hash;
+    const key = await genEncryptionKey();
+
+    expect(() => new EncryptedCID(encryptionAlgorithmXChaCha20Poly1305, 12, blobHash, key, 100, originalCid)).toThrow();
+  });
+
+  it.each([
+    ["an unknown algorithm", { encryptionAlgorithm: 0xff }, "encryptionAlgorithm"],
+    ["a chunk size power below 12", { chunkSizePower: 11 }, "chunkSizePower"],
+    ["a chunk size power above 30", { chunkSizePower: 31 }, "chunkSizePower"],
+    ["a short blob hash", { encryptedBlobHash: new Uint8Array(32) }, "encryptedBlobHash.length"],
+    ["a short key", { encryptionKey: new Uint8Array(16) }, "encryptionKey.length"],
+    ["an original cid that is not raw", { originalCid: CID.fromHash(new Uint8Array(32), 0xc5) }, "originalCid"],
+  ])("should reject %s", async (_name, fields, message) => {
+    const valid = {
+      encryptionAlgorithm: encryptionAlgorithmXChaCha20Poly1305,
+      chunkSizePower: 12,
+      encryptedBlobHash: CID.fromHash(new Uint8Array(32), cidTypeRaw, 0).hash,
+      encryptionKey: await genEncryptionKey(),
+      originalCid: CID.fromHash(new Uint8Array(32), cidTypeRaw, 4096),
+    };
+    const { encryptionAlgorithm, chunkSizePower, encryptedBlobHash, encryptionKey, originalCid } = {
+      ...valid,
+      ...fields,
+    };
+
+    expect(
+      () => new EncryptedCID(encryptionAlgorithm, chunkSizePower, encryptedBlobHash, encryptionKey, 0, originalCid)
+    ).toThrow(message);
+  });
+
+  it("should reject strings and bytes that are not encrypted CIDs", () => {
+    const rawCid = CID.fromHash(new Uint8Array(32), cidTypeRaw, 4096);
+
+    expect(() => EncryptedCID.decode("u")).toThrow("a multibase-encoded encrypted S5 CID");
+    expect(() => EncryptedCID.decode(rawCid.toBase64Url())).toThrow("bytes[0]");
+    expect(() => EncryptedCID.fromBytes(new Uint8Array([0xae, 0xa6, 12]))).toThrow("bytes.length");
+    expect(EncryptedCID.isEncrypted("!invalid")).toBe(false);
+  });
+});
@@ -0,0 +1,343 @@
+import sodium from "libsodium-wrappers";
+
+import { CID, CIDEncoding, decodeMultibase, encodeMultibase, MULTIHASH_LENGTH } from "./cid";
+import { cidTypeEncryptedStatic, cidTypeRaw, encryptionAlgorithmXChaCha20Poly1305 } from "./constants";
+import { IntegrityError } from "./errors";
+import { decodeNumber, encodeEndian } from "./utils/encoding";
+import { concatBytes } from "./utils/file";
+import { throwValidationError } from "./utils/validation";
+
+/**
+ * The length of an XChaCha20-Poly1305 key in bytes.
+ */
+export const ENCRYPTION_KEY_LENGTH = 32;
+
+/**
+ * The length of the authentication tag appended to every encrypted chunk.
+ */
+export const ENCRYPTION_TAG_LENGTH = 16;
+
+/**
+ * The length of an XChaCha20-Poly1305 nonce in bytes.
+ */
+const NONCE_LENGTH = 24;
+
+/**
+ * The largest chunk size, as a power of two (256 KiB). Smaller files use
+ * smaller chunks.
+ */
+export const MAX_ENCRYPTION_CHUNK_SIZE_POWER = 18;
+
+/**
+ * The smallest chunk size, as a power of two (4 KiB).
+ */
+const MIN_ENCRYPTION_CHUNK_SIZE_POWER = 12;
+
+/**
+ * The length of the fixed-size fields of an encrypted CID: type, algorithm,
+ * chunk size, blob hash, key and padding.
+ */
+const ENCRYPTED_CID_HEADER_LENGTH = 3 + MULTIHASH_LENGTH + ENCRYPTION_KEY_LENGTH + 4;
+
+/**
+ * An S5 CID of encrypted content. It contains everything needed to download
+ * and decrypt the content, including the key, so it must be kept secret.
+ *
+ * The content is padded with zero bytes to a multiple of the chunk size and
+ * every chunk is encrypted with XChaCha20-Poly1305, using its index as the
+ * nonce. The encrypted blob is stored as raw content.
+ */
+export class EncryptedCID {
+  /**
+   * Creates an `EncryptedCID`.
+   *
+   * @param encryptionAlgorithm - The encryption algorithm, e.g. `encryptionAlgorithmXChaCha20Poly1305`.
+   * @param chunkSizePower - The chunk size as a power of two.
+   * @param encryptedBlobHash - The multihash of the encrypted blob.
+   * @param encryptionKey - The 32-byte key.
+   * @param padding - The number of zero bytes appended to the content before encrypting it.
+   * @param originalCid - The raw CID of the unencrypted content.
+   * @throws - Will throw if any of the fields is not valid.
+   */
+  constructor(
+    public readonly encryptionAlgorithm: number,
+    public readonly chunkSizePower: number,
+    public readonly encryptedBlobHash: Uint8Array,
+    public readonly encryptionKey: Uint8Array,
+    public readonly padding: number,
+    public readonly originalCid: CID
+  ) {
+    if (encryptionAlgorithm !== encryptionAlgorithmXChaCha20Poly1305) {
+      throwValidationError("encryptionAlgorithm", encryptionAlgorithm, "parameter", "a supported encryption algorithm");
+    }
+    if (chunkSizePower < MIN_ENCRYPTION_CHUNK_SIZE_POWER || chunkSizePower > 30) {
+      throwValidationError("chunkSizePower", chunkSizePower, "parameter", "a power of two between 12 and 30");
+    }
+    if (encryptedBlobHash.length !== MULTIHASH_LENGTH) {
+      throwValidationError("encryptedBlobHash.length", encryptedBlobHash.length, "parameter", `${MULTIHASH_LENGTH}`);
+    }
+    if (encryptionKey.length !== ENCRYPTION_KEY_LENGTH) {
+      throwValidationError("encryptionKey.length", encryptionKey.length, "parameter", `${ENCRYPTION_KEY_LENGTH}`);
+    }
+    if (!originalCid.isRaw) {
+      throwValidationError("originalCid", originalCid.toBase64Url(), "parameter", "a raw CID");
+    }
+    if (padding < 0 || ((originalCid.size as number) + padding) % this.chunkSize !== 0) {
+      throwValidationError("padding", padding, "parameter", "the padding to a multiple of the chunk size");
+    }
+  }
+
+  /**
+   * Decodes an encrypted CID from its binary representation.
+   *
+   * @param bytes - The encrypted CID bytes.
+   * @returns - The encrypted CID.
+   * @throws - Will throw if the bytes do not contain a valid encrypted CID.
+   */
+  static fromBytes(bytes: Uint8Array): EncryptedCID {
+    if (bytes[0] !== cidTypeEncryptedStatic) {
+      throwValidationError("bytes[0]", bytes[0], "parameter", `${cidTypeEncryptedStatic}`);
+    }
+    if (bytes.length <= ENCRYPTED_CID_HEADER_LENGTH) {
+      throwValidationError("bytes.length", bytes.length, "parameter", `more than ${ENCRYPTED_CID_HEADER_LENGTH}`);
+    }
+
+    let offset = 3;
+    const encryptedBlobHash = bytes.slice(offset, offset + MULTIHASH_LENGTH);
+    offset += MULTIHASH_LENGTH;
+    const encryptionKey = bytes.slice(offset, offset + ENCRYPTION_KEY_LENGTH);
+    offset += ENCRYPTION_KEY_LENGTH;
+    const padding = decodeNumber(bytes.subarray(offset, offset + 4));
+    offset += 4;
+    const originalCid = CID.fromBytes(bytes.subarray(offset));
+
+    return new EncryptedCID(bytes[1], bytes[2], encryptedBlobHash, encryptionKey, padding, originalCid);
+  }
+
+  /**
+   * Decodes an encrypted CID from a multibase string.
+   *
+   * @param cid - The encrypted CID string.
+   * @returns - The encrypted CID.
+   * @throws - Will throw if the string is not a valid encrypted CID.
+   */
+  static decode(cid: string): EncryptedCID {
+    if (typeof cid !== "string" || cid.length < 2) {
+      throwValidationError("cid", cid, "parameter", "a multibase-encoded encrypted S5 CID");
+    }
+    return EncryptedCID.fromBytes(decodeMultibase(cid, "encrypted CID"));
+  }
+
+  /**
+   * Checks whether the given string is an encrypted CID. It does not check
+   * whether the rest of the CID is valid.
+   *
+   * @param cid - The CID string.
+   * @returns - Whether the CID has the encrypted CID type.
+   */
+  static isEncrypted(cid: string): boolean {
+    try {
+      return decodeMultibase(cid, "CID")[0] === cidTypeEncryptedStatic;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * The size of the unencrypted chunks in bytes.
+   *
+   * @returns - The chunk size.
+   */
+  get chunkSize(): number {
+    return 2 ** this.chunkSizePower;
+  }
+
+  /**
+   * The raw CID of the encrypted blob.
+   *
+   * @returns - The CID.
+   */
+  get encryptedBlobCid(): CID {
+    const chunks = ((this.originalCid.size as number) + this.padding) / this.chunkSize;
+    return new CID(cidTypeRaw, this.encryptedBlobHash, chunks * (this.chunkSize + ENCRYPTION_TAG_LENGTH));
+  }
+
+  /**
+   * Returns the binary representation of the encrypted CID.
+   *
+   * @returns - The encrypted CID bytes.
+   */
+  toBytes(): Uint8Array {
+    return concatBytes([
+      new Uint8Array([cidTypeEncryptedStatic, this.encryptionAlgorithm, this.chunkSizePower]),
+      this.encryptedBlobHash,
+      this.encryptionKey,
+      encodeEndian(this.padding, 4),
+      this.originalCid.toBytes(),
+    ]);
+  }
+
+  /**
+   * Encodes the encrypted CID as a multibase string.
+   *
+   * @param [encoding="base64url"] - The encoding to use.
+   * @returns - The encoded CID, including the multibase prefix.
+   */
+  encode(encoding: CIDEncoding = "base64url"): string {
+    return encodeMultibase(this.toBytes(), encoding);
+  }
+
+  /**
+   * Encodes the encrypted CID as a base64url string.
+   *
+   * @returns - The encoded CID.
+   */
+  toBase64Url(): string {
+    return this.encode("base64url");
+  }
+
+  /**
+   * Returns the default (base64url) encoding of the encrypted CID.
+   *
+   * @returns - The encoded CID.
+   */
+  toString(): string {
+    return this.toBase64Url();
+  }
+}
+
+/**
+ * Generates a random encryption key.
+ *
+ * @returns - The 32-byte key.
+ */
+export async function genEncryptionKey(): Promise<Uint8Array> {
+  await sodium.ready;
+  return sodium.randombytes_buf(ENCRYPTION_KEY_LENGTH);
+}
+
+/**
+ * Chooses the chunk size for content of the given size: the smallest power
+ * of two that fits the content, but at least 4 KiB and at most 256 KiB.
+ *
+ * @param size - The size of the content in bytes.
+ * @returns - The chunk size as a power of two.
+ */
+export function getEncryptionChunkSizePower(size: number): number {
+  const power = Math.ceil(Math.log2(Math.max(size, 1)));
+  return Math.min(MAX_ENCRYPTION_CHUNK_SIZE_POWER, Math.max(MIN_ENCRYPTION_CHUNK_SIZE_POWER, power));
+}
+
+/**
+ * Returns the number of zero bytes appended to content of the given size.
+ * Empty content is padded to a single chunk.
+ *
+ * @param size - The size of the content in bytes.
+ * @param chunkSizePower - The chunk size as a power of two.
+ * @returns - The padding in bytes.
+ */
+export function getEncryptionPadding(size: number, chunkSizePower: number): number {
+  const chunkSize = 2 ** chunkSizePower;
+  return Math.max(1, Math.ceil(size / chunkSize)) * chunkSize - size;
+}
+
+/**
+ * Encrypts a single chunk.
+ *
+ * @param chunk - The unencrypted chunk.
+ * @param key - The 32-byte key.
+ * @param index - The index of the chunk in the content.
+ * @returns - The encrypted chunk, followed by the authentication tag.
+ */
+export async function encryptChunk(chunk: Uint8Array, key: Uint8Array, index: number): Promise<Uint8Array> {
+  await sodium.ready;
+  return sodium.crypto_aead_xchacha20poly1305_ietf_encrypt(chunk, null, null, encodeEndian(index, NONCE_LENGTH), key);
+}
+
+/**
+ * Decrypts and authenticates a single chunk.
+ *
+ * @param chunk - The encrypted chunk, followed by the authentication tag.
+ * @param key - The 32-byte key.
+ * @param index - The index of the chunk in the content.
+ * @returns - The unencrypted chunk.
+ * @throws - Will throw an `IntegrityError` if the chunk was modified or the key is wrong.
+ */
+export async function decryptChunk(chunk: Uint8Array, key: Uint8Array, index: number): Promise<Uint8Array> {
+  await sodium.ready;
+  try {
+    return sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(null, chunk, null, encodeEndian(index, NONCE_LENGTH), key);
+  } catch {
+    throw new IntegrityError(`Could not decrypt chunk ${index}`, "authenticated chunk", "invalid chunk");
+  }
+}
+
+/**
+ * Encrypts content, splitting it into chunks and padding the last one.
+ *
+ * @param content - The unencrypted content, in pieces of any size.
+ * @param size - The size of the content in bytes.
+ * @param key - The 32-byte key.
+ * @param chunkSizePower - The chunk size as a power of two.
+ * @param [onContent] - Called with every piece of the unencrypted content, e.g. to hash it.
+ * @yields - The encrypted chunks.
+ * @throws - Will throw if the content does not have the given size.
+ */
+export async function* encryptContent(
+  content: AsyncIterable<Uint8Array>,
+  size: number,
+  key: Uint8Array,
+  chunkSizePower: number,
+  onContent?: (piece: Uint8Array) => void
+): AsyncGenerator<Uint8Array> {
+  const chunkSize = 2 ** chunkSizePower;
+  let pieces: Uint8Array[] = [];
+  let buffered = 0;
+  let read = 0;
+  let index = 0;
+
+  for await (const piece of content) {
+    if (onContent) {
+      onContent(piece);
+    }
+    pieces.push(piece);
+    buffered += piece.length;
+    read += piece.length;
+    if (read > size) {
+      throw new Error(`Content is larger than ${size} bytes`);
+    }
+
+    if (buffered >= chunkSize) {
+      let bytes = concatBytes(pieces);
+      while (bytes.length >= chunkSize) {
+        yield await encryptChunk(bytes.subarray(0, chunkSize), key, index++);
+        bytes = bytes.subarray(chunkSize);
+      }
+      pieces = [bytes];
+      buffered = bytes.length;
+    }
+  }
+  if (read !== size) {
+    throw new Error(`Content has ${read} bytes, expected ${size}`);
+  }
+
+  // Pad the last chunk with zeros. Empty content still gets one chunk.
+  if (buffered > 0 || index === 0) {
+    const last = new Uint8Array(chunkSize);
+    last.set(concatBytes(pieces));
+    yield await encryptChunk(last, key, index);
+  }
+}
+
+/**
+ * Reads a blob in pieces.
+ *
+ * @param blob - The blob.
+ * @param pieceSize - The size of the pieces.
+ * @yields - The pieces.
+ */
+export async function* readBlob(blob: Blob, pieceSize: number): AsyncGenerator<Uint8Array> {
+  for (let position = 0; position < blob.size; position += pieceSize) {
+    yield new Uint8Array(await blob.slice(position, position + pieceSize).arrayBuffer());
+  }
+}
@@ -0,0 +1,122 @@
+import type { AxiosError } from "axios";
+
+import {
+  AuthError,
+  ExecuteRequestError,
+  isRetryableStatus,
+  NetworkError,
+  NotFoundError,
+  parseRetryAfter,
+  RateLimitError,
+  S5Error,
+} from "./errors";
+
+/**
+ * Creates an axios error as it is thrown for failed requests.
+ *
+ * @param status - The response status, or null if there was no response.
+ * @param [headers] - The response headers.
+ * @returns - The axios error.
+ */
+function createAxiosError(status: number | null, headers: Record<string, string> = {}): AxiosError {
+  const error = {
+    isAxiosError: true,
+    message: "Request failed",
+    config: { url: "https://s5.example/s5/blob", method: "get" },
+    request: {},
+    response: status === null ? undefined : { status, data: { message: "portal message" }, headers },
+  };
+  return error as unknown as AxiosError;
+}
+
+describe("ExecuteRequestError.From", () => {
+  it.each([
+    [401, AuthError, false],
+    [403, AuthError, false],
+    [404, NotFoundError, false],
+    [408, ExecuteRequestError, true],
+    [429, RateLimitError, true],
+    [400, ExecuteRequestError, false],
+    [500, ExecuteRequestError, true],
+    [503, ExecuteRequestError, true],
+  ])("should classify status %s", (status, errorClass, retryable) => {
+    const error = ExecuteRequestError.From(createAxiosError(status));
+
+    expect(error).toBeInstanceOf(errorClass);
+    expect(error).toBeInstanceOf(S5Error);
+    expect(error.isRetryable).toBe(retryable);
+    expect(error.responseStatus).toEqual(status);
+    expect(error.responseMessage).toEqual("portal message");
+    expect(error.message).toEqual(`Request failed with status code ${status}: portal message`);
+    expect(error.url).toEqual("https://s5.example/s5/blob");
+    expect(error.method).toEqual("GET");
+  });
+
+  it("should classify requests without a response as network errors", () => {
+    const error = ExecuteRequestError.From(createAxiosError(null));
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.isRetryable).toBe(true);
+  });
+
+  it("should not retry canceled requests", () => {
+    const axiosError = createAxiosError(null);
+    axiosError.code = "ERR_CANCELED";
+    const error = ExecuteRequestError.From(axiosError);
+
+    expect(error).not.toBeInstanceOf(NetworkError);
+    expect(error.message).toEqual("Request was canceled");
+    expect(error.isRetryable).toBe(false);
+  });
+
+  it("should not wrap errors that were already converted", () => {
+    const error = ExecuteRequestError.From(createAxiosError(500));
+
+    expect(() => new ExecuteRequestError("message", error, 500, null)).toThrow(
+      "Could not instantiate an `ExecuteRequestError` from an `ExecuteRequestError`"
+    );
+  });
+
+  it("should read the Retry-After header", () => {
+    const error = ExecuteRequestError.From(createAxiosError(429, { "retry-after": "3" }));
+
+    expect(error.retryAfter).toEqual(3000);
+  });
+});
+
+describe("isRetryableStatus", () => {
+  it.each([
+    [null, true],
+    [400, false],
+    [404, false],
+    [408, true],
+    [429, true],
+    [500, true],
+    [504, true],
+  ])("should classify status %s as retryable: %s", (status, retryable) => {
+    expect(isRetryableStatus(status)).toBe(retryable);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("should parse seconds", () => {
+    expect(parseRetryAfter("120")).toEqual(120_000);
+    expect(parseRetryAfter("0")).toEqual(0);
+  });
+
+  it("should parse dates", () => {
+    jest.useFakeTimers({ now: new Date("2024-01-01T00:00:00Z") });
+    try {
+      expect(parseRetryAfter("Mon, 01 Jan 2024 00:00:30 GMT")).toEqual(30_000);
+      expect(parseRetryAfter("Sun, 31 Dec 2023 23:00:00 GMT")).toEqual(0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("should ignore missing and invalid values", () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter("")).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
@@ -0,0 +1,389 @@
+import type { AxiosError, AxiosRequestConfig, AxiosResponse } from "axios";
+
+/**
+ * Where an error occurred.
+ *
+ * @property [url] - The URL of the failed request.
+ * @property [method] - The HTTP method of the failed request.
+ * @property [portalUrl] - The portal the request was sent to.
+ */
+export type ErrorContext = {
+  url?: string;
+  method?: string;
+  portalUrl?: string;
+};
+
+/**
+ * The base class of all errors thrown by the SDK for failed requests,
+ * uploads and integrity checks.
+ */
+export class S5Error extends Error {
+  isRetryable: boolean;
+  url?: string;
+  method?: string;
+  portalUrl?: string;
+
+  /**
+   * Creates an `S5Error`.
+   *
+   * @param message - The error message.
+   * @param isRetryable - Whether the operation may succeed if it is retried.
+   * @param [context] - Where the error occurred.
+   */
+  constructor(message: string, isRetryable: boolean, context: ErrorContext = {}) {
+    super(message);
+    this.name = "S5Error";
+
+    this.isRetryable = isRetryable;
+    this.url = context.url;
+    this.method = context.method;
+    this.portalUrl = context.portalUrl;
+
+    // Required for `instanceof` to work.
+    Object.setPrototypeOf(this, S5Error.prototype);
+  }
+}
+
+/**
+ * The error type returned by the SDK whenever it makes a network request
+ * (internally, this happens in `executeRequest`). It implements, so is
+ * compatible with, `AxiosError`. Requests that failed for a common reason
+ * throw one of its subclasses.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export class ExecuteRequestError<T = any, D = any> extends S5Error implements AxiosError {
+  originalError: AxiosError;
+  responseStatus: number | null;
+  responseMessage: string | null;
+  // How long to wait before retrying, in ms, if the portal sent a `Retry-After` header.
+  retryAfter?: number;
+
+  // Properties required by `AxiosError`.
+  config: AxiosRequestConfig<D>;
+  code?: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  request?: any;
+  response?: AxiosResponse<T, D>;
+  isAxiosError: boolean;
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  toJSON: () => object;
+
+  /**
+   * Creates an `ExecuteRequestError`.
+   *
+   * @param message - The error message.
+   * @param axiosError - The original Axios error.
+   * @param responseStatus - The response status, if found in the original error.
+   * @param responseMessage - The response message, if found in the original error.
+   */
+  constructor(
+    message: string,
+    axiosError: AxiosError<T, D>,
+    responseStatus: number | null,
+    responseMessage: string | null
+  ) {
+    // Include this check since `ExecuteRequestError` implements `AxiosError`,
+    // but we only expect original errors from Axios here. Anything else
+    // indicates a likely developer/logic bug.
+    if (axiosError instanceof ExecuteRequestError) {
+      throw new Error(
+        "Could not instantiate an `ExecuteRequestError` from an `ExecuteRequestError`, an original error from axios was expected"
+      );
+    }
+
+    // Set `Error` fields.
+    super(message, isRetryableStatus(responseStatus), {
+      url: axiosError.config && axiosError.config.url,
+      method: axiosError.config && axiosError.config.method && axiosError.config.method.toUpperCase(),
+    });
+    this.name = "ExecuteRequestError";
+
+    // Set `ExecuteRequestError` fields.
+    this.originalError = axiosError;
+    this.responseStatus = responseStatus;
+    this.responseMessage = responseMessage;
+    if (axiosError.response && axiosError.response.headers) {
+      this.retryAfter = parseRetryAfter(axiosError.response.headers["retry-after"]);
+    }
+
+    // Set properties required by `AxiosError`.
+    //
+    // NOTE: `Object.assign` doesn't work because Typescript can't detect that
+    // required fields are set in this constructor.
+    this.config = axiosError.config;
+    this.code = axiosError.code;
+    this.request = axiosError.request;
+    this.response = axiosError.response;
+    this.isAxiosError = axiosError.isAxiosError;
+    this.toJSON = axiosError.toJSON;
+
+    // Required for `instanceof` to work.
+    Object.setPrototypeOf(this, ExecuteRequestError.prototype);
+  }
+
+  /**
+   * Gets the full, descriptive error response returned from the portal, as
+   * the error class matching the failure.
+   *
+   * @param err - The Axios error.
+   * @returns - A new error if the error response is malformed, or the portal error message otherwise.
+   */
+  static From(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    err: AxiosError<any, any>
+  ): ExecuteRequestError {
+    /* istanbul ignore next */
+    if (!err.response) {
+      // The request was sent but no response arrived.
+      if (err.request && err.code !== "ERR_CANCELED") {
+        return new NetworkError(`Request failed without a response: ${err.message}`, err, null, null);
+      }
+      const message =
+        err.code === "ERR_CANCELED"
+          ? "Request was canceled"
+          : `Error response did not contain expected field 'response'.`;
+      const error = new ExecuteRequestError(message, err, null, null);
+      // The request was canceled or could not be created.
+      error.isRetryable = false;
+      return error;
+    }
+    /* istanbul ignore next */
+    if (!err.response.status) {
+      return new ExecuteRequestError(
+        `Error response did not contain expected field 'response.status'.`,
+        err,
+        null,
+        null
+      );
+    }
+
+    const status = err.response.status;
+    const responseMessage = (err.response.data && err.response.data.message) || null;
+
+    // If we don't get an error message from the portal, just return the status code.
+    const message = responseMessage
+      ? `Request failed with status code ${status}: ${responseMessage}`
+      : `Request failed with status code ${status}`;
+
+    // Pass along the original Axios error.
+    switch (status) {
+      case 401:
+      case 403:
+        return new AuthError(message, err, status, responseMessage);
+      case 404:
+        return new NotFoundError(message, err, status, responseMessage);
+      case 429:
+        return new RateLimitError(message, err, status, responseMessage);
+      default:
+        return new ExecuteRequestError(message, err, status, responseMessage);
+    }
+  }
+}
+
+/**
+ * The error thrown when a request got no response, e.g. because the portal
+ * is unreachable or the connection was interrupted. Always retryable.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export class NetworkError<T = any, D = any> extends ExecuteRequestError<T, D> {
+  /**
+   * Creates a `NetworkError`.
+   *
+   * @param message - The error message.
+   * @param axiosError - The original Axios error.
+   * @param responseStatus - Always null.
+   * @param responseMessage - Always null.
+   */
+  constructor(message: string, axiosError: AxiosError<T, D>, responseStatus: null, responseMessage: null) {
+    super(message, axiosError, responseStatus, responseMessage);
+    this.name = "NetworkError";
+
+    // Required for `instanceof` to work.
+    Object.setPrototypeOf(this, NetworkError.prototype);
+  }
+}
+
+/**
+ * The error thrown when the portal rejected a request as unauthenticated
+ * (401) or forbidden (403).
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export class AuthError<T = any, D = any> extends ExecuteRequestError<T, D> {
+  /**
+   * Creates an `AuthError`.
+   *
+   * @param message - The error message.
+   * @param axiosError - The original Axios error.
+   * @param responseStatus - The response status.
+   * @param responseMessage - The response message, if any.
+   */
+  constructor(message: string, axiosError: AxiosError<T, D>, responseStatus: number, responseMessage: string | null) {
+    super(message, axiosError, responseStatus, responseMessage);
+    this.name = "AuthError";
+
+    // Required for `instanceof` to work.
+    Object.setPrototypeOf(this, AuthError.prototype);
+  }
+}
+
+/**
+ * The error thrown when the requested content or entry does not exist on
+ * the portal (404).
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export class NotFoundError<T = any, D = any> extends ExecuteRequestError<T, D> {
+  /**
+   * Creates a `NotFoundError`.
+   *
+   * @param message - The error message.
+   * @param axiosError - The original Axios error.
+   * @param responseStatus - The response status.
+   * @param responseMessage - The response message, if any.
+   */
+  constructor(message: string, axiosError: AxiosError<T, D>, responseStatus: number, responseMessage: string | null) {
+    super(message, axiosError, responseStatus, responseMessage);
+    this.name = "NotFoundError";
+
+    // Required for `instanceof` to work.
+    Object.setPrototypeOf(this, NotFoundError.prototype);
+  }
+}
+
+/**
+ * The error thrown when the portal rate limited a request (429). Retry
+ * after `retryAfter` ms if the portal sent it.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export class RateLimitError<T = any, D = any> extends ExecuteRequestError<T, D> {
+  /**
+   * Creates a `RateLimitError`.
+   *
+   * @param message - The error message.
+   * @param axiosError - The original Axios error.
+   * @param responseStatus - The response status.
+   * @param responseMessage - The response message, if any.
+   */
+  constructor(message: string, axiosError: AxiosError<T, D>, responseStatus: number, responseMessage: string | null) {
+    super(message, axiosError, responseStatus, responseMessage);
+    this.name = "RateLimitError";
+
+    // Required for `instanceof` to work.
+    Object.setPrototypeOf(this, RateLimitError.prototype);
+  }
+}
+
+/**
+ * The error thrown when content returned by, or stored on, a portal does not
+ * match what was computed locally.
+ */
+export class IntegrityError extends S5Error {
+  expected: string;
+  actual: string;
+
+  /**
+   * Creates an `IntegrityError`.
+   *
+   * @param message - The error message.
+   * @param expected - The locally computed value, e.g. a CID.
+   * @param actual - The value returned by the portal.
+   * @param [context] - Where the error occurred.
+   */
+  constructor(message: string, expected: string, actual: string, context?: ErrorContext) {
+    super(message, false, context);
+    this.name = "IntegrityError";
+
+    this.expected = expected;
+    this.actual = actual;
+
+    // Required for `instanceof` to work.
+    Object.setPrototypeOf(this, IntegrityError.prototype);
+  }
+}
+
+/**
+ * The error thrown when the initial portal URL of a client could not be
+ * resolved to the portal API or server URL.
+ */
+export class PortalResolutionError extends S5Error {
+  /**
+   * Creates a `PortalResolutionError`.
+   *
+   * @param message - The error message.
+   * @param isRetryable - Whether resolving the portal again may succeed.
+   * @param portalUrl - The portal URL that was resolved.
+   */
+  constructor(message: string, isRetryable: boolean, portalUrl: string) {
+    super(message, isRetryable, { url: portalUrl, method: "HEAD", portalUrl });
+    this.name = "PortalResolutionError";
+
+    // Required for `instanceof` to work.
+    Object.setPrototypeOf(this, PortalResolutionError.prototype);
+  }
+}
+
+/**
+ * The error thrown when a large file upload with the tus protocol failed
+ * after all retries.
+ */
+export class UploadError extends S5Error {
+  responseStatus: number | null;
+  responseMessage: string | null;
+  originalError: Error;
+
+  /**
+   * Creates an `UploadError`.
+   *
+   * @param message - The error message.
+   * @param originalError - The original tus error.
+   * @param responseStatus - The status of the last response, if the portal responded.
+   * @param responseMessage - The body of the last response, if any.
+   * @param [context] - Where the error occurred.
+   */
+  constructor(
+    message: string,
+    originalError: Error,
+    responseStatus: number | null,
+    responseMessage: string | null,
+    context?: ErrorContext
+  ) {
+    super(message, isRetryableStatus(responseStatus), context);
+    this.name = "UploadError";
+
+    this.originalError = originalError;
+    this.responseStatus = responseStatus;
+    this.responseMessage = responseMessage;
+
+    // Required for `instanceof` to work.
+    Object.setPrototypeOf(this, UploadError.prototype);
+  }
+}
+
+/**
+ * Checks whether a request that failed with the given status may succeed
+ * if it is retried: without a response, on timeouts, rate limits and portal
+ * errors.
+ *
+ * @param status - The response status, or null if there was no response.
+ * @returns - Whether the request is retryable.
+ */
+export function isRetryableStatus(status: number | null): boolean {
+  return status === null || status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Parses a `Retry-After` header, which holds either seconds or a date.
+ *
+ * @param value - The header value.
+ * @returns - The time to wait in ms, or undefined if the header is missing or invalid.
+ */
+export function parseRetryAfter(value?: string): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
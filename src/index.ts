@@ -3,3 +3,44 @@
 // Main exports.
 
 export { S5Client } from "./client";
+export type { ClientMiddleware, PortalUrlChangeListener, ResolvedPortalUrls } from "./client";
+export { CID } from "./cid";
+export type { CIDEncoding } from "./cid";
+export { EncryptedCID } from "./encryption";
+export {
+  AuthError,
+  ExecuteRequestError,
+  IntegrityError,
+  NetworkError,
+  NotFoundError,
+  PortalResolutionError,
+  RateLimitError,
+  S5Error,
+  UploadError,
+} from "./errors";
+export type { ErrorContext } from "./errors";
+export { genKeyPair, genKeyPairFromSeed, genSeed } from "./crypto";
+export type { KeyPair } from "./crypto";
+export { signRegistryEntry, verifyRegistryEntry } from "./registry";
+export type { RegistryEntry } from "./registry";
+export { createResolverCid } from "./resolver";
+export { decodeMetadata, encodeMetadata, MediaMetadataBuilder, signMetadata, verifyMetadata } from "./metadata";
+export type {
+  DirectoryMetadata,
+  FileReference,
+  MediaFormat,
+  MediaMetadata,
+  Metadata,
+  MetadataExtensions,
+  VerifiedMetadata,
+  WebAppMetadata,
+} from "./metadata";
+export { FileUploadStore, LocalStorageUploadStore, MemoryUploadStore } from "./store";
+export type { UploadStore } from "./store";
+export type { PortalSelection, PortalState } from "./portals";
+export type { RetryPolicy } from "./retry";
+export { UploadController } from "./controller";
+export { AxiosTransport, FetchTransport } from "./transport";
+export type { FetchTransportOptions, Transport } from "./transport";
+export type { ReadableInput, UploadInput } from "./utils/file";
+export type { AccountInfo, CustomAccountOptions, CustomLoginOptions, CustomRegisterOptions } from "./account";
@@ -0,0 +1,324 @@
+import { Packr } from "msgpackr";
+
+import { CID } from "./cid";
+import {
+  cidTypeMetadataWebApp,
+  cidTypeRaw,
+  metadataExtensionLicenses,
+  metadataExtensionPreviousVersions,
+  metadataExtensionTimestamp,
+  metadataMagicByte,
+  metadataMediaDetailsDuration,
+  metadataProofTypeTimestamp,
+  metadataTypeDirectory,
+  metadataTypeMedia,
+  mhashBlake3Default,
+} from "./constants";
+import { genKeyPairFromSeed } from "./crypto";
+import { IntegrityError } from "./errors";
+import {
+  decodeMetadata,
+  DirectoryMetadata,
+  encodeMetadata,
+  MediaMetadataBuilder,
+  signMetadata,
+  verifyMetadata,
+  WebAppMetadata,
+} from "./metadata";
+
+const packr = new Packr({ useRecords: false, variableMapSize: true });
+
+const fileCid = CID.fromHash(new Uint8Array(32).fill(1), cidTypeRaw, 1234);
+const metadataCid = CID.fromHash(new Uint8Array(32).fill(2), cidTypeMetadataWebApp);
+
+/**
+ * Encodes values like metadata files, as a sequence of msgpack values.
+ *
+ * @param values - The values.
+ * @returns - The encoded values.
+ */
+function pack(values: unknown[]): Uint8Array {
+  return new Uint8Array(Buffer.concat(values.map((value) => packr.pack(value))));
+}
+
+describe("encodeMetadata", () => {
+  it("should round-trip media metadata", () => {
+    const metadata = new MediaMetadataBuilder("My video")
+      .setDuration(60_000)
+      .addFormat("video", { subtype: "mp4", cid: fileCid, height: 1080, width: 1920 })
+      .addFormat("video", { subtype: "webm", cid: fileCid, height: 720, width: 1280 })
+      .addFormat("image", { role: "thumbnail", ext: "jpg", cid: fileCid })
+      .setLicenses(["CC-BY-4.0"])
+      .setTags(["nature"])
+      .setTimestamp(1_700_000_000_000)
+      .setPreviousVersions([metadataCid])
+      .build();
+
+    expect(decodeMetadata(encodeMetadata(metadata))).toEqual(metadata);
+  });
+
+  it("should round-trip all media metadata extensions", () => {
+    const metadata = new MediaMetadataBuilder("My podcast")
+      .setExtension("children", [1, 2])
+      .setExtension("donationKeys", [new Uint8Array([1, 2, 3])])
+      .setExtension("wikidataClaims", new Map([["P31", "Q5"]]))
+      .setExtension("sourceUris", ["https://example.com"])
+      .setLanguages(["en", "de-DE"])
+      .setCategories(["education"])
+      .setViewTypes(["podcast"])
+      .setBasicMediaMetadata(new Map([[1, "value"]]))
+      .setUpdateCid(metadataCid)
+      .build();
+    metadata.extensions.unknown.set(99, "unknown");
+
+    expect(decodeMetadata(encodeMetadata(metadata))).toEqual(metadata);
+  });
+
+  it("should default the timestamp to now", () => {
+    const before = Date.now();
+
+    const metadata = new MediaMetadataBuilder("My video").setTimestamp().build();
+
+    expect(metadata.extensions.timestamp).toBeGreaterThanOrEqual(before);
+  });
+
+  it("should round-trip directory metadata", () => {
+    const metadata: DirectoryMetadata = {
+      type: "directory",
+      directories: { assets: metadataCid },
+      files: { "index.html": { cid: fileCid, contentType: "text/html" } },
+      extensions: { unknown: new Map() },
+    };
+
+    expect(decodeMetadata(encodeMetadata(metadata))).toEqual(metadata);
+  });
+
+  it("should round-trip web app metadata", () => {
+    const metadata: WebAppMetadata = {
+      type: "web_app",
+      name: "My app",
+      tryFiles: ["index.html"],
+      errorPages: { 404: "/404.html" },
+      paths: {
+        "index.html": { cid: fileCid, contentType: "text/html" },
+        "assets/app.js": { cid: fileCid, contentType: "application/javascript" },
+      },
+      extensions: { unknown: new Map() },
+    };
+
+    expect(decodeMetadata(encodeMetadata(metadata))).toEqual(metadata);
+  });
+});
+
+describe("decodeMetadata", () => {
+  it("should decode media metadata", () => {
+    const bytes = pack([
+      metadataMagicByte,
+      metadataTypeMedia,
+      [
+        "My video",
+        new Map([[metadataMediaDetailsDuration, 60_000]]),
+        new Map([
+          [
+            "video",
+            [
+              new Map<number, unknown>([
+                [1, "mp4"],
+                [4, fileCid.toBytes()],
+                [5, 1080],
+              ]),
+            ],
+          ],
+        ]),
+        new Map<number, unknown>([
+          [metadataExtensionLicenses, ["CC-BY-4.0"]],
+          [metadataExtensionTimestamp, 1_700_000_000_000],
+          [metadataExtensionPreviousVersions, [metadataCid.toBytes()]],
+          [99, "unknown"],
+        ]),
+      ],
+    ]);
+
+    expect(decodeMetadata(bytes)).toEqual({
+      type: "media",
+      name: "My video",
+      details: { duration: 60_000 },
+      mediaTypes: { video: [{ subtype: "mp4", cid: fileCid, height: 1080 }] },
+      extensions: {
+        licenses: ["CC-BY-4.0"],
+        timestamp: 1_700_000_000_000,
+        previousVersions: [metadataCid],
+        unknown: new Map([[99, "unknown"]]),
+      },
+    });
+  });
+
+  it("should decode directory metadata", () => {
+    const bytes = pack([
+      metadataMagicByte,
+      metadataTypeDirectory,
+      [
+        new Map([["assets", metadataCid.toBytes()]]),
+        new Map([["index.html", [fileCid.toBytes(), "text/html"]]]),
+        new Map(),
+      ],
+    ]);
+
+    expect(decodeMetadata(bytes)).toEqual({
+      type: "directory",
+      directories: { assets: metadataCid },
+      files: { "index.html": { cid: fileCid, contentType: "text/html" } },
+      extensions: { unknown: new Map() },
+    });
+  });
+
+  it("should decode web app metadata", () => {
+    const bytes = pack([
+      metadataMagicByte,
+      cidTypeMetadataWebApp,
+      [
+        "My app",
+        ["index.html"],
+        new Map([[404, "/404.html"]]),
+        new Map([["index.html", [fileCid.toBytes(), "text/html"]]]),
+        new Map(),
+      ],
+    ]);
+
+    expect(decodeMetadata(bytes)).toEqual({
+      type: "web_app",
+      name: "My app",
+      tryFiles: ["index.html"],
+      errorPages: { 404: "/404.html" },
+      paths: { "index.html": { cid: fileCid, contentType: "text/html" } },
+      extensions: { unknown: new Map() },
+    });
+  });
+
+  it("should decode metadata without extensions", () => {
+    const bytes = pack([metadataMagicByte, metadataTypeMedia, ["My video", new Map(), new Map(), null]]);
+
+    expect(decodeMetadata(bytes)).toMatchObject({ name: "My video", extensions: { unknown: new Map() } });
+  });
+
+  it("should reject bytes that are not metadata", () => {
+    expect(() => decodeMetadata(new Uint8Array([0x01, 0x02, 0x90]))).toThrow("unsupported magic byte");
+  });
+
+  it("should reject truncated metadata", () => {
+    const bytes = pack([metadataMagicByte, metadataTypeMedia, ["My video", new Map(), new Map(), new Map()]]);
+
+    expect(() => decodeMetadata(bytes.subarray(0, bytes.length - 1))).toThrow("Could not decode metadata");
+  });
+
+  it.each([
+    ["the body is not a list", [metadataMagicByte, metadataTypeMedia, "body"], "expected the body to be a list"],
+    ["the name is not a string", [metadataMagicByte, metadataTypeMedia, [1, new Map(), new Map()]], "'name'"],
+    [
+      "the extensions are not a map",
+      [metadataMagicByte, metadataTypeMedia, ["My video", new Map(), new Map(), []]],
+      "'extensions' to be a map",
+    ],
+    [
+      "an extension has the wrong type",
+      [metadataMagicByte, metadataTypeMedia, ["My video", new Map(), new Map(), new Map([[11, "tag"]])]],
+      "'licenses'",
+    ],
+    [
+      "an extension id is not a number",
+      [metadataMagicByte, metadataTypeMedia, ["My video", new Map(), new Map(), new Map([["id", 1]])]],
+      "'extension id' to be a number",
+    ],
+  ])("should reject metadata if %s", (_name, values, message) => {
+    expect(() => decodeMetadata(pack(values))).toThrow(message);
+  });
+
+  it("should reject unknown metadata types", () => {
+    const bytes = pack([metadataMagicByte, 0x7f, []]);
+
+    expect(() => decodeMetadata(bytes)).toThrow("unsupported metadata type");
+  });
+});
+
+describe("signMetadata", () => {
+  const metadata = encodeMetadata(new MediaMetadataBuilder("My video").addFormat("video", { cid: fileCid }).build());
+
+  it("should add proofs that verify", async () => {
+    const keyPairs = [
+      await genKeyPairFromSeed(new Uint8Array(32).fill(1)),
+      await genKeyPairFromSeed(new Uint8Array(32).fill(2)),
+    ];
+    const signed = await signMetadata(metadata, keyPairs);
+
+    await expect(verifyMetadata(signed)).resolves.toEqual(keyPairs.map(({ publicKey }) => publicKey));
+    expect(decodeMetadata(signed)).toEqual(decodeMetadata(metadata));
+  });
+
+  it("should replace existing proofs", async () => {
+    const keyPair = await genKeyPairFromSeed(new Uint8Array(32).fill(1));
+    const otherKeyPair = await genKeyPairFromSeed(new Uint8Array(32).fill(2));
+    const signed = await signMetadata(await signMetadata(metadata, [keyPair]), [otherKeyPair]);
+
+    await expect(verifyMetadata(signed)).resolves.toEqual([otherKeyPair.publicKey]);
+  });
+});
+
+describe("verifyMetadata", () => {
+  const metadata = encodeMetadata(new MediaMetadataBuilder("My video").addFormat("video", { cid: fileCid }).build());
+
+  it("should return no signers for unsigned metadata", async () => {
+    await expect(verifyMetadata(metadata)).resolves.toEqual([]);
+  });
+
+  it("should skip proofs of other types", async () => {
+    const timestampProof = packr.pack([[metadataProofTypeTimestamp, mhashBlake3Default, new Uint8Array(8)]]);
+
+    await expect(verifyMetadata(new Uint8Array([...metadata, ...timestampProof]))).resolves.toEqual([]);
+  });
+
+  it("should reject proofs without binary keys", async () => {
+    const proof = packr.pack([[1, mhashBlake3Default, "key", "signature"]]);
+
+    await expect(verifyMetadata(new Uint8Array([...metadata, ...proof]))).rejects.toThrow(
+      "'proof public key' to be binary data"
+    );
+  });
+
+  it("should reject metadata whose content changed after signing", async () => {
+    const keyPair = await genKeyPairFromSeed(new Uint8Array(32).fill(1));
+    const signed = await signMetadata(metadata, [keyPair]);
+    // Change the name, keeping its length.
+    const index = signed.indexOf("M".charCodeAt(0));
+    signed[index] = "N".charCodeAt(0);
+
+    await expect(verifyMetadata(signed)).rejects.toThrow(IntegrityError);
+  });
+
+  it("should reject metadata with a changed signature", async () => {
+    const keyPair = await genKeyPairFromSeed(new Uint8Array(32).fill(1));
+    const signed = await signMetadata(metadata, [keyPair]);
+    signed[signed.length - 1] ^= 1;
+
+    await expect(verifyMetadata(signed)).rejects.toThrow(IntegrityError);
+  });
+
+  it("should reject proofs with an unsupported hash type", async () => {
+    const keyPair = await genKeyPairFromSeed(new Uint8Array(32).fill(1));
+    const signed = await signMetadata(metadata, [keyPair]);
+    // The hash type follows the headers of the proof list and proof, and the proof type.
+    expect(signed[metadata.length + 3]).toEqual(mhashBlake3Default);
+    signed[metadata.length + 3] = 0x1e;
+
+    await expect(verifyMetadata(signed)).rejects.toThrow(IntegrityError);
+  });
+
+  it("should reject proofs moved to other metadata", async () => {
+    const keyPair = await genKeyPairFromSeed(new Uint8Array(32).fill(1));
+    const signed = await signMetadata(metadata, [keyPair]);
+    const proofs = signed.subarray(metadata.length);
+    const other = encodeMetadata(new MediaMetadataBuilder("Other video").build());
+    const forged = new Uint8Array([...other, ...proofs]);
+
+    await expect(verifyMetadata(forged)).rejects.toThrow(IntegrityError);
+  });
+});
@@ -0,0 +1,911 @@
+import { Packr, Unpackr } from "msgpackr";
+
+import { CID } from "./cid";
+import {
+  cidTypeMetadataWebApp,
+  metadataExtensionBasicMediaMetadata,
+  metadataExtensionCategories,
+  metadataExtensionChildren,
+  metadataExtensionDonationKeys,
+  metadataExtensionLanguages,
+  metadataExtensionLicenses,
+  metadataExtensionPreviousVersions,
+  metadataExtensionSourceUris,
+  metadataExtensionTags,
+  metadataExtensionTimestamp,
+  metadataExtensionUpdateCID,
+  metadataExtensionViewTypes,
+  metadataExtensionWikidataClaims,
+  metadataMagicByte,
+  metadataMediaDetailsDuration,
+  metadataProofTypeSignature,
+  metadataTypeDirectory,
+  metadataTypeMedia,
+  mhashBlake3Default,
+} from "./constants";
+import { decodePublicKey, encodePublicKey, KeyPair, sign, verify } from "./crypto";
+import { IntegrityError } from "./errors";
+import { encodeBase64Url } from "./utils/encoding";
+import { hashData } from "./utils/hash";
+
+// Metadata files are a sequence of msgpack values: the magic byte, the
+// metadata type and a list containing the body of the metadata, optionally
+// followed by a list of proofs. The type of web app metadata is the same as
+// its CID type.
+//
+// A signature proof is the list [metadataProofTypeSignature,
+// mhashBlake3Default, multicoded public key, signature], where the signature
+// covers the BLAKE3 multihash of all bytes preceding the proofs.
+
+/**
+ * The known optional metadata extensions, keyed by their ids in `constants.ts`.
+ *
+ * @property [children] - Child objects (with CIDs), left undecoded.
+ * @property [licenses] - SPDX license identifiers.
+ * @property [donationKeys] - Multicoded public keys of registry entries containing donation links.
+ * @property [wikidataClaims] - External ids of the object, by wikidata property id.
+ * @property [languages] - Language codes, e.g. `en` or `de-DE`.
+ * @property [sourceUris] - URIs the content was obtained from.
+ * @property [updateCid] - The resolver CID that can be used to update the object.
+ * @property [previousVersions] - CIDs of previous versions of the object.
+ * @property [timestamp] - Unix timestamp in milliseconds.
+ * @property [tags] - Tags.
+ * @property [categories] - Categories.
+ * @property [viewTypes] - View types, e.g. `video`, `podcast` or `book`.
+ * @property [basicMediaMetadata] - Basic media metadata, left undecoded.
+ * @property unknown - Extensions this client doesn't know about, by id.
+ */
+export type MetadataExtensions = {
+  children?: unknown[];
+  licenses?: string[];
+  donationKeys?: Uint8Array[];
+  wikidataClaims?: Map<unknown, unknown>;
+  languages?: string[];
+  sourceUris?: string[];
+  updateCid?: CID;
+  previousVersions?: CID[];
+  timestamp?: number;
+  tags?: string[];
+  categories?: string[];
+  viewTypes?: string[];
+  basicMediaMetadata?: Map<unknown, unknown>;
+  unknown: Map<number, unknown>;
+};
+
+/**
+ * A single format (e.g. a resolution or a codec) of a media object.
+ *
+ * @property [subtype] - The media subtype, e.g. `mp4`.
+ * @property [role] - The role of the format, e.g. `thumbnail`.
+ * @property [ext] - The file extension.
+ * @property [cid] - The CID of the content.
+ * @property [height] - The height in pixels.
+ * @property [width] - The width in pixels.
+ * @property [languages] - Language codes.
+ * @property [asr] - The audio sample rate.
+ * @property [fps] - Frames per second.
+ * @property [bitrate] - The bitrate in kbit/s.
+ * @property [audioChannels] - The number of audio channels.
+ * @property [vcodec] - The video codec.
+ * @property [acodec] - The audio codec.
+ * @property [container] - The container format.
+ * @property [duration] - The duration in milliseconds.
+ */
+export type MediaFormat = {
+  subtype?: string;
+  role?: string;
+  ext?: string;
+  cid?: CID;
+  height?: number;
+  width?: number;
+  languages?: string[];
+  asr?: number;
+  fps?: number;
+  bitrate?: number;
+  audioChannels?: number;
+  vcodec?: string;
+  acodec?: string;
+  container?: string;
+  duration?: number;
+};
+
+/**
+ * The keys of the `MediaFormat` fields in the encoded format maps.
+ */
+export const MEDIA_FORMAT_KEYS: Record<keyof MediaFormat, number> = {
+  subtype: 1,
+  role: 2,
+  ext: 3,
+  cid: 4,
+  height: 5,
+  width: 6,
+  languages: 7,
+  asr: 8,
+  fps: 9,
+  bitrate: 10,
+  audioChannels: 11,
+  vcodec: 12,
+  acodec: 13,
+  container: 14,
+  duration: 18,
+};
+
+/**
+ * Media metadata, e.g. for a video with multiple formats.
+ *
+ * @property type - Always "media".
+ * @property name - The name of the media object.
+ * @property details - Details about the media object.
+ * @property [details.duration] - The duration in milliseconds.
+ * @property mediaTypes - The available formats, by media type (e.g. `video`, `audio`, `image`).
+ * @property extensions - The metadata extensions.
+ */
+export type MediaMetadata = {
+  type: "media";
+  name: string;
+  details: { duration?: number };
+  mediaTypes: Record<string, MediaFormat[]>;
+  extensions: MetadataExtensions;
+};
+
+/**
+ * A reference to a file in directory metadata.
+ *
+ * @property cid - The CID of the file.
+ * @property contentType - The content type of the file.
+ */
+export type FileReference = {
+  cid: CID;
+  contentType: string;
+};
+
+/**
+ * Directory metadata.
+ *
+ * @property type - Always "directory".
+ * @property directories - The CIDs of the metadata of the subdirectories, by name.
+ * @property files - The files, by name.
+ * @property extensions - The metadata extensions.
+ */
+export type DirectoryMetadata = {
+  type: "directory";
+  directories: Record<string, CID>;
+  files: Record<string, FileReference>;
+  extensions: MetadataExtensions;
+};
+
+/**
+ * Web app metadata, as created for directory uploads.
+ *
+ * @property type - Always "web_app".
+ * @property name - The name of the web app.
+ * @property tryFiles - Files to try if the requested path does not exist.
+ * @property errorPages - The paths of the error pages, by status code.
+ * @property paths - The files of the web app, by path.
+ * @property extensions - The metadata extensions.
+ */
+export type WebAppMetadata = {
+  type: "web_app";
+  name: string;
+  tryFiles: string[];
+  errorPages: Record<number, string>;
+  paths: Record<string, FileReference>;
+  extensions: MetadataExtensions;
+};
+
+/**
+ * Any decoded S5 metadata.
+ */
+export type Metadata = MediaMetadata | DirectoryMetadata | WebAppMetadata;
+
+/**
+ * Decoded S5 metadata along with the public keys of its verified signers.
+ *
+ * @property signers - The 32-byte public keys whose signature proofs were verified.
+ */
+export type VerifiedMetadata = Metadata & {
+  signers: Uint8Array[];
+};
+
+/**
+ * Builds media metadata step by step.
+ *
+ * @example
+ * const metadata = new MediaMetadataBuilder("My video")
+ *   .setDuration(60_000)
+ *   .addFormat("video", { subtype: "mp4", cid, height: 1080, width: 1920 })
+ *   .setLicenses(["CC-BY-4.0"])
+ *   .build();
+ */
+export class MediaMetadataBuilder {
+  protected metadata: MediaMetadata;
+
+  /**
+   * Creates a `MediaMetadataBuilder`.
+   *
+   * @param name - The name of the media object.
+   */
+  constructor(name: string) {
+    this.metadata = { type: "media", name, details: {}, mediaTypes: {}, extensions: { unknown: new Map() } };
+  }
+
+  /**
+   * Sets the duration of the media object.
+   *
+   * @param duration - The duration in milliseconds.
+   * @returns - The builder.
+   */
+  setDuration(duration: number): this {
+    this.metadata.details.duration = duration;
+    return this;
+  }
+
+  /**
+   * Adds a format of the media object.
+   *
+   * @param mediaType - The media type, e.g. `video`, `audio` or `image`.
+   * @param format - The format.
+   * @returns - The builder.
+   */
+  addFormat(mediaType: string, format: MediaFormat): this {
+    const formats = this.metadata.mediaTypes[mediaType] || [];
+    formats.push(format);
+    this.metadata.mediaTypes[mediaType] = formats;
+    return this;
+  }
+
+  /**
+   * Sets an extension of the metadata.
+   *
+   * @param key - The extension.
+   * @param value - The value of the extension.
+   * @returns - The builder.
+   */
+  setExtension<K extends Exclude<keyof MetadataExtensions, "unknown">>(key: K, value: MetadataExtensions[K]): this {
+    this.metadata.extensions[key] = value;
+    return this;
+  }
+
+  /**
+   * Sets the SPDX license identifiers.
+   *
+   * @param licenses - The license identifiers, e.g. `CC-BY-4.0`.
+   * @returns - The builder.
+   */
+  setLicenses(licenses: string[]): this {
+    return this.setExtension("licenses", licenses);
+  }
+
+  /**
+   * Sets the language codes.
+   *
+   * @param languages - The language codes, e.g. `en` or `de-DE`.
+   * @returns - The builder.
+   */
+  setLanguages(languages: string[]): this {
+    return this.setExtension("languages", languages);
+  }
+
+  /**
+   * Sets the tags.
+   *
+   * @param tags - The tags.
+   * @returns - The builder.
+   */
+  setTags(tags: string[]): this {
+    return this.setExtension("tags", tags);
+  }
+
+  /**
+   * Sets the categories.
+   *
+   * @param categories - The categories.
+   * @returns - The builder.
+   */
+  setCategories(categories: string[]): this {
+    return this.setExtension("categories", categories);
+  }
+
+  /**
+   * Sets the view types.
+   *
+   * @param viewTypes - The view types, e.g. `video`, `podcast` or `book`.
+   * @returns - The builder.
+   */
+  setViewTypes(viewTypes: string[]): this {
+    return this.setExtension("viewTypes", viewTypes);
+  }
+
+  /**
+   * Sets the basic media metadata.
+   *
+   * @param basicMediaMetadata - The basic media metadata.
+   * @returns - The builder.
+   */
+  setBasicMediaMetadata(basicMediaMetadata: Map<unknown, unknown>): this {
+    return this.setExtension("basicMediaMetadata", basicMediaMetadata);
+  }
+
+  /**
+   * Sets the timestamp.
+   *
+   * @param timestamp - Unix timestamp in milliseconds. Defaults to now.
+   * @returns - The builder.
+   */
+  setTimestamp(timestamp: number = Date.now()): this {
+    return this.setExtension("timestamp", timestamp);
+  }
+
+  /**
+   * Sets the resolver CID that can be used to update the object.
+   *
+   * @param updateCid - The resolver CID.
+   * @returns - The builder.
+   */
+  setUpdateCid(updateCid: CID): this {
+    return this.setExtension("updateCid", updateCid);
+  }
+
+  /**
+   * Sets the CIDs of previous versions of the object.
+   *
+   * @param previousVersions - The CIDs.
+   * @returns - The builder.
+   */
+  setPreviousVersions(previousVersions: CID[]): this {
+    return this.setExtension("previousVersions", previousVersions);
+  }
+
+  /**
+   * Returns the built metadata.
+   *
+   * @returns - The media metadata.
+   */
+  build(): MediaMetadata {
+    return this.metadata;
+  }
+}
+
+const unpackr = new Unpackr({ mapsAsObjects: false, useRecords: false, int64AsType: "number" });
+const packr = new Packr({ useRecords: false, variableMapSize: true });
+
+/**
+ * Decodes a binary metadata file.
+ *
+ * @param bytes - The raw metadata bytes.
+ * @returns - The decoded metadata.
+ * @throws - Will throw if the bytes are not valid metadata of a known type.
+ */
+export function decodeMetadata(bytes: Uint8Array): Metadata {
+  let values: unknown[];
+  try {
+    values = unpackr.unpackMultiple(bytes);
+  } catch (e) {
+    throw new Error(`Could not decode metadata: ${(e as Error).message}`);
+  }
+
+  const [magicByte, type, body] = values;
+  if (magicByte !== metadataMagicByte) {
+    throw new Error(`Invalid metadata: unsupported magic byte '${magicByte}'`);
+  }
+  if (!Array.isArray(body)) {
+    throw new Error("Invalid metadata: expected the body to be a list");
+  }
+
+  switch (type) {
+    case metadataTypeMedia:
+      return decodeMediaMetadata(body);
+    case metadataTypeDirectory:
+      return decodeDirectoryMetadata(body);
+    case cidTypeMetadataWebApp:
+      return decodeWebAppMetadata(body);
+    default:
+      throw new Error(`Invalid metadata: unsupported metadata type '${type}'`);
+  }
+}
+
+/**
+ * Encodes metadata into the binary metadata format, starting with
+ * `metadataMagicByte`.
+ *
+ * @param metadata - The metadata to encode.
+ * @returns - The encoded metadata.
+ */
+export function encodeMetadata(metadata: Metadata): Uint8Array {
+  let type: number;
+  let body: unknown[];
+  switch (metadata.type) {
+    case "media":
+      type = metadataTypeMedia;
+      body = encodeMediaMetadata(metadata);
+      break;
+    case "directory":
+      type = metadataTypeDirectory;
+      body = encodeDirectoryMetadata(metadata);
+      break;
+    case "web_app":
+      type = cidTypeMetadataWebApp;
+      body = encodeWebAppMetadata(metadata);
+      break;
+  }
+
+  const parts = [packr.pack(metadataMagicByte), packr.pack(type), packr.pack(body)];
+  const bytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+/**
+ * Appends Ed25519 signature proofs to encoded metadata. Any proofs already
+ * present are replaced.
+ *
+ * @param bytes - The encoded metadata, e.g. from `encodeMetadata`.
+ * @param keyPairs - The key pairs to sign with.
+ * @returns - The encoded metadata including the proofs.
+ */
+export async function signMetadata(bytes: Uint8Array, keyPairs: KeyPair[]): Promise<Uint8Array> {
+  const { content } = splitMetadataProofs(bytes);
+  const message = await metadataProofMessage(content);
+
+  const proofs = [];
+  for (const keyPair of keyPairs) {
+    const signature = await sign(message, keyPair);
+    proofs.push([metadataProofTypeSignature, mhashBlake3Default, encodePublicKey(keyPair.publicKey), signature]);
+  }
+
+  const proofBytes = packr.pack(proofs);
+  const signed = new Uint8Array(content.length + proofBytes.length);
+  signed.set(content);
+  signed.set(proofBytes, content.length);
+  return signed;
+}
+
+/**
+ * Verifies the signature proofs of encoded metadata. Proofs of other types,
+ * e.g. timestamp proofs, are not verified.
+ *
+ * @param bytes - The encoded metadata.
+ * @returns - The public keys of the verified signers. Empty if the metadata is not signed.
+ * @throws - Will throw an `IntegrityError` if any signature proof is invalid or uses an unsupported hash type.
+ */
+export async function verifyMetadata(bytes: Uint8Array): Promise<Uint8Array[]> {
+  const { content, proofs } = splitMetadataProofs(bytes);
+  if (proofs.length === 0) {
+    return [];
+  }
+  const message = await metadataProofMessage(content);
+
+  const signers = [];
+  for (const proof of proofs) {
+    const [type, hashType, multikey, signature] = expectArray(proof, "proof");
+    if (type !== metadataProofTypeSignature) {
+      continue;
+    }
+    if (hashType !== mhashBlake3Default) {
+      throw new IntegrityError(
+        `Metadata contains a signature proof with unsupported hash type '${hashType}'`,
+        `${mhashBlake3Default}`,
+        `${hashType}`
+      );
+    }
+
+    const publicKey = decodePublicKey(expectBytes(multikey, "proof public key"));
+    if (!(await verify(message, expectBytes(signature, "proof signature"), publicKey))) {
+      throw new IntegrityError(
+        "Metadata contains an invalid signature proof",
+        encodeBase64Url(encodePublicKey(publicKey)),
+        encodeBase64Url(expectBytes(signature, "proof signature"))
+      );
+    }
+    signers.push(publicKey);
+  }
+  return signers;
+}
+
+/**
+ * Splits encoded metadata into the signed content and the list of proofs.
+ *
+ * @param bytes - The encoded metadata.
+ * @returns - The bytes preceding the proofs and the undecoded proofs.
+ */
+function splitMetadataProofs(bytes: Uint8Array): { content: Uint8Array; proofs: unknown[] } {
+  let contentEnd = bytes.length;
+  let proofs: unknown[] = [];
+  let index = 0;
+  unpackr.unpackMultiple(bytes, (value: unknown, start?: number) => {
+    // The fourth value, following the magic byte, type and body, holds the proofs.
+    if (index++ === 3) {
+      contentEnd = start as number;
+      proofs = expectArray(value, "proofs");
+    }
+  });
+  return { content: bytes.subarray(0, contentEnd), proofs };
+}
+
+/**
+ * Returns the message covered by signature proofs.
+ *
+ * @param content - The metadata bytes preceding the proofs.
+ * @returns - The BLAKE3 multihash of the content.
+ */
+async function metadataProofMessage(content: Uint8Array): Promise<Uint8Array> {
+  const digest = await hashData(content);
+  const multihash = new Uint8Array(1 + digest.length);
+  multihash[0] = mhashBlake3Default;
+  multihash.set(digest, 1);
+  return multihash;
+}
+
+/**
+ * Decodes the body of media metadata.
+ *
+ * @param body - The body list: name, details, media types and extensions.
+ * @returns - The media metadata.
+ */
+function decodeMediaMetadata(body: unknown[]): MediaMetadata {
+  const [name, details, mediaTypes, extensions] = body;
+
+  const detailsMap = expectMap(details, "details");
+  const duration = detailsMap.get(metadataMediaDetailsDuration);
+
+  const decodedMediaTypes: Record<string, MediaFormat[]> = {};
+  for (const [mediaType, formats] of expectMap(mediaTypes, "mediaTypes")) {
+    decodedMediaTypes[expectString(mediaType, "mediaTypes key")] = expectArray(formats, "mediaTypes value").map(
+      (format) => decodeMediaFormat(expectMap(format, "media format"))
+    );
+  }
+
+  return {
+    type: "media",
+    name: expectString(name, "name"),
+    details: duration === undefined ? {} : { duration: expectNumber(duration, "duration") },
+    mediaTypes: decodedMediaTypes,
+    extensions: decodeExtensions(extensions),
+  };
+}
+
+/**
+ * Decodes a single media format.
+ *
+ * @param map - The encoded format.
+ * @returns - The media format.
+ */
+function decodeMediaFormat(map: Map<unknown, unknown>): MediaFormat {
+  const format: Record<string, unknown> = {};
+  for (const [field, key] of Object.entries(MEDIA_FORMAT_KEYS)) {
+    const value = map.get(key);
+    if (value === undefined) {
+      continue;
+    }
+    format[field] = field === "cid" ? CID.fromBytes(expectBytes(value, field)) : value;
+  }
+  return format as MediaFormat;
+}
+
+/**
+ * Decodes the body of directory metadata.
+ *
+ * @param body - The body list: directories, files and extensions.
+ * @returns - The directory metadata.
+ */
+function decodeDirectoryMetadata(body: unknown[]): DirectoryMetadata {
+  const [directories, files, extensions] = body;
+
+  const decodedDirectories: Record<string, CID> = {};
+  for (const [name, cid] of expectMap(directories, "directories")) {
+    decodedDirectories[expectString(name, "directory name")] = CID.fromBytes(expectBytes(cid, "directory cid"));
+  }
+
+  return {
+    type: "directory",
+    directories: decodedDirectories,
+    files: decodeFileReferences(files, "files"),
+    extensions: decodeExtensions(extensions),
+  };
+}
+
+/**
+ * Decodes the body of web app metadata.
+ *
+ * @param body - The body list: name, try files, error pages, paths and extensions.
+ * @returns - The web app metadata.
+ */
+function decodeWebAppMetadata(body: unknown[]): WebAppMetadata {
+  const [name, tryFiles, errorPages, paths, extensions] = body;
+
+  const decodedErrorPages: Record<number, string> = {};
+  for (const [code, path] of expectMap(errorPages, "errorPages")) {
+    decodedErrorPages[expectNumber(code, "error page code")] = expectString(path, "error page path");
+  }
+
+  return {
+    type: "web_app",
+    name: expectString(name, "name"),
+    tryFiles: expectArray(tryFiles, "tryFiles").map((file) => expectString(file, "try file")),
+    errorPages: decodedErrorPages,
+    paths: decodeFileReferences(paths, "paths"),
+    extensions: decodeExtensions(extensions),
+  };
+}
+
+/**
+ * Decodes a map of file references, each encoded as a list of the CID bytes
+ * and the content type.
+ *
+ * @param value - The encoded map.
+ * @param name - The name of the field, for error messages.
+ * @returns - The file references, by name.
+ */
+function decodeFileReferences(value: unknown, name: string): Record<string, FileReference> {
+  const references: Record<string, FileReference> = {};
+  for (const [path, reference] of expectMap(value, name)) {
+    const [cid, contentType] = expectArray(reference, `${name} value`);
+    references[expectString(path, `${name} key`)] = {
+      cid: CID.fromBytes(expectBytes(cid, `${name} cid`)),
+      contentType: expectString(contentType, `${name} content type`),
+    };
+  }
+  return references;
+}
+
+/**
+ * Decodes the metadata extensions map.
+ *
+ * @param value - The encoded extensions, keyed by extension id. May be undefined.
+ * @returns - The decoded extensions.
+ */
+function decodeExtensions(value: unknown): MetadataExtensions {
+  const extensions: MetadataExtensions = { unknown: new Map() };
+  if (value === undefined || value === null) {
+    return extensions;
+  }
+
+  for (const [id, data] of expectMap(value, "extensions")) {
+    switch (id) {
+      case metadataExtensionChildren:
+        extensions.children = expectArray(data, "children");
+        break;
+      case metadataExtensionLicenses:
+        extensions.licenses = expectStrings(data, "licenses");
+        break;
+      case metadataExtensionDonationKeys:
+        extensions.donationKeys = expectArray(data, "donationKeys").map((key) => expectBytes(key, "donation key"));
+        break;
+      case metadataExtensionWikidataClaims:
+        extensions.wikidataClaims = expectMap(data, "wikidataClaims");
+        break;
+      case metadataExtensionLanguages:
+        extensions.languages = expectStrings(data, "languages");
+        break;
+      case metadataExtensionSourceUris:
+        extensions.sourceUris = expectStrings(data, "sourceUris");
+        break;
+      case metadataExtensionUpdateCID:
+        extensions.updateCid = CID.fromBytes(expectBytes(data, "updateCid"));
+        break;
+      case metadataExtensionPreviousVersions:
+        extensions.previousVersions = expectArray(data, "previousVersions").map((cid) =>
+          CID.fromBytes(expectBytes(cid, "previous version"))
+        );
+        break;
+      case metadataExtensionTimestamp:
+        extensions.timestamp = expectNumber(data, "timestamp");
+        break;
+      case metadataExtensionTags:
+        extensions.tags = expectStrings(data, "tags");
+        break;
+      case metadataExtensionCategories:
+        extensions.categories = expectStrings(data, "categories");
+        break;
+      case metadataExtensionViewTypes:
+        extensions.viewTypes = expectStrings(data, "viewTypes");
+        break;
+      case metadataExtensionBasicMediaMetadata:
+        extensions.basicMediaMetadata = expectMap(data, "basicMediaMetadata");
+        break;
+      default:
+        extensions.unknown.set(expectNumber(id, "extension id"), data);
+    }
+  }
+  return extensions;
+}
+
+/**
+ * Encodes the body of media metadata.
+ *
+ * @param metadata - The media metadata.
+ * @returns - The body list.
+ */
+function encodeMediaMetadata(metadata: MediaMetadata): unknown[] {
+  const details = new Map<number, unknown>();
+  if (metadata.details.duration !== undefined) {
+    details.set(metadataMediaDetailsDuration, metadata.details.duration);
+  }
+
+  const mediaTypes = new Map<string, unknown>();
+  for (const [mediaType, formats] of Object.entries(metadata.mediaTypes)) {
+    mediaTypes.set(mediaType, formats.map(encodeMediaFormat));
+  }
+
+  return [metadata.name, details, mediaTypes, encodeExtensions(metadata.extensions)];
+}
+
+/**
+ * Encodes a single media format.
+ *
+ * @param format - The media format.
+ * @returns - The encoded format.
+ */
+function encodeMediaFormat(format: MediaFormat): Map<number, unknown> {
+  const map = new Map<number, unknown>();
+  for (const [field, key] of Object.entries(MEDIA_FORMAT_KEYS)) {
+    const value = format[field as keyof MediaFormat];
+    if (value === undefined) {
+      continue;
+    }
+    map.set(key, value instanceof CID ? value.toBytes() : value);
+  }
+  return map;
+}
+
+/**
+ * Encodes the body of directory metadata.
+ *
+ * @param metadata - The directory metadata.
+ * @returns - The body list.
+ */
+function encodeDirectoryMetadata(metadata: DirectoryMetadata): unknown[] {
+  const directories = new Map<string, Uint8Array>();
+  for (const [name, cid] of Object.entries(metadata.directories)) {
+    directories.set(name, cid.toBytes());
+  }
+  return [directories, encodeFileReferences(metadata.files), encodeExtensions(metadata.extensions)];
+}
+
+/**
+ * Encodes the body of web app metadata.
+ *
+ * @param metadata - The web app metadata.
+ * @returns - The body list.
+ */
+function encodeWebAppMetadata(metadata: WebAppMetadata): unknown[] {
+  const errorPages = new Map<number, string>();
+  for (const [code, path] of Object.entries(metadata.errorPages)) {
+    errorPages.set(Number(code), path);
+  }
+  return [
+    metadata.name,
+    metadata.tryFiles,
+    errorPages,
+    encodeFileReferences(metadata.paths),
+    encodeExtensions(metadata.extensions),
+  ];
+}
+
+/**
+ * Encodes a map of file references.
+ *
+ * @param references - The file references, by name.
+ * @returns - The encoded map.
+ */
+function encodeFileReferences(references: Record<string, FileReference>): Map<string, unknown> {
+  const map = new Map<string, unknown>();
+  for (const [path, { cid, contentType }] of Object.entries(references)) {
+    map.set(path, [cid.toBytes(), contentType]);
+  }
+  return map;
+}
+
+/**
+ * Encodes the metadata extensions map.
+ *
+ * @param extensions - The extensions.
+ * @returns - The encoded extensions, keyed by extension id.
+ */
+function encodeExtensions(extensions: MetadataExtensions): Map<number, unknown> {
+  const map = new Map<number, unknown>(extensions.unknown);
+  const set = (id: number, value: unknown) => {
+    if (value !== undefined) {
+      map.set(id, value);
+    }
+  };
+
+  set(metadataExtensionChildren, extensions.children);
+  set(metadataExtensionLicenses, extensions.licenses);
+  set(metadataExtensionDonationKeys, extensions.donationKeys);
+  set(metadataExtensionWikidataClaims, extensions.wikidataClaims);
+  set(metadataExtensionLanguages, extensions.languages);
+  set(metadataExtensionSourceUris, extensions.sourceUris);
+  set(metadataExtensionUpdateCID, extensions.updateCid && extensions.updateCid.toBytes());
+  set(
+    metadataExtensionPreviousVersions,
+    extensions.previousVersions && extensions.previousVersions.map((cid) => cid.toBytes())
+  );
+  set(metadataExtensionTimestamp, extensions.timestamp);
+  set(metadataExtensionTags, extensions.tags);
+  set(metadataExtensionCategories, extensions.categories);
+  set(metadataExtensionViewTypes, extensions.viewTypes);
+  set(metadataExtensionBasicMediaMetadata, extensions.basicMediaMetadata);
+  return map;
+}
+
+/**
+ * Throws an error for a metadata field that has an unexpected type.
+ *
+ * @param name - The name of the field.
+ * @param expected - The expected type.
+ * @throws - Will always throw.
+ */
+function throwInvalidField(name: string, expected: string): never {
+  throw new Error(`Invalid metadata: expected '${name}' to be ${expected}`);
+}
+
+/**
+ * Checks that a decoded value is a map.
+ *
+ * @param value - The decoded value.
+ * @param name - The name of the field.
+ * @returns - The map.
+ */
+function expectMap(value: unknown, name: string): Map<unknown, unknown> {
+  return value instanceof Map ? value : throwInvalidField(name, "a map");
+}
+
+/**
+ * Checks that a decoded value is a list.
+ *
+ * @param value - The decoded value.
+ * @param name - The name of the field.
+ * @returns - The list.
+ */
+function expectArray(value: unknown, name: string): unknown[] {
+  return Array.isArray(value) ? value : throwInvalidField(name, "a list");
+}
+
+/**
+ * Checks that a decoded value is a list of strings.
+ *
+ * @param value - The decoded value.
+ * @param name - The name of the field.
+ * @returns - The strings.
+ */
+function expectStrings(value: unknown, name: string): string[] {
+  return expectArray(value, name).map((item) => expectString(item, name));
+}
+
+/**
+ * Checks that a decoded value is a string.
+ *
+ * @param value - The decoded value.
+ * @param name - The name of the field.
+ * @returns - The string.
+ */
+function expectString(value: unknown, name: string): string {
+  return typeof value === "string" ? value : throwInvalidField(name, "a string");
+}
+
+/**
+ * Checks that a decoded value is a number.
+ *
+ * @param value - The decoded value.
+ * @param name - The name of the field.
+ * @returns - The number.
+ */
+function expectNumber(value: unknown, name: string): number {
+  return typeof value === "number" ? value : throwInvalidField(name, "a number");
+}
+
+/**
+ * Checks that a decoded value is binary data.
+ *
+ * @param value - The decoded value.
+ * @param name - The name of the field.
+ * @returns - The bytes.
+ */
+function expectBytes(value: unknown, name: string): Uint8Array {
+  return value instanceof Uint8Array ? value : throwInvalidField(name, "binary data");
+}
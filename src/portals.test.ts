@@ -0,0 +1,239 @@
+import { createMockClient, MockHandler, portalUrl } from "../utils/testing";
+import { CID } from "./cid";
+import { S5Client } from "./client";
+import { cidTypeRaw } from "./constants";
+import { ExecuteRequestError } from "./errors";
+import { PortalPool } from "./portals";
+import { hashData } from "./utils/hash";
+
+const portals = ["https://a.example", "https://b.example", "https://c.example"];
+
+/**
+ * Creates a client with several portals that fails all requests to the given
+ * portals.
+ *
+ * @param failing - The URLs of the failing portals.
+ * @param [data] - The data of successful responses.
+ * @param [status] - The status of failed responses.
+ * @returns - The client and the mocked adapter.
+ */
+function createClient(failing: string[], data: unknown = {}, status = 503) {
+  const handler: MockHandler = (config) =>
+    failing.some((url) => (config.url as string).startsWith(url)) ? { status } : { data };
+  return createMockClient(handler, {}, [...portals]);
+}
+
+/**
+ * Returns the portals the client sent requests to.
+ *
+ * @param request - The mocked adapter.
+ * @returns - The portal URL of every request.
+ */
+function requestedPortals(request: jest.Mock): string[] {
+  return request.mock.calls.map(([config]) => new URL(config.url).origin);
+}
+
+describe("PortalPool", () => {
+  it("should order portals by preference for writes", () => {
+    const pool = new PortalPool(portals);
+
+    expect(pool.order(false)).toEqual(portals);
+    expect(pool.order(false)).toEqual(portals);
+    expect(pool.primary()).toEqual(portals[0]);
+  });
+
+  it("should rotate portals for reads", () => {
+    const pool = new PortalPool(portals);
+
+    expect(pool.order(true)).toEqual(portals);
+    expect(pool.order(true)).toEqual([portals[1], portals[2], portals[0]]);
+    expect(pool.order(true)).toEqual([portals[2], portals[0], portals[1]]);
+  });
+
+  it("should try failed portals last until their cooldown ends", () => {
+    jest.useFakeTimers({ now: 0 });
+    try {
+      const pool = new PortalPool(portals, "round-robin", 1000);
+      pool.reportFailure(portals[1]);
+      jest.advanceTimersByTime(10);
+      pool.reportFailure(portals[0]);
+
+      expect(pool.order(false)).toEqual([portals[2], portals[1], portals[0]]);
+      expect(pool.primary()).toEqual(portals[2]);
+      expect(pool.portals[0]).toMatchObject({ healthy: false, unhealthyUntil: 1010 });
+
+      jest.advanceTimersByTime(1000);
+      expect(pool.order(false)).toEqual(portals);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("should make portals healthy again after a success", () => {
+    const pool = new PortalPool(portals);
+    pool.reportFailure(portals[0]);
+    pool.reportSuccess(portals[0], 100);
+
+    expect(pool.order(false)).toEqual(portals);
+    expect(pool.portals[0]).toMatchObject({ healthy: true, unhealthyUntil: 0, latency: 100 });
+  });
+
+  it("should average latencies", () => {
+    const pool = new PortalPool(portals);
+    pool.reportSuccess(portals[0], 100);
+    pool.reportSuccess(portals[0], 200);
+    pool.reportSuccess(portals[0]);
+
+    expect(pool.portals[0].latency).toBeCloseTo(130);
+  });
+
+  it("should prefer fast portals for reads with latency selection", () => {
+    const pool = new PortalPool(portals, "latency");
+    pool.reportSuccess(portals[0], 1000);
+    pool.reportSuccess(portals[1], 10);
+    pool.reportSuccess(portals[2], 1000);
+    jest.spyOn(Math, "random").mockReturnValue(0.5);
+    try {
+      expect(pool.order(true)[0]).toEqual(portals[1]);
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  it("should measure portals without a latency for reads with latency selection", () => {
+    const pool = new PortalPool(portals, "latency");
+    jest.spyOn(Math, "random").mockReturnValue(0.9);
+    try {
+      expect(pool.order(true)).toEqual([portals[2], portals[1], portals[0]]);
+      pool.reportSuccess(portals[0], 1000);
+      pool.reportSuccess(portals[1], 500);
+      expect(pool.order(true)[0]).toEqual(portals[2]);
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  it("should ignore unknown portals", () => {
+    const pool = new PortalPool(portals);
+    pool.reportFailure("https://unknown.example");
+    pool.reportSuccess("https://unknown.example", 1);
+
+    expect(pool.order(false)).toEqual(portals);
+  });
+});
+
+describe("S5Client with several portals", () => {
+  it("should reject an empty list of portals", () => {
+    expect(() => new S5Client([])).toThrow("initialPortalUrl");
+  });
+
+  it("should fail over to the next portal", async () => {
+    const { client, request } = createClient([portals[0]]);
+
+    await client.executeRequest({ endpointPath: "/s5/upload", method: "post" });
+
+    expect(requestedPortals(request)).toEqual([portals[0], portals[1]]);
+    expect(client.portals.map(({ healthy }) => healthy)).toEqual([false, true, true]);
+    await expect(client.portalUrl()).resolves.toEqual(portals[1]);
+  });
+
+  it.each([408, 429, 400])("should not fail over on status %s", async (status) => {
+    const { client, request } = createClient([portals[0]], {}, status);
+
+    await expect(
+      client.executeRequest({ endpointPath: "/s5/upload", method: "post", retryPolicy: undefined })
+    ).rejects.toMatchObject({ responseStatus: status });
+    expect(requestedPortals(request)).toEqual([portals[0]]);
+    expect(client.portals.map(({ healthy }) => healthy)).toEqual([true, true, true]);
+  });
+
+  it("should not fail over on errors that are not request errors", async () => {
+    const error = new Error("bug");
+    const { client } = createMockClient(
+      () => {
+        throw error;
+      },
+      {},
+      [...portals]
+    );
+
+    await expect(client.executeRequest({ endpointPath: "/s5/upload", method: "post" })).rejects.toBe(error);
+    expect(client.portals.map(({ healthy }) => healthy)).toEqual([true, true, true]);
+  });
+
+  it("should throw the last error if all portals fail", async () => {
+    const { client, request } = createClient(portals);
+
+    await expect(client.executeRequest({ endpointPath: "/s5/upload", method: "post" })).rejects.toThrow(
+      ExecuteRequestError
+    );
+    expect(requestedPortals(request)).toEqual(portals);
+  });
+
+  it("should not fail over requests with a URL, but report their portal", async () => {
+    const { client, request } = createClient([portals[1]]);
+
+    await expect(
+      client.executeRequest({ url: portals[1], endpointPath: "/s5/upload", method: "post" })
+    ).rejects.toThrow(ExecuteRequestError);
+    expect(requestedPortals(request)).toEqual([portals[1]]);
+    expect(client.portals.map(({ healthy }) => healthy)).toEqual([true, false, true]);
+  });
+
+  it("should upload replicas through the client", async () => {
+    const data = new Uint8Array(100).fill(7);
+    const cid = CID.fromHash(await hashData(data), cidTypeRaw, data.length).toBase64Url();
+    const { client, request } = createClient([portals[1]], { cid });
+    const onRequest = jest.fn();
+    client.use({ onRequest });
+
+    const response = await client.uploadFile(data, { uploadReplicas: 2 });
+
+    expect(response.cid).toEqual(cid);
+    expect(requestedPortals(request).sort()).toEqual(portals);
+    expect(onRequest).toHaveBeenCalledTimes(3);
+    expect(client.portals.map(({ healthy }) => healthy)).toEqual([true, false, true]);
+  });
+
+  it("should check the health of all portals", async () => {
+    const statuses: Record<string, number> = { [portals[0]]: 503, [portals[1]]: 404, [portals[2]]: 200 };
+    const { client } = createMockClient((config) => ({ status: statuses[new URL(config.url as string).origin] }), {}, [
+      ...portals,
+    ]);
+    client.portals[1].healthy = false;
+
+    const states = await client.checkPortalHealth();
+
+    expect(states.map(({ healthy }) => healthy)).toEqual([false, true, true]);
+    expect(states[2].latency).toBeGreaterThanOrEqual(0);
+  });
+
+  it("should check the health of portals periodically", async () => {
+    jest.useFakeTimers();
+    const checkPortalHealth = jest
+      .spyOn(S5Client.prototype, "checkPortalHealth")
+      .mockRejectedValue(new Error("Health check failed"));
+    try {
+      const client = new S5Client(portals, { portalHealthCheckInterval: 1000 });
+
+      jest.advanceTimersByTime(2000);
+      expect(checkPortalHealth).toHaveBeenCalledTimes(2);
+      client.stopHealthChecks();
+      client.stopHealthChecks();
+      jest.advanceTimersByTime(1000);
+      expect(checkPortalHealth).toHaveBeenCalledTimes(2);
+    } finally {
+      checkPortalHealth.mockRestore();
+      jest.useRealTimers();
+    }
+  });
+
+  it("should not track the health of a single portal", async () => {
+    const { client, request } = createMockClient(undefined, { portalHealthCheckInterval: 1000 });
+
+    await expect(client.checkPortalHealth()).resolves.toEqual([]);
+    client.reportPortalRequest(portalUrl);
+    expect(client.portals).toEqual([]);
+    expect(request).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * How a portal is selected for read requests: in turns, or randomly with
+ * faster portals being more likely.
+ */
+export type PortalSelection = "round-robin" | "latency";
+
+/**
+ * The state of a portal in a `PortalPool`.
+ *
+ * @property url - The portal URL.
+ * @property healthy - Whether the last request to the portal succeeded.
+ * @property [latency] - The average response time in ms, if known.
+ * @property unhealthyUntil - Until when, in ms since the epoch, the portal is only used if no other portal is healthy.
+ */
+export type PortalState = {
+  url: string;
+  healthy: boolean;
+  latency?: number;
+  unhealthyUntil: number;
+};
+
+/**
+ * How long a portal that failed is avoided, in ms.
+ */
+export const DEFAULT_PORTAL_COOLDOWN = 30_000;
+
+/**
+ * The weight of a new latency measurement in the average.
+ */
+const LATENCY_SMOOTHING = 0.3;
+
+/**
+ * A list of portals with their health, used by clients created with several
+ * portal URLs to decide which portal to send a request to.
+ */
+export class PortalPool {
+  protected states: PortalState[];
+  protected nextIndex = 0;
+
+  /**
+   * Creates a `PortalPool`.
+   *
+   * @param urls - The portal URLs, in order of preference.
+   * @param [selection="round-robin"] - How portals are selected for read requests.
+   * @param [cooldown=30000] - How long a portal that failed is avoided, in ms.
+   */
+  constructor(
+    urls: string[],
+    protected selection: PortalSelection = "round-robin",
+    protected cooldown: number = DEFAULT_PORTAL_COOLDOWN
+  ) {
+    this.states = urls.map((url) => ({ url, healthy: true, unhealthyUntil: 0 }));
+  }
+
+  /**
+   * The current state of all portals.
+   *
+   * @returns - The portal states, in order of preference.
+   */
+  get portals(): PortalState[] {
+    return this.states.map((state) => ({ ...state }));
+  }
+
+  /**
+   * The preferred portal that is currently healthy, or the first portal if
+   * none is.
+   *
+   * @returns - The portal URL.
+   */
+  primary(): string {
+    return this.order(false)[0];
+  }
+
+  /**
+   * Returns the portals in the order they should be tried for a request.
+   * Portals that failed recently come last.
+   *
+   * @param read - Whether the request only reads data, so it can be sent to any portal according to the selection strategy. Other requests prefer the portals in the configured order.
+   * @returns - The portal URLs.
+   */
+  order(read: boolean): string[] {
+    const now = Date.now();
+    const available = this.states.filter((state) => state.unhealthyUntil <= now);
+    const unavailable = this.states.filter((state) => state.unhealthyUntil > now);
+
+    let ordered = available;
+    if (read && available.length > 1) {
+      ordered = this.selection === "latency" ? this.orderByLatency(available) : this.rotate(available);
+    }
+    // Try the portals that failed recently last, the one that failed first first.
+    unavailable.sort((a, b) => a.unhealthyUntil - b.unhealthyUntil);
+    return [...ordered, ...unavailable].map((state) => state.url);
+  }
+
+  /**
+   * Records a successful request.
+   *
+   * @param url - The portal URL.
+   * @param [latency] - The response time in ms, if it reflects the latency of the portal.
+   */
+  reportSuccess(url: string, latency?: number): void {
+    const state = this.find(url);
+    if (!state) {
+      return;
+    }
+    state.healthy = true;
+    state.unhealthyUntil = 0;
+    if (latency !== undefined) {
+      state.latency =
+        state.latency === undefined ? latency : state.latency * (1 - LATENCY_SMOOTHING) + latency * LATENCY_SMOOTHING;
+    }
+  }
+
+  /**
+   * Records a request that failed because of the portal, so it is avoided
+   * for a while.
+   *
+   * @param url - The portal URL.
+   */
+  reportFailure(url: string): void {
+    const state = this.find(url);
+    if (!state) {
+      return;
+    }
+    state.healthy = false;
+    state.unhealthyUntil = Date.now() + this.cooldown;
+  }
+
+  /**
+   * Returns the state of a portal.
+   *
+   * @param url - The portal URL.
+   * @returns - The state, if the portal is part of the pool.
+   */
+  protected find(url: string): PortalState | undefined {
+    return this.states.find((state) => state.url === url);
+  }
+
+  /**
+   * Rotates the portals so every call starts with the next one.
+   *
+   * @param states - The available portals.
+   * @returns - The rotated portals.
+   */
+  protected rotate(states: PortalState[]): PortalState[] {
+    const start = this.nextIndex++ % states.length;
+    return [...states.slice(start), ...states.slice(0, start)];
+  }
+
+  /**
+   * Orders the portals randomly, picking each next portal with a probability
+   * inversely proportional to its latency. Portals without a measured
+   * latency are treated like the fastest one, so they get measured.
+   *
+   * @param states - The available portals.
+   * @returns - The ordered portals.
+   */
+  protected orderByLatency(states: PortalState[]): PortalState[] {
+    const known = states.filter((state) => state.latency !== undefined).map((state) => state.latency as number);
+    const fastest = known.length > 0 ? Math.min(...known) : 1;
+    const remaining = states.map((state) => ({ state, weight: 1 / Math.max(state.latency ?? fastest, 1) }));
+
+    const ordered: PortalState[] = [];
+    while (remaining.length > 0) {
+      let pick = Math.random() * remaining.reduce((sum, { weight }) => sum + weight, 0);
+      let index = 0;
+      while (index < remaining.length - 1 && pick >= remaining[index].weight) {
+        pick -= remaining[index].weight;
+        index++;
+      }
+      ordered.push(remaining[index].state);
+      remaining.splice(index, 1);
+    }
+    return ordered;
+  }
+}
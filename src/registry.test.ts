@@ -0,0 +1,169 @@
+import type { AxiosError, AxiosResponse } from "axios";
+
+import { createMockClient, registryHandler } from "../utils/testing";
+import { S5Client } from "./client";
+import { registryMaxDataSize } from "./constants";
+import { encodePublicKey, genKeyPairFromSeed, KeyPair } from "./crypto";
+import { ExecuteRequestError, IntegrityError } from "./errors";
+import { signRegistryEntry, verifyRegistryEntry } from "./registry";
+import { encodeBase64Url } from "./utils/encoding";
+
+const data = new TextEncoder().encode("registry data");
+
+let keyPair: KeyPair;
+beforeAll(async () => {
+  keyPair = await genKeyPairFromSeed(new Uint8Array(32).fill(7));
+});
+
+describe("signRegistryEntry", () => {
+  it("should sign entries that verify", async () => {
+    const entry = await signRegistryEntry(keyPair, data, 3);
+
+    expect(entry.publicKey).toEqual(keyPair.publicKey);
+    expect(entry.revision).toEqual(3);
+    expect(entry.signature).toHaveLength(64);
+    await expect(verifyRegistryEntry(entry)).resolves.toBe(true);
+  });
+
+  it("should reject data that is too large", async () => {
+    await expect(signRegistryEntry(keyPair, new Uint8Array(registryMaxDataSize + 1), 0)).rejects.toThrow();
+  });
+
+  it.each([-1, 1.5, 2 ** 53])("should reject the revision %s", async (revision) => {
+    await expect(signRegistryEntry(keyPair, data, revision)).rejects.toThrow();
+  });
+});
+
+describe("verifyRegistryEntry", () => {
+  it("should reject entries with changed data", async () => {
+    const entry = await signRegistryEntry(keyPair, data, 3);
+    const tampered = data.slice();
+    tampered[0] ^= 1;
+
+    await expect(verifyRegistryEntry({ ...entry, data: tampered })).resolves.toBe(false);
+  });
+
+  it("should reject entries with a changed revision", async () => {
+    const entry = await signRegistryEntry(keyPair, data, 3);
+
+    await expect(verifyRegistryEntry({ ...entry, revision: 4 })).resolves.toBe(false);
+  });
+
+  it("should reject entries signed by another key", async () => {
+    const entry = await signRegistryEntry(keyPair, data, 3);
+    const otherKeyPair = await genKeyPairFromSeed(new Uint8Array(32).fill(8));
+
+    await expect(verifyRegistryEntry({ ...entry, publicKey: otherKeyPair.publicKey })).resolves.toBe(false);
+  });
+});
+
+describe("getRegistryEntry", () => {
+  const client = new S5Client("https://s5.example");
+  const pk = () => encodeBase64Url(encodePublicKey(keyPair.publicKey));
+
+  const respond = (json: unknown) =>
+    jest.spyOn(client, "executeRequest").mockResolvedValue({ data: json } as AxiosResponse);
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should return entries signed by the public key", async () => {
+    const entry = await signRegistryEntry(keyPair, data, 3);
+    respond({
+      pk: pk(),
+      revision: 3,
+      data: encodeBase64Url(data),
+      signature: encodeBase64Url(entry.signature),
+    });
+
+    await expect(client.getRegistryEntry(keyPair.publicKey)).resolves.toEqual(entry);
+  });
+
+  it("should reject entries with an invalid signature", async () => {
+    const entry = await signRegistryEntry(keyPair, data, 3);
+    respond({
+      pk: pk(),
+      revision: 4,
+      data: encodeBase64Url(data),
+      signature: encodeBase64Url(entry.signature),
+    });
+
+    await expect(client.getRegistryEntry(keyPair.publicKey)).rejects.toThrow(IntegrityError);
+  });
+
+  it("should reject entries of another public key", async () => {
+    const otherKeyPair = await genKeyPairFromSeed(new Uint8Array(32).fill(8));
+    const entry = await signRegistryEntry(otherKeyPair, data, 3);
+    respond({
+      pk: encodeBase64Url(encodePublicKey(otherKeyPair.publicKey)),
+      revision: 3,
+      data: encodeBase64Url(data),
+      signature: encodeBase64Url(entry.signature),
+    });
+
+    await expect(client.getRegistryEntry(keyPair.publicKey)).rejects.toThrow(IntegrityError);
+  });
+
+  it("should return null if there is no entry", async () => {
+    const notFound = { isAxiosError: true, config: {}, response: { status: 404, data: {}, headers: {} } };
+    jest.spyOn(client, "executeRequest").mockRejectedValue(ExecuteRequestError.From(notFound as AxiosError));
+
+    await expect(client.getRegistryEntry(keyPair.publicKey)).resolves.toBeNull();
+  });
+});
+
+describe("getRegistryEntry errors", () => {
+  it("should throw other errors of the portal", async () => {
+    const { client } = createMockClient(() => ({ status: 400 }));
+
+    await expect(client.getRegistryEntry(keyPair.publicKey)).rejects.toThrow(ExecuteRequestError);
+  });
+
+  it("should reject empty responses", async () => {
+    const { client } = createMockClient(() => ({ data: "" }));
+
+    await expect(client.getRegistryEntry(keyPair.publicKey)).rejects.toThrow("for a different public key");
+  });
+
+  it("should reject entries with too much data", async () => {
+    const entry = await signRegistryEntry(keyPair, data, 0);
+
+    await expect(verifyRegistryEntry({ ...entry, data: new Uint8Array(registryMaxDataSize + 1) })).resolves.toBe(false);
+  });
+});
+
+describe("setRegistryEntry", () => {
+  it("should publish the next revision of an entry", async () => {
+    const current = await signRegistryEntry(keyPair, data, 3);
+    const { client, request } = createMockClient(registryHandler([current]));
+
+    const entry = await client.setRegistryEntry(keyPair, new Uint8Array([1, 2]));
+
+    expect(entry.revision).toEqual(4);
+    await expect(verifyRegistryEntry(entry)).resolves.toBe(true);
+    expect(request.mock.calls[1][0]).toMatchObject({
+      method: "post",
+      url: "https://s5.example/s5/registry",
+      data: {
+        pk: encodeBase64Url(encodePublicKey(keyPair.publicKey)),
+        revision: 4,
+        data: encodeBase64Url(new Uint8Array([1, 2])),
+        signature: encodeBase64Url(entry.signature),
+      },
+    });
+  });
+
+  it("should publish the first revision of a new entry", async () => {
+    const { client } = createMockClient(registryHandler([]));
+
+    await expect(client.setRegistryEntry(keyPair, data)).resolves.toMatchObject({ revision: 0 });
+  });
+
+  it("should publish the given revision without requesting the current one", async () => {
+    const { client, request } = createMockClient();
+
+    await expect(client.setRegistryEntry(keyPair, data, { revision: 9 })).resolves.toMatchObject({ revision: 9 });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,220 @@
+import { S5Client } from "./client";
+import { decodePublicKey, encodePublicKey, KeyPair, sign, verify } from "./crypto";
+import { recordTypeRegistryEntry, registryMaxDataSize } from "./constants";
+import { IntegrityError, NotFoundError } from "./errors";
+import { decodeBase64Url, encodeBase64Url, encodeEndian } from "./utils/encoding";
+import { BaseCustomOptions, DEFAULT_BASE_OPTIONS, pickBaseOptions } from "./utils/options";
+import { throwValidationError } from "./utils/validation";
+
+/**
+ * Custom registry options.
+ *
+ * @property [endpointRegistry] - The relative URL path of the portal endpoint to contact.
+ */
+export type CustomRegistryOptions = BaseCustomOptions & {
+  endpointRegistry?: string;
+};
+
+/**
+ * Custom options for setting registry entries.
+ *
+ * @property [revision] - The revision of the new entry. Defaults to the revision of the current entry plus one, or 0 if there is no entry yet.
+ */
+export type CustomSetRegistryEntryOptions = CustomRegistryOptions & {
+  revision?: number;
+};
+
+/**
+ * A signed registry entry.
+ *
+ * @property publicKey - The 32-byte Ed25519 public key of the entry.
+ * @property revision - The revision number. Portals only accept entries with a higher revision than the stored one.
+ * @property data - The data of the entry, at most `registryMaxDataSize` bytes.
+ * @property signature - The 64-byte signature over the revision and data.
+ */
+export type RegistryEntry = {
+  publicKey: Uint8Array;
+  revision: number;
+  data: Uint8Array;
+  signature: Uint8Array;
+};
+
+/**
+ * The JSON representation of a registry entry used by the portal API. All
+ * byte fields are base64url-encoded.
+ */
+type RegistryEntryJson = {
+  pk: string;
+  revision: number;
+  data: string;
+  signature: string;
+};
+
+export const DEFAULT_REGISTRY_OPTIONS = {
+  ...DEFAULT_BASE_OPTIONS,
+  endpointRegistry: "/s5/registry",
+};
+
+/**
+ * Gets the current registry entry for the given public key. The signature of
+ * the returned entry is verified.
+ *
+ * @param this - S5Client
+ * @param publicKey - The 32-byte Ed25519 public key.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.endpointRegistry="/s5/registry"] - The relative URL path of the portal endpoint to contact.
+ * @returns - The registry entry, or null if no entry exists.
+ * @throws - Will throw an `IntegrityError` if the returned entry is not validly signed by the public key.
+ */
+export async function getRegistryEntry(
+  this: S5Client,
+  publicKey: Uint8Array,
+  customOptions?: CustomRegistryOptions
+): Promise<RegistryEntry | null> {
+  try {
+    return await requestRegistryEntry(this, publicKey, customOptions);
+  } catch (e) {
+    if (e instanceof NotFoundError) {
+      return null;
+    }
+    throw e;
+  }
+}
+
+/**
+ * Requests the current registry entry for the given public key and verifies
+ * its signature. Only the registry and base options are sent, so options of
+ * the calling method, e.g. of a download, don't apply to the request.
+ *
+ * @param client - The S5 client.
+ * @param publicKey - The 32-byte Ed25519 public key.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @returns - The registry entry.
+ * @throws - Will throw a `NotFoundError` if no entry exists.
+ * @throws - Will throw an `IntegrityError` if the returned entry is not validly signed by the public key.
+ */
+export async function requestRegistryEntry(
+  client: S5Client,
+  publicKey: Uint8Array,
+  customOptions?: CustomRegistryOptions
+): Promise<RegistryEntry> {
+  const opts = { ...DEFAULT_REGISTRY_OPTIONS, ...client.customOptions, ...customOptions };
+
+  const pk = encodeBase64Url(encodePublicKey(publicKey));
+
+  const response = await client.executeRequest({
+    ...pickBaseOptions(opts),
+    endpointPath: opts.endpointRegistry,
+    method: "get",
+    query: { pk },
+  });
+
+  const json = response.data as RegistryEntryJson;
+  if (!json || json.pk !== pk) {
+    throw new IntegrityError(`Portal returned a registry entry for a different public key`, pk, json ? json.pk : "");
+  }
+
+  const entry = {
+    publicKey: decodePublicKey(decodeBase64Url(json.pk)),
+    revision: json.revision,
+    data: decodeBase64Url(json.data),
+    signature: decodeBase64Url(json.signature),
+  };
+  if (!(await verifyRegistryEntry(entry))) {
+    throw new IntegrityError(`Portal returned a registry entry with an invalid signature`, pk, json.signature);
+  }
+  return entry;
+}
+
+/**
+ * Signs and publishes a registry entry.
+ *
+ * @param this - S5Client
+ * @param keyPair - The key pair of the entry.
+ * @param data - The data to store, at most `registryMaxDataSize` bytes.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.endpointRegistry="/s5/registry"] - The relative URL path of the portal endpoint to contact.
+ * @returns - The published entry.
+ * @throws - Will throw if the data is too large.
+ */
+export async function setRegistryEntry(
+  this: S5Client,
+  keyPair: KeyPair,
+  data: Uint8Array,
+  customOptions?: CustomSetRegistryEntryOptions
+): Promise<RegistryEntry> {
+  const opts = { ...DEFAULT_REGISTRY_OPTIONS, ...this.customOptions, ...customOptions };
+
+  let revision = opts.revision;
+  if (revision === undefined) {
+    const current = await this.getRegistryEntry(keyPair.publicKey, opts);
+    revision = current ? current.revision + 1 : 0;
+  }
+
+  const entry = await signRegistryEntry(keyPair, data, revision);
+
+  const json: RegistryEntryJson = {
+    pk: encodeBase64Url(encodePublicKey(entry.publicKey)),
+    revision: entry.revision,
+    data: encodeBase64Url(entry.data),
+    signature: encodeBase64Url(entry.signature),
+  };
+  await this.executeRequest({
+    ...pickBaseOptions(opts),
+    endpointPath: opts.endpointRegistry,
+    method: "post",
+    data: json,
+  });
+
+  return entry;
+}
+
+/**
+ * Creates a signed registry entry without publishing it.
+ *
+ * @param keyPair - The key pair of the entry.
+ * @param data - The data to store, at most `registryMaxDataSize` bytes.
+ * @param revision - The revision number.
+ * @returns - The signed entry.
+ * @throws - Will throw if the data is too large or the revision is not a valid integer.
+ */
+export async function signRegistryEntry(keyPair: KeyPair, data: Uint8Array, revision: number): Promise<RegistryEntry> {
+  if (data.length > registryMaxDataSize) {
+    throwValidationError("data.length", data.length, "parameter", `at most ${registryMaxDataSize} bytes`);
+  }
+  if (!Number.isSafeInteger(revision) || revision < 0) {
+    throwValidationError("revision", revision, "parameter", "a non-negative integer");
+  }
+
+  const signature = await sign(registryEntrySignedBytes(revision, data), keyPair);
+  return { publicKey: keyPair.publicKey, revision, data, signature };
+}
+
+/**
+ * Verifies the signature of a registry entry.
+ *
+ * @param entry - The registry entry.
+ * @returns - Whether the entry is validly signed by its public key.
+ */
+export async function verifyRegistryEntry(entry: RegistryEntry): Promise<boolean> {
+  if (entry.data.length > registryMaxDataSize) {
+    return false;
+  }
+  return verify(registryEntrySignedBytes(entry.revision, entry.data), entry.signature, entry.publicKey);
+}
+
+/**
+ * Returns the bytes of a registry entry that are covered by its signature.
+ *
+ * @param revision - The revision number.
+ * @param data - The entry data.
+ * @returns - The bytes to sign.
+ */
+function registryEntrySignedBytes(revision: number, data: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(1 + 8 + 1 + data.length);
+  bytes[0] = recordTypeRegistryEntry;
+  bytes.set(encodeEndian(revision, 8), 1);
+  bytes[9] = data.length;
+  bytes.set(data, 10);
+  return bytes;
+}
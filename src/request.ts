@@ -1,8 +1,8 @@
-import { AxiosError, AxiosRequestConfig, AxiosResponse } from "axios";
-
 import { S5Client } from "./client";
 import { addUrlQuery, addUrlSubdomain, ensureUrlPrefix, makeUrl } from "./utils/url";
 
+export { ExecuteRequestError } from "./errors";
+
 export type Headers = { [key: string]: string };
 
 /**
@@ -12,13 +12,15 @@ export type Headers = { [key: string]: string };
  * @param [customUserAgent] - A custom user agent to set.
  * @param [customCookie] - A custom cookie.
  * @param [s5ApiKey] - Authentication key to use for a S5 portal.
+ * @param [authToken] - The session token of a portal account.
  * @returns - The built headers.
  */
 export function buildRequestHeaders(
   baseHeaders?: Headers,
   customUserAgent?: string,
   customCookie?: string,
-  s5ApiKey?: string
+  s5ApiKey?: string,
+  authToken?: string
 ): Headers {
   const returnHeaders = { ...baseHeaders };
   // Set some headers from common options.
@@ -31,6 +33,9 @@ export function buildRequestHeaders(
   if (s5ApiKey) {
     returnHeaders["S5-Api-Key"] = s5ApiKey;
   }
+  if (authToken) {
+    returnHeaders["Authorization"] = `Bearer ${authToken}`;
+  }
   return returnHeaders;
 }
 
@@ -84,118 +89,3 @@ export async function buildRequestUrl(
 
   return url;
 }
-
-/**
- * The error type returned by the SDK whenever it makes a network request
- * (internally, this happens in `executeRequest`). It implements, so is
- * compatible with, `AxiosError`.
- */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export class ExecuteRequestError<T = any, D = any> extends Error implements AxiosError {
-  originalError: AxiosError;
-  responseStatus: number | null;
-  responseMessage: string | null;
-
-  // Properties required by `AxiosError`.
-
-  config: AxiosRequestConfig<D>;
-  code?: string;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  request?: any;
-  response?: AxiosResponse<T, D>;
-  isAxiosError: boolean;
-  // eslint-disable-next-line @typescript-eslint/ban-types
-  toJSON: () => object;
-
-  /**
-   * Creates an `ExecuteRequestError`.
-   *
-   * @param message - The error message.
-   * @param axiosError - The original Axios error.
-   * @param responseStatus - The response status, if found in the original error.
-   * @param responseMessage - The response message, if found in the original error.
-   */
-  constructor(
-    message: string,
-    axiosError: AxiosError<T, D>,
-    responseStatus: number | null,
-    responseMessage: string | null
-  ) {
-    // Include this check since `ExecuteRequestError` implements `AxiosError`,
-    // but we only expect original errors from Axios here. Anything else
-    // indicates a likely developer/logic bug.
-    if (axiosError instanceof ExecuteRequestError) {
-      throw new Error(
-        "Could not instantiate an `ExecuteRequestError` from an `ExecuteRequestError`, an original error from axios was expected"
-      );
-    }
-
-    // Set `Error` fields.
-    super(message);
-    this.name = "ExecuteRequestError";
-
-    // Set `ExecuteRequestError` fields.
-    this.originalError = axiosError;
-    this.responseStatus = responseStatus;
-    this.responseMessage = responseMessage;
-
-    // Set properties required by `AxiosError`.
-    //
-    // NOTE: `Object.assign` doesn't work because Typescript can't detect that
-    // required fields are set in this constructor.
-    this.config = axiosError.config;
-    this.code = axiosError.code;
-    this.request = axiosError.request;
-    this.response = axiosError.response;
-    this.isAxiosError = axiosError.isAxiosError;
-    this.toJSON = axiosError.toJSON;
-
-    // Required for `instanceof` to work.
-    Object.setPrototypeOf(this, ExecuteRequestError.prototype);
-  }
-
-  /**
-   * Gets the full, descriptive error response returned from skyd on the portal.
-   *
-   * @param err - The Axios error.
-   * @returns - A new error if the error response is malformed, or the skyd error message otherwise.
-   */
-  static From(
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    err: AxiosError<any, any>
-  ): ExecuteRequestError {
-    /* istanbul ignore next */
-    if (!err.response) {
-      return new ExecuteRequestError(`Error response did not contain expected field 'response'.`, err, null, null);
-    }
-    /* istanbul ignore next */
-    if (!err.response.status) {
-      return new ExecuteRequestError(
-        `Error response did not contain expected field 'response.status'.`,
-        err,
-        null,
-        null
-      );
-    }
-
-    const status = err.response.status;
-
-    // If we don't get an error message from skyd, just return the status code.
-    /* istanbul ignore next */
-    if (!err.response.data) {
-      return new ExecuteRequestError(`Request failed with status code ${status}`, err, status, null);
-    }
-    /* istanbul ignore next */
-    if (!err.response.data.message) {
-      return new ExecuteRequestError(`Request failed with status code ${status}`, err, status, null);
-    }
-
-    // Return the error message from skyd. Pass along the original Axios error.
-    return new ExecuteRequestError(
-      `Request failed with status code ${err.response.status}: ${err.response.data.message}`,
-      err,
-      status,
-      err.response.data.message
-    );
-  }
-}
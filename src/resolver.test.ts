@@ -0,0 +1,133 @@
+import { createMockClient, rawCid, registryHandler, requestPath } from "../utils/testing";
+import { CID } from "./cid";
+import { registryS5MagicByte } from "./constants";
+import { genKeyPairFromSeed, KeyPair } from "./crypto";
+import { IntegrityError, NotFoundError } from "./errors";
+import { RegistryEntry, signRegistryEntry } from "./registry";
+import { createResolverCid } from "./resolver";
+import { decodeBase64Url } from "./utils/encoding";
+
+const content = new Uint8Array(100).map((_, i) => i);
+
+/**
+ * Creates a key pair from a seed filled with the given byte.
+ *
+ * @param byte - The seed byte.
+ * @returns - The key pair.
+ */
+function createKeyPair(byte: number): Promise<KeyPair> {
+  return genKeyPairFromSeed(new Uint8Array(32).fill(byte));
+}
+
+/**
+ * Creates the registry entry of a resolver pointing at the given CID.
+ *
+ * @param keyPair - The key pair of the resolver.
+ * @param target - The CID to point at.
+ * @returns - The signed entry.
+ */
+function resolverEntry(keyPair: KeyPair, target: CID): Promise<RegistryEntry> {
+  return signRegistryEntry(keyPair, new Uint8Array([registryS5MagicByte, ...target.toBytes()]), 0);
+}
+
+describe("resolveCid", () => {
+  it("should throw a NotFoundError for resolvers without an entry", async () => {
+    const { client } = createMockClient(registryHandler([]));
+    const resolverCid = createResolverCid((await createKeyPair(1)).publicKey);
+
+    await expect(client.resolveCid(resolverCid)).rejects.toThrow(NotFoundError);
+    await expect(client.resolveCid(resolverCid)).rejects.toThrow("No registry entry found");
+  });
+
+  it("should throw an IntegrityError for resolver loops", async () => {
+    const keyPairs = [await createKeyPair(1), await createKeyPair(2)];
+    const [first, second] = keyPairs.map(({ publicKey }) => createResolverCid(publicKey));
+    const entries = [await resolverEntry(keyPairs[0], second), await resolverEntry(keyPairs[1], first)];
+    const { client, request } = createMockClient(registryHandler(entries));
+
+    await expect(client.resolveCid(first)).rejects.toThrow(IntegrityError);
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it("should throw an IntegrityError after too many hops", async () => {
+    const keyPairs = [await createKeyPair(1), await createKeyPair(2)];
+    const [first, second] = keyPairs.map(({ publicKey }) => createResolverCid(publicKey));
+    const target = CID.decode(await rawCid(content));
+    const entries = [await resolverEntry(keyPairs[0], second), await resolverEntry(keyPairs[1], target)];
+    const { client } = createMockClient(registryHandler(entries));
+
+    await expect(client.resolveCid(first, { maxResolverHops: 1 })).rejects.toThrow(IntegrityError);
+    await expect(client.resolveCid(first, { maxResolverHops: 2 })).resolves.toEqual(target);
+  });
+
+  it.each([
+    ["other data", new Uint8Array([1, 2, 3])],
+    ["an invalid CID", new Uint8Array([registryS5MagicByte, 0xff])],
+  ])("should throw an IntegrityError for entries containing %s", async (_, data) => {
+    const keyPair = await createKeyPair(1);
+    const { client } = createMockClient(registryHandler([await signRegistryEntry(keyPair, data, 0)]));
+
+    await expect(client.resolveCid(createResolverCid(keyPair.publicKey))).rejects.toThrow(IntegrityError);
+  });
+
+  it("should not send the download options of the caller to the registry", async () => {
+    const keyPair = await createKeyPair(1);
+    const cid = await rawCid(content);
+    const entries = [await resolverEntry(keyPair, CID.decode(cid))];
+    const onDownloadProgress = jest.fn();
+    const { client, request } = createMockClient(registryHandler(entries, () => ({ data: content.buffer })));
+
+    const stream = await client.downloadStream(createResolverCid(keyPair.publicKey).toBase64Url(), {
+      range: "bytes=0-9",
+      subdomain: true,
+      onDownloadProgress,
+      customUserAgent: "agent",
+    });
+    await stream.getReader().read();
+
+    const [registryRequest] = request.mock.calls.map(([config]) => config);
+    expect(requestPath(registryRequest)).toEqual("/s5/registry");
+    expect(new URL(registryRequest.url as string).hostname).toEqual("s5.example");
+    expect(registryRequest.headers).toEqual({ "User-Agent": "agent" });
+    expect(registryRequest.onDownloadProgress).toBeUndefined();
+  });
+});
+
+describe("downloads", () => {
+  it("should download the content a resolver cid points at", async () => {
+    const keyPair = await createKeyPair(1);
+    const cid = await rawCid(content);
+    const entries = [await resolverEntry(keyPair, CID.decode(cid))];
+    const { client, request } = createMockClient(registryHandler(entries, () => ({ data: content.buffer })));
+
+    await expect(client.downloadData(createResolverCid(keyPair.publicKey).toBase64Url())).resolves.toEqual(content);
+    expect(requestPath(request.mock.calls[1][0])).toEqual(`/${cid}`);
+  });
+});
+
+describe("updateResolver", () => {
+  it("should publish the next revision of the resolver pointing at the target", async () => {
+    const keyPair = await createKeyPair(1);
+    const target = CID.decode(await rawCid(content));
+    const entries = [await resolverEntry(keyPair, CID.decode(await rawCid(content.subarray(1))))];
+    const { client, request } = createMockClient(
+      registryHandler(entries, (config) => {
+        const json = config.data as { revision: number; data: string; signature: string };
+        entries[0] = {
+          ...entries[0],
+          revision: json.revision,
+          data: decodeBase64Url(json.data),
+          signature: decodeBase64Url(json.signature),
+        };
+      })
+    );
+
+    const resolverCid = await client.updateResolver(keyPair, target.toBase64Url());
+    await client.updateResolver(keyPair, target);
+
+    expect(resolverCid).toEqual(createResolverCid(keyPair.publicKey));
+    expect(entries[0].revision).toEqual(2);
+    expect(request.mock.calls.filter(([config]) => config.method === "post")).toHaveLength(2);
+    await expect(client.resolveCid(resolverCid)).resolves.toEqual(target);
+  });
+});
@@ -0,0 +1,136 @@
+import { S5Client } from "./client";
+import { CID } from "./cid";
+import { cidTypeResolver, registryS5MagicByte } from "./constants";
+import { decodePublicKey, encodePublicKey, KeyPair } from "./crypto";
+import { IntegrityError, NotFoundError } from "./errors";
+import { CustomRegistryOptions, DEFAULT_REGISTRY_OPTIONS, RegistryEntry, requestRegistryEntry } from "./registry";
+import { encodeBase64Url } from "./utils/encoding";
+import { pickBaseOptions } from "./utils/options";
+
+/**
+ * Custom options for resolving resolver CIDs.
+ *
+ * @property [maxResolverHops=8] - The maximum number of resolver CIDs to follow before giving up, to avoid loops.
+ */
+export type CustomResolveOptions = CustomRegistryOptions & {
+  maxResolverHops?: number;
+};
+
+export const DEFAULT_RESOLVE_OPTIONS = {
+  ...DEFAULT_REGISTRY_OPTIONS,
+  maxResolverHops: 8,
+};
+
+/**
+ * Creates the resolver CID that points at the registry entry of the given
+ * public key.
+ *
+ * @param publicKey - The 32-byte Ed25519 public key.
+ * @returns - The resolver CID.
+ */
+export function createResolverCid(publicKey: Uint8Array): CID {
+  return new CID(cidTypeResolver, encodePublicKey(publicKey));
+}
+
+/**
+ * Points the resolver CID of the given key pair at a new target CID by
+ * publishing a registry entry with the next revision.
+ *
+ * @param this - S5Client
+ * @param keyPair - The key pair of the resolver.
+ * @param targetCid - The CID to point at, in any supported encoding.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.endpointRegistry="/s5/registry"] - The relative URL path of the portal endpoint to contact.
+ * @returns - The resolver CID.
+ * @throws - Will throw if the target CID is invalid.
+ */
+export async function updateResolver(
+  this: S5Client,
+  keyPair: KeyPair,
+  targetCid: string | CID,
+  customOptions?: CustomRegistryOptions
+): Promise<CID> {
+  const opts = { ...DEFAULT_REGISTRY_OPTIONS, ...this.customOptions, ...customOptions };
+
+  const target = typeof targetCid === "string" ? CID.decode(targetCid) : targetCid;
+  const cidBytes = target.toBytes();
+
+  const data = new Uint8Array(1 + cidBytes.length);
+  data[0] = registryS5MagicByte;
+  data.set(cidBytes, 1);
+  await this.setRegistryEntry(keyPair, data, opts);
+
+  return createResolverCid(keyPair.publicKey);
+}
+
+/**
+ * Follows resolver CIDs until a non-resolver CID is reached. Other CIDs are
+ * returned as they are. Only the registry and base options apply to the
+ * registry requests.
+ *
+ * @param this - S5Client
+ * @param cid - The CID to resolve, in any supported encoding.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.maxResolverHops=8] - The maximum number of resolver CIDs to follow.
+ * @returns - The final CID.
+ * @throws - Will throw a `NotFoundError` if a registry entry is missing.
+ * @throws - Will throw an `IntegrityError` if a registry entry does not contain a CID, the resolver CIDs form a loop or too many hops were needed.
+ */
+export async function resolveCid(
+  this: S5Client,
+  cid: string | CID,
+  customOptions?: CustomResolveOptions
+): Promise<CID> {
+  const opts = { ...DEFAULT_RESOLVE_OPTIONS, ...this.customOptions, ...customOptions };
+  const registryOpts = { ...pickBaseOptions(opts), endpointRegistry: opts.endpointRegistry };
+
+  let current = typeof cid === "string" ? CID.decode(cid) : cid;
+  const seen = new Set<string>();
+
+  while (current.isResolver) {
+    const encoded = current.toBase64Url();
+    if (seen.has(encoded)) {
+      throw new IntegrityError(`Resolver loop detected at '${encoded}'`, "", encoded);
+    }
+    if (seen.size >= opts.maxResolverHops) {
+      throw new IntegrityError(
+        `Could not resolve '${cid}' within ${opts.maxResolverHops} hops`,
+        `${opts.maxResolverHops}`,
+        `${seen.size + 1}`
+      );
+    }
+    seen.add(encoded);
+
+    let entry;
+    try {
+      entry = await requestRegistryEntry(this, decodePublicKey(current.hash), registryOpts);
+    } catch (e) {
+      if (e instanceof NotFoundError) {
+        e.message = `No registry entry found for resolver '${encoded}'`;
+      }
+      throw e;
+    }
+    current = cidFromRegistryEntry(entry);
+  }
+
+  return current;
+}
+
+/**
+ * Extracts the CID stored in a registry entry.
+ *
+ * @param entry - The registry entry.
+ * @returns - The CID.
+ * @throws - Will throw an `IntegrityError` if the entry does not contain an S5 CID.
+ */
+function cidFromRegistryEntry(entry: RegistryEntry): CID {
+  const actual = encodeBase64Url(entry.data);
+  if (entry.data[0] !== registryS5MagicByte) {
+    throw new IntegrityError(`Registry entry does not contain an S5 CID`, "", actual);
+  }
+  try {
+    return CID.fromBytes(entry.data.subarray(1));
+  } catch (e) {
+    throw new IntegrityError(`Registry entry contains an invalid CID: ${(e as Error).message}`, "", actual);
+  }
+}
@@ -0,0 +1,143 @@
+import type { AxiosError } from "axios";
+
+import { createMockClient } from "../utils/testing";
+import { ExecuteRequestError } from "./errors";
+import { DEFAULT_RETRY_POLICY, getRetryDelay } from "./retry";
+
+const policy = { ...DEFAULT_RETRY_POLICY, jitter: false };
+
+/**
+ * Creates an axios error as it is thrown for failed requests.
+ *
+ * @param status - The response status, or null if there was no response.
+ * @param [headers] - The response headers.
+ * @returns - The axios error.
+ */
+function createAxiosError(status: number | null, headers: Record<string, string> = {}): AxiosError {
+  const error = {
+    isAxiosError: true,
+    message: "Request failed",
+    config: {},
+    request: {},
+    response: status === null ? undefined : { status, data: {}, headers },
+  };
+  return error as unknown as AxiosError;
+}
+
+describe("getRetryDelay", () => {
+  it("should back off exponentially up to the maximum delay", () => {
+    const error = ExecuteRequestError.From(createAxiosError(503));
+    const longPolicy = { ...policy, maxAttempts: 10, maxDelay: 3000 };
+
+    expect([1, 2, 3, 4, 5].map((attempt) => getRetryDelay(longPolicy, error, attempt))).toEqual([
+      500, 1000, 2000, 3000, 3000,
+    ]);
+  });
+
+  it("should stop after the maximum number of attempts", () => {
+    const error = ExecuteRequestError.From(createAxiosError(503));
+
+    expect(getRetryDelay(policy, error, 2)).not.toBeNull();
+    expect(getRetryDelay(policy, error, 3)).toBeNull();
+  });
+
+  it("should randomize delays with jitter", () => {
+    const error = ExecuteRequestError.From(createAxiosError(503));
+    jest.spyOn(Math, "random").mockReturnValue(0.5);
+    try {
+      expect(getRetryDelay({ ...policy, jitter: true }, error, 2)).toEqual(750);
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  it.each([400, 401, 404])("should not retry status %s", (status) => {
+    expect(getRetryDelay(policy, ExecuteRequestError.From(createAxiosError(status)), 1)).toBeNull();
+  });
+
+  it("should not retry errors other than S5 errors", () => {
+    expect(getRetryDelay(policy, new Error("bug"), 1)).toBeNull();
+  });
+
+  it("should only retry non-idempotent requests if allowed", () => {
+    const error = ExecuteRequestError.From(createAxiosError(null));
+
+    expect(getRetryDelay(policy, error, 1, "post")).toBeNull();
+    expect(getRetryDelay({ ...policy, retryNonIdempotent: true }, error, 1, "post")).toEqual(500);
+    expect(getRetryDelay(policy, error, 1, "PUT")).toEqual(500);
+  });
+
+  it("should always retry rate limited requests", () => {
+    const error = ExecuteRequestError.From(createAxiosError(429));
+
+    expect(getRetryDelay(policy, error, 1, "post")).toEqual(500);
+  });
+
+  it("should wait at least as long as Retry-After asks", () => {
+    const error = ExecuteRequestError.From(createAxiosError(429, { "retry-after": "2" }));
+
+    expect(getRetryDelay(policy, error, 1)).toEqual(2000);
+  });
+
+  it("should not retry if Retry-After asks for more than the maximum delay", () => {
+    const error = ExecuteRequestError.From(createAxiosError(503, { "retry-after": "60" }));
+
+    expect(getRetryDelay(policy, error, 1)).toBeNull();
+  });
+});
+
+describe("executeRequest", () => {
+  const retryPolicy = { baseDelay: 1, jitter: false };
+
+  /**
+   * Creates a client whose portal answers with the given statuses in turn.
+   *
+   * @param statuses - The response statuses, null for network errors.
+   * @returns - The client and the mocked adapter.
+   */
+  function createClient(statuses: (number | null)[]) {
+    return createMockClient(
+      () => {
+        const status = statuses.shift();
+        return status === undefined ? { data: { ok: true } } : { status, data: { ok: true } };
+      },
+      { retryPolicy }
+    );
+  }
+
+  it("should retry failed requests", async () => {
+    const { client, request } = createClient([503, null, 200]);
+
+    const response = await client.executeRequest({ endpointPath: "/s5/blob", method: "get" });
+
+    expect(response.data).toEqual({ ok: true });
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it("should throw the last error once all attempts failed", async () => {
+    const { client, request } = createClient([503, 503, 502, 200]);
+
+    await expect(client.executeRequest({ endpointPath: "/s5/blob", method: "get" })).rejects.toMatchObject({
+      responseStatus: 502,
+    });
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not retry POST requests by default", async () => {
+    const { client, request } = createClient([503, 200]);
+
+    await expect(client.executeRequest({ endpointPath: "/s5/upload", method: "post" })).rejects.toThrow(
+      ExecuteRequestError
+    );
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not retry requests that turn retries off", async () => {
+    const { client, request } = createClient([503, 200]);
+
+    await expect(
+      client.executeRequest({ endpointPath: "/s5/blob", method: "get", retryPolicy: undefined })
+    ).rejects.toThrow(ExecuteRequestError);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,73 @@
+import { ExecuteRequestError, RateLimitError, S5Error } from "./errors";
+
+/**
+ * When and how often failed requests are retried.
+ *
+ * @property [maxAttempts=3] - The maximum number of attempts, including the first one.
+ * @property [baseDelay=500] - The delay before the first retry, in ms. It doubles with every retry.
+ * @property [maxDelay=30000] - The maximum delay between attempts, in ms. Requests whose `Retry-After` header asks for a longer wait are not retried.
+ * @property [jitter=true] - Whether to randomize the delays, so clients that failed at the same time don't retry at the same time.
+ * @property [retryNonIdempotent=false] - Whether to also retry POST and PATCH requests, which may then be processed twice. Rate limited requests are always retried.
+ */
+export type RetryPolicy = {
+  maxAttempts?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  jitter?: boolean;
+  retryNonIdempotent?: boolean;
+};
+
+/**
+ * The default retry policy, used for the fields missing from the `retryPolicy` option.
+ */
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 30_000,
+  jitter: true,
+  retryNonIdempotent: false,
+};
+
+/**
+ * The methods that have the same effect however often a request is sent.
+ */
+const IDEMPOTENT_METHODS = ["get", "head", "options", "put", "delete"];
+
+/**
+ * Returns how long to wait before retrying a failed request, or null if it
+ * should not be retried.
+ *
+ * @param policy - The retry policy.
+ * @param error - The error of the failed attempt.
+ * @param attempt - The number of the failed attempt, starting at 1.
+ * @param [method="get"] - The request method.
+ * @returns - The delay in ms, or null.
+ */
+export function getRetryDelay(
+  policy: Required<RetryPolicy>,
+  error: unknown,
+  attempt: number,
+  method = "get"
+): number | null {
+  if (attempt >= policy.maxAttempts || !(error instanceof S5Error) || !error.isRetryable) {
+    return null;
+  }
+  // A rate limited request was not processed, so it is safe to send again.
+  const rateLimited = error instanceof RateLimitError;
+  if (!rateLimited && !policy.retryNonIdempotent && !IDEMPOTENT_METHODS.includes(method.toLowerCase())) {
+    return null;
+  }
+
+  let delay = Math.min(policy.baseDelay * 2 ** (attempt - 1), policy.maxDelay);
+  if (policy.jitter) {
+    delay = delay / 2 + (Math.random() * delay) / 2;
+  }
+
+  if (error instanceof ExecuteRequestError && error.retryAfter !== undefined) {
+    if (error.retryAfter > policy.maxDelay) {
+      return null;
+    }
+    delay = Math.max(delay, error.retryAfter);
+  }
+  return delay;
+}
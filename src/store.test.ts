@@ -0,0 +1,134 @@
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { PreviousUpload } from "tus-js-client";
+
+import { FileUploadStore, LocalStorageUploadStore, MemoryUploadStore, UploadStore } from "./store";
+
+/**
+ * Creates the state of an upload.
+ *
+ * @param size - The upload size.
+ * @returns - The upload state.
+ */
+function createUpload(size: number): PreviousUpload {
+  return { size, metadata: { filename: "file.bin" }, creationTime: "2024-01-01T00:00:00.000Z" };
+}
+
+/**
+ * A `localStorage` replacement keeping the items in a map.
+ */
+class MemoryStorage {
+  items = new Map<string, string>();
+
+  /**
+   * Returns an item.
+   *
+   * @param key - The key of the item.
+   * @returns - The item, or null if there is none.
+   */
+  getItem(key: string): string | null {
+    const item = this.items.get(key);
+    return item === undefined ? null : item;
+  }
+
+  /**
+   * Sets an item.
+   *
+   * @param key - The key of the item.
+   * @param value - The item.
+   */
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+}
+
+describe.each([
+  ["MemoryUploadStore", () => new MemoryUploadStore()],
+  ["LocalStorageUploadStore", () => new LocalStorageUploadStore()],
+])("%s", (_name, createStore: () => UploadStore) => {
+  beforeEach(() => {
+    Object.defineProperty(global, "localStorage", { value: new MemoryStorage(), configurable: true });
+  });
+
+  afterEach(() => {
+    delete (global as { localStorage?: unknown }).localStorage;
+  });
+
+  it("should add, find and remove uploads", async () => {
+    const store = createStore();
+
+    const key = await store.addUpload("a", createUpload(1));
+    const otherKey = await store.addUpload("b", createUpload(2));
+
+    expect(key).not.toEqual(otherKey);
+    await expect(store.findUploadsByFingerprint("a")).resolves.toEqual([
+      { ...createUpload(1), fingerprint: "a", urlStorageKey: key },
+    ]);
+    await expect(store.findAllUploads()).resolves.toHaveLength(2);
+
+    await store.removeUpload(key);
+
+    await expect(store.findUploadsByFingerprint("a")).resolves.toEqual([]);
+    await expect(store.findAllUploads()).resolves.toHaveLength(1);
+  });
+
+  it("should apply concurrent changes one at a time", async () => {
+    const store = createStore();
+
+    await Promise.all([1, 2, 3].map((size) => store.addUpload(`${size}`, createUpload(size))));
+
+    await expect(store.findAllUploads()).resolves.toHaveLength(3);
+  });
+});
+
+describe("LocalStorageUploadStore", () => {
+  it("should keep the uploads under the given key", async () => {
+    const storage = new MemoryStorage();
+    Object.defineProperty(global, "localStorage", { value: storage, configurable: true });
+
+    try {
+      await new LocalStorageUploadStore("uploads").addUpload("a", createUpload(1));
+
+      expect([...storage.items.keys()]).toEqual(["uploads"]);
+    } finally {
+      delete (global as { localStorage?: unknown }).localStorage;
+    }
+  });
+});
+
+describe("FileUploadStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), "s5-store-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should keep the uploads across store instances", async () => {
+    const path = join(dir, "uploads.json");
+
+    await expect(new FileUploadStore(path).findAllUploads()).resolves.toEqual([]);
+    const key = await new FileUploadStore(path).addUpload("a", createUpload(1));
+
+    await expect(new FileUploadStore(path).findUploadsByFingerprint("a")).resolves.toEqual([
+      { ...createUpload(1), fingerprint: "a", urlStorageKey: key },
+    ]);
+  });
+
+  it("should keep applying changes after one failed", async () => {
+    const store = new FileUploadStore(join(dir, "missing", "uploads.json"));
+
+    await expect(store.addUpload("a", createUpload(1))).rejects.toThrow("ENOENT");
+    await fs.mkdir(join(dir, "missing"));
+
+    await expect(store.addUpload("a", createUpload(1))).resolves.toContain("a");
+  });
+
+  it("should throw if the file can't be read", async () => {
+    await expect(new FileUploadStore(dir).findAllUploads()).rejects.toThrow("EISDIR");
+  });
+});
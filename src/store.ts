@@ -0,0 +1,205 @@
+import { promises as fs } from "fs";
+import type { PreviousUpload, UrlStorage } from "tus-js-client";
+
+/**
+ * A store for the state of tus uploads, used to resume interrupted uploads
+ * from the last acknowledged offset. Compatible with the tus `UrlStorage`.
+ */
+export type UploadStore = UrlStorage;
+
+/**
+ * The uploads stored by an upload store, indexed by their storage keys.
+ */
+type StoredUploads = Record<string, PreviousUpload & { fingerprint: string }>;
+
+/**
+ * The prefix of the storage keys of uploads.
+ */
+const STORAGE_KEY_PREFIX = "s5-tus";
+
+/**
+ * Base class for upload stores that keep all uploads in a single JSON
+ * object. Changes are applied one at a time.
+ */
+abstract class JsonUploadStore implements UploadStore {
+  private pending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Loads the stored uploads.
+   *
+   * @returns - The stored uploads.
+   */
+  protected abstract load(): Promise<StoredUploads>;
+
+  /**
+   * Saves the stored uploads.
+   *
+   * @param uploads - The uploads to save.
+   */
+  protected abstract save(uploads: StoredUploads): Promise<void>;
+
+  /**
+   * Returns all stored uploads.
+   *
+   * @returns - The uploads.
+   */
+  async findAllUploads(): Promise<PreviousUpload[]> {
+    const uploads = await this.load();
+    return Object.entries(uploads).map(([key, upload]) => ({ ...upload, urlStorageKey: key }));
+  }
+
+  /**
+   * Returns the stored uploads with the given fingerprint.
+   *
+   * @param fingerprint - The fingerprint of the upload.
+   * @returns - The uploads.
+   */
+  async findUploadsByFingerprint(fingerprint: string): Promise<PreviousUpload[]> {
+    const uploads = await this.findAllUploads();
+    return uploads.filter((upload) => (upload as PreviousUpload & { fingerprint: string }).fingerprint === fingerprint);
+  }
+
+  /**
+   * Removes a stored upload.
+   *
+   * @param urlStorageKey - The storage key of the upload.
+   * @returns - A promise that resolves when the upload was removed.
+   */
+  async removeUpload(urlStorageKey: string): Promise<void> {
+    return this.update((uploads) => {
+      delete uploads[urlStorageKey];
+    });
+  }
+
+  /**
+   * Stores an upload.
+   *
+   * @param fingerprint - The fingerprint of the upload.
+   * @param upload - The upload state.
+   * @returns - The storage key of the upload.
+   */
+  async addUpload(fingerprint: string, upload: PreviousUpload): Promise<string> {
+    const key = `${STORAGE_KEY_PREFIX}::${fingerprint}::${Math.random().toString(36).slice(2)}`;
+    await this.update((uploads) => {
+      uploads[key] = { ...upload, fingerprint };
+    });
+    return key;
+  }
+
+  /**
+   * Applies a change to the stored uploads after all previous changes.
+   *
+   * @param change - The change to apply.
+   * @returns - A promise that resolves when the change was saved.
+   */
+  private update(change: (uploads: StoredUploads) => void): Promise<void> {
+    const result = this.pending.then(async () => {
+      const uploads = await this.load();
+      change(uploads);
+      await this.save(uploads);
+    });
+    // Keep the chain going even if this change fails.
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * An upload store that keeps the upload state in memory. Uploads can be
+ * resumed after network failures, but not after the process exits.
+ */
+export class MemoryUploadStore extends JsonUploadStore {
+  private uploads: StoredUploads = {};
+
+  /**
+   * Loads the stored uploads.
+   *
+   * @returns - The stored uploads.
+   */
+  protected async load(): Promise<StoredUploads> {
+    return { ...this.uploads };
+  }
+
+  /**
+   * Saves the stored uploads.
+   *
+   * @param uploads - The uploads to save.
+   */
+  protected async save(uploads: StoredUploads): Promise<void> {
+    this.uploads = uploads;
+  }
+}
+
+/**
+ * An upload store that keeps the upload state in `localStorage`, so uploads
+ * can be resumed after a page reload.
+ */
+export class LocalStorageUploadStore extends JsonUploadStore {
+  /**
+   * Creates a `LocalStorageUploadStore`.
+   *
+   * @param [key="s5-tus"] - The `localStorage` key to store the uploads under.
+   */
+  constructor(protected key: string = STORAGE_KEY_PREFIX) {
+    super();
+  }
+
+  /**
+   * Loads the stored uploads.
+   *
+   * @returns - The stored uploads.
+   */
+  protected async load(): Promise<StoredUploads> {
+    const json = localStorage.getItem(this.key);
+    return json ? JSON.parse(json) : {};
+  }
+
+  /**
+   * Saves the stored uploads.
+   *
+   * @param uploads - The uploads to save.
+   */
+  protected async save(uploads: StoredUploads): Promise<void> {
+    localStorage.setItem(this.key, JSON.stringify(uploads));
+  }
+}
+
+/**
+ * An upload store that keeps the upload state in a JSON file, so uploads can
+ * be resumed after the process crashed or was restarted. Node only.
+ */
+export class FileUploadStore extends JsonUploadStore {
+  /**
+   * Creates a `FileUploadStore`.
+   *
+   * @param path - The path of the JSON file. It is created if it doesn't exist.
+   */
+  constructor(protected path: string) {
+    super();
+  }
+
+  /**
+   * Loads the stored uploads.
+   *
+   * @returns - The stored uploads.
+   */
+  protected async load(): Promise<StoredUploads> {
+    try {
+      return JSON.parse(await fs.readFile(this.path, "utf8"));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return {};
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Saves the stored uploads.
+   *
+   * @param uploads - The uploads to save.
+   */
+  protected async save(uploads: StoredUploads): Promise<void> {
+    await fs.writeFile(this.path, JSON.stringify(uploads));
+  }
+}
@@ -0,0 +1,283 @@
+import type { AxiosInstance, AxiosRequestConfig } from "axios";
+
+import { ExecuteRequestError, NetworkError, NotFoundError } from "./errors";
+import { AxiosTransport, FetchTransport, getDefaultTransport } from "./transport";
+
+const url = "https://s5.example/s5/account";
+
+/**
+ * Creates a mocked `fetch` answering every request with the given response.
+ *
+ * @param body - The response body.
+ * @param [init] - The response status and headers.
+ * @returns - The mocked `fetch`.
+ */
+function createFetch(body: BodyInit | null, init: ResponseInit = {}): jest.Mock<Promise<Response>> {
+  return jest.fn(async () => new Response(body, init));
+}
+
+describe("AxiosTransport", () => {
+  it("should send requests with the given axios instance", async () => {
+    const request = jest.fn(async (config: AxiosRequestConfig) => ({ status: 200, data: "ok", config }));
+    const transport = new AxiosTransport({ request } as unknown as AxiosInstance);
+
+    await expect(transport.request({ url })).resolves.toMatchObject({ data: "ok" });
+    expect(request).toHaveBeenCalledWith({ url });
+  });
+
+  it("should only load axios once a request is sent", async () => {
+    const request = jest.fn(async () => ({ status: 200, data: "ok" }));
+    const create = jest.fn(() => ({ request }));
+    let transport: AxiosTransport | undefined;
+    jest.isolateModules(() => {
+      jest.doMock("axios", () => ({ __esModule: true, default: { create } }));
+      const { AxiosTransport } = jest.requireActual<typeof import("./transport")>("./transport");
+      transport = new AxiosTransport();
+    });
+    expect(create).not.toHaveBeenCalled();
+
+    await transport?.request({ url });
+    await transport?.request({ url });
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(request).toHaveBeenCalledTimes(2);
+    jest.dontMock("axios");
+  });
+});
+
+describe("getDefaultTransport", () => {
+  it("should use axios in Node", () => {
+    expect(getDefaultTransport()).toBeInstanceOf(AxiosTransport);
+  });
+
+  it("should use fetch without XHR and Node", () => {
+    const descriptor = Object.getOwnPropertyDescriptor(global, "process") as PropertyDescriptor;
+    Object.defineProperty(global, "process", { value: undefined, configurable: true });
+
+    let transport;
+    try {
+      transport = getDefaultTransport();
+    } finally {
+      Object.defineProperty(global, "process", descriptor);
+    }
+
+    expect(transport).toBeInstanceOf(FetchTransport);
+  });
+});
+
+describe("FetchTransport", () => {
+  it("should use the global fetch by default", async () => {
+    const fetch = jest.spyOn(global, "fetch").mockResolvedValue(new Response("ok"));
+    Object.defineProperty(global, "window", { value: {}, configurable: true });
+
+    try {
+      await expect(new FetchTransport().request({ url, withCredentials: true })).resolves.toMatchObject({ data: "ok" });
+      expect(fetch.mock.calls[0][1]).toHaveProperty("credentials", "include");
+    } finally {
+      delete (global as { window?: unknown }).window;
+      fetch.mockRestore();
+    }
+  });
+
+  it("should send plain objects as JSON and parse JSON responses", async () => {
+    const fetch = createFetch('{"id":1}', { headers: { "Content-Type": "application/json", "X-Test": "1" } });
+    const transport = new FetchTransport({ fetch });
+
+    const response = await transport.request({
+      url,
+      method: "post",
+      data: { email: "user@example.com" },
+      headers: { "X-Count": 2 },
+      auth: { username: "user", password: "pass" },
+    });
+
+    expect(response).toMatchObject({ status: 200, data: { id: 1 }, headers: { "x-test": "1" } });
+    expect(fetch).toHaveBeenCalledWith(url, {
+      method: "POST",
+      headers: {
+        "X-Count": "2",
+        Authorization: `Basic ${btoa("user:pass")}`,
+        "Content-Type": "application/json",
+      },
+      body: '{"email":"user@example.com"}',
+      signal: undefined,
+    });
+  });
+
+  it("should apply request and response transforms", async () => {
+    const fetch = createFetch("1,2");
+    const transport = new FetchTransport({ fetch });
+
+    const response = await transport.request({
+      url,
+      data: [1, 2],
+      transformRequest: (data: number[]) => data.join(","),
+      transformResponse: [(data: string) => data.split(",").map(Number)],
+    });
+
+    expect(response.data).toEqual([1, 2]);
+    expect(fetch.mock.calls[0][1].body).toEqual("1,2");
+  });
+
+  it("should keep text that is not JSON", async () => {
+    const transport = new FetchTransport({ fetch: createFetch("{not json") });
+
+    await expect(transport.request({ url })).resolves.toMatchObject({ data: "{not json" });
+    await expect(transport.request({ url, responseType: "text" })).resolves.toMatchObject({ data: "{not json" });
+  });
+
+  it("should read binary responses", async () => {
+    const data = new Uint8Array([1, 2, 3]);
+    const transport = new FetchTransport({
+      fetch: jest.fn(async () => new Response(data, { headers: { "Content-Type": "application/octet-stream" } })),
+    });
+
+    const arrayBuffer = await transport.request({ url, responseType: "arraybuffer" });
+    const blob = await transport.request({ url, responseType: "blob" });
+    const stream = await transport.request({ url, responseType: "stream" });
+
+    expect(new Uint8Array(arrayBuffer.data)).toEqual(data);
+    expect(blob.data.type).toEqual("application/octet-stream");
+    expect(new Uint8Array(await blob.data.arrayBuffer())).toEqual(data);
+    expect(stream.data).toBeInstanceOf(ReadableStream);
+  });
+
+  it("should report progress", async () => {
+    const transport = new FetchTransport({ fetch: createFetch("abcd", { headers: { "Content-Length": "4" } }) });
+    const onDownloadProgress = jest.fn();
+    const onUploadProgress = jest.fn();
+
+    const response = await transport.request({
+      url,
+      method: "post",
+      data: new Uint8Array(10),
+      responseType: "arraybuffer",
+      onDownloadProgress,
+      onUploadProgress,
+    });
+
+    expect(new TextDecoder().decode(response.data)).toEqual("abcd");
+    expect(onDownloadProgress).toHaveBeenLastCalledWith({ loaded: 4, total: 4 });
+    expect(onUploadProgress).toHaveBeenCalledWith({ loaded: 10, total: 10 });
+  });
+
+  it.each([
+    ["a string", "abc", 3],
+    ["a blob", new Blob(["abcd"]), 4],
+    ["form data", new FormData(), 0],
+  ])("should report the upload progress of %s", async (_name, data, size) => {
+    const transport = new FetchTransport({ fetch: createFetch(null) });
+    const onUploadProgress = jest.fn();
+
+    await transport.request({ url, method: "post", data, onUploadProgress });
+
+    expect(onUploadProgress).toHaveBeenCalledWith({ loaded: size, total: size });
+  });
+
+  it("should report progress and read blobs without response headers", async () => {
+    const fetch = jest.fn(async () => new Response(new Uint8Array([1, 2])));
+    const transport = new FetchTransport({ fetch });
+    const onDownloadProgress = jest.fn();
+
+    const response = await transport.request({ url, responseType: "blob", onDownloadProgress });
+
+    expect(response.data.type).toEqual("");
+    expect(onDownloadProgress).toHaveBeenLastCalledWith({ loaded: 2, total: 0 });
+  });
+
+  it("should only send credentials if asked to", async () => {
+    const fetch = createFetch(null);
+    const transport = new FetchTransport({ fetch, credentials: "include" });
+
+    await transport.request({ url });
+    await transport.request({ url, withCredentials: true });
+
+    expect(fetch.mock.calls[0][1]).not.toHaveProperty("credentials");
+    expect(fetch.mock.calls[1][1]).toHaveProperty("credentials", "include");
+  });
+
+  it("should throw errors for failed responses that S5 errors can classify", async () => {
+    const transport = new FetchTransport({ fetch: createFetch('{"message":"missing"}', { status: 404 }) });
+
+    const error = await transport.request({ url }).catch((e) => e);
+
+    expect(error).toMatchObject({ code: "ERR_BAD_REQUEST", response: { status: 404 } });
+    const s5Error = ExecuteRequestError.From(error);
+    expect(s5Error).toBeInstanceOf(NotFoundError);
+    expect(s5Error.responseMessage).toEqual("missing");
+  });
+
+  it("should throw errors for server errors", async () => {
+    const transport = new FetchTransport({ fetch: createFetch("unavailable", { status: 503 }) });
+
+    const error = await transport.request({ url }).catch((e) => e);
+
+    expect(error).toMatchObject({ code: "ERR_BAD_RESPONSE", response: { status: 503, data: "unavailable" } });
+    expect(ExecuteRequestError.From(error).isRetryable).toBe(true);
+  });
+
+  it("should throw network errors", async () => {
+    const transport = new FetchTransport({ fetch: jest.fn().mockRejectedValue(new TypeError("fetch failed")) });
+
+    const error = await transport.request({ url }).catch((e) => e);
+
+    expect(error).toMatchObject({ code: "ERR_NETWORK", message: "fetch failed" });
+    expect(error.toJSON()).toEqual({ code: "ERR_NETWORK", message: "fetch failed" });
+    expect(ExecuteRequestError.From(error)).toBeInstanceOf(NetworkError);
+  });
+
+  it("should throw canceled errors for aborted requests", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const transport = new FetchTransport({ fetch: jest.fn().mockRejectedValue(new Error("aborted")) });
+
+    const error = await transport.request({ url, signal: controller.signal }).catch((e) => e);
+
+    expect(error).toMatchObject({ name: "CanceledError", code: "ERR_CANCELED" });
+    expect(ExecuteRequestError.From(error).isRetryable).toBe(false);
+  });
+});
+
+describe("FetchHttpStack", () => {
+  it("should send tus requests with fetch", async () => {
+    const fetch = createFetch("created", { status: 201, headers: { Location: "https://s5.example/s5/upload/tus/1" } });
+    const stack = new FetchTransport({ fetch, credentials: "include" }).tusHttpStack;
+    const request = stack.createRequest("PATCH", url);
+    const onProgress = jest.fn();
+    request.setHeader("Upload-Offset", "0");
+    request.setProgressHandler(onProgress);
+
+    const response = await request.send(new Uint8Array(5) as unknown as Blob);
+
+    expect(stack.getName()).toEqual("FetchHttpStack");
+    expect(request.getMethod()).toEqual("PATCH");
+    expect(request.getURL()).toEqual(url);
+    expect(request.getHeader("Upload-Offset")).toEqual("0");
+    expect(request.getUnderlyingObject()).toBeUndefined();
+    expect(fetch.mock.calls[0][1]).toMatchObject({
+      method: "PATCH",
+      headers: { "Upload-Offset": "0" },
+      credentials: "include",
+    });
+    expect(onProgress).toHaveBeenCalledWith(5);
+    expect(response.getStatus()).toEqual(201);
+    expect(response.getHeader("location")).toEqual("https://s5.example/s5/upload/tus/1");
+    expect(response.getBody()).toEqual("created");
+    expect(response.getUnderlyingObject()).toBeInstanceOf(Response);
+  });
+
+  it("should abort tus requests", async () => {
+    const fetch = jest.fn(
+      (_input: RequestInfo | URL, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+        })
+    );
+    const request = new FetchTransport({ fetch }).tusHttpStack.createRequest("HEAD", url);
+
+    const response = request.send(null);
+    await request.abort();
+
+    await expect(response).rejects.toThrow("aborted");
+  });
+});
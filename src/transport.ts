@@ -0,0 +1,490 @@
+import type { AxiosError, AxiosInstance, AxiosRequestConfig, AxiosResponse, AxiosResponseHeaders } from "axios";
+import type { HttpRequest, HttpResponse, HttpStack } from "tus-js-client";
+
+/**
+ * Sends the HTTP requests of a client. Requests and responses use the axios
+ * config and response shapes, and failed requests reject with an error
+ * compatible with `AxiosError`, so transports can be swapped freely.
+ */
+export interface Transport {
+  /**
+   * Sends a request.
+   *
+   * @param config - The request config, with the full URL.
+   * @returns - The response.
+   * @throws - Will throw an error compatible with `AxiosError` if the request fails or the status is not 2xx.
+   */
+  request(config: AxiosRequestConfig): Promise<AxiosResponse>;
+
+  /**
+   * The HTTP stack for large file uploads with tus, if the tus default
+   * (XHR in browsers, `http` in Node) should not be used.
+   */
+  tusHttpStack?: HttpStack;
+}
+
+/**
+ * A transport that sends requests with axios. Axios is only loaded once the
+ * first request is sent, so runtimes using other transports don't need it.
+ */
+export class AxiosTransport implements Transport {
+  protected instance?: Promise<AxiosInstance>;
+
+  /**
+   * Creates an `AxiosTransport`.
+   *
+   * @param [instance] - The axios instance to send requests with. A new one is created by default.
+   */
+  constructor(instance?: AxiosInstance) {
+    if (instance) {
+      this.instance = Promise.resolve(instance);
+    }
+  }
+
+  /**
+   * Sends a request.
+   *
+   * @param config - The request config.
+   * @returns - The response.
+   */
+  async request(config: AxiosRequestConfig): Promise<AxiosResponse> {
+    if (!this.instance) {
+      this.instance = import("axios").then(({ default: axios }) => axios.create());
+    }
+    return (await this.instance).request(config);
+  }
+}
+
+/**
+ * Options for a `FetchTransport`.
+ *
+ * @property [fetch] - The `fetch` function to use. Defaults to the global one.
+ * @property [credentials] - Whether to send cookies. Defaults to `include` in browsers and to the runtime default elsewhere, as e.g. Cloudflare Workers reject the option.
+ */
+export type FetchTransportOptions = {
+  fetch?: typeof fetch;
+  credentials?: RequestCredentials;
+};
+
+/**
+ * A transport that sends requests, including large file uploads, with the
+ * native `fetch`, for runtimes without XHR or Node's HTTP stack such as
+ * Deno, Bun, Cloudflare Workers and service workers.
+ *
+ * Upload progress is only reported once a request completed.
+ */
+export class FetchTransport implements Transport {
+  readonly tusHttpStack: HttpStack;
+  protected fetch: typeof fetch;
+  protected credentials?: RequestCredentials;
+
+  /**
+   * Creates a `FetchTransport`.
+   *
+   * @param [options] - The transport options.
+   */
+  constructor(options: FetchTransportOptions = {}) {
+    // Call the global `fetch` unbound, as some runtimes require.
+    this.fetch = options.fetch || ((input, init) => fetch(input, init));
+    this.credentials = options.credentials || (typeof window !== "undefined" ? "include" : undefined);
+    this.tusHttpStack = new FetchHttpStack(this.fetch, this.credentials);
+  }
+
+  /**
+   * Sends a request.
+   *
+   * @param config - The request config, with the full URL.
+   * @returns - The response.
+   * @throws - Will throw an error compatible with `AxiosError` if the request fails or the status is not 2xx.
+   */
+  async request(config: AxiosRequestConfig): Promise<AxiosResponse> {
+    const headers: Record<string, string> = {};
+    Object.entries(config.headers || {}).forEach(([name, value]) => {
+      headers[name] = String(value);
+    });
+    if (config.auth) {
+      headers["Authorization"] = `Basic ${btoa(`${config.auth.username}:${config.auth.password}`)}`;
+    }
+
+    let body = config.data;
+    if (config.transformRequest) {
+      [config.transformRequest].flat().forEach((transform) => {
+        body = transform(body);
+      });
+    } else if (isPlainObject(body)) {
+      body = JSON.stringify(body);
+      headers["Content-Type"] = headers["Content-Type"] || "application/json";
+    }
+
+    let fetchResponse: Response;
+    try {
+      fetchResponse = await this.fetch(config.url as string, {
+        method: (config.method || "get").toUpperCase(),
+        headers,
+        body,
+        signal: config.signal as AbortSignal | undefined,
+        ...(this.credentials && config.withCredentials ? { credentials: this.credentials } : {}),
+      });
+    } catch (e) {
+      if (config.signal && config.signal.aborted) {
+        throw createTransportError("canceled", "ERR_CANCELED", config);
+      }
+      throw createTransportError((e as Error).message, "ERR_NETWORK", config);
+    }
+
+    const response: AxiosResponse = {
+      data: await readResponseData(fetchResponse, config),
+      status: fetchResponse.status,
+      statusText: fetchResponse.statusText,
+      headers: headersToObject(fetchResponse.headers),
+      config,
+      request: {},
+    };
+    if (response.status < 200 || response.status >= 300) {
+      const code = response.status >= 500 ? "ERR_BAD_RESPONSE" : "ERR_BAD_REQUEST";
+      throw createTransportError(`Request failed with status code ${response.status}`, code, config, response);
+    }
+
+    if (config.onUploadProgress) {
+      const size = getBodySize(body);
+      config.onUploadProgress({ loaded: size, total: size } as ProgressEvent);
+    }
+    return response;
+  }
+}
+
+/**
+ * Returns the default transport: axios if XHR or Node's HTTP stack is
+ * available, `fetch` otherwise.
+ *
+ * @returns - The transport.
+ */
+export function getDefaultTransport(): Transport {
+  if (typeof XMLHttpRequest === "undefined" && typeof process === "undefined" && typeof fetch === "function") {
+    return new FetchTransport();
+  }
+  return new AxiosTransport();
+}
+
+/**
+ * A tus HTTP stack that sends requests with `fetch`.
+ */
+class FetchHttpStack implements HttpStack {
+  /**
+   * Creates a `FetchHttpStack`.
+   *
+   * @param fetchFn - The `fetch` function to use.
+   * @param [credentials] - Whether to send cookies.
+   */
+  constructor(protected fetchFn: typeof fetch, protected credentials?: RequestCredentials) {}
+
+  /**
+   * Creates a request.
+   *
+   * @param method - The request method.
+   * @param url - The request URL.
+   * @returns - The request.
+   */
+  createRequest(method: string, url: string): HttpRequest {
+    return new FetchHttpRequest(method, url, this.fetchFn, this.credentials);
+  }
+
+  /**
+   * Returns the name of the stack.
+   *
+   * @returns - The name.
+   */
+  getName(): string {
+    return "FetchHttpStack";
+  }
+}
+
+/**
+ * A tus request sent with `fetch`.
+ */
+class FetchHttpRequest implements HttpRequest {
+  protected headers: Record<string, string> = {};
+  protected abortController = new AbortController();
+  protected onProgress?: (bytesSent: number) => void;
+
+  /**
+   * Creates a `FetchHttpRequest`.
+   *
+   * @param method - The request method.
+   * @param url - The request URL.
+   * @param fetchFn - The `fetch` function to use.
+   * @param [credentials] - Whether to send cookies.
+   */
+  constructor(
+    protected method: string,
+    protected url: string,
+    protected fetchFn: typeof fetch,
+    protected credentials?: RequestCredentials
+  ) {}
+
+  /**
+   * Returns the request method.
+   *
+   * @returns - The method.
+   */
+  getMethod(): string {
+    return this.method;
+  }
+
+  /**
+   * Returns the request URL.
+   *
+   * @returns - The URL.
+   */
+  getURL(): string {
+    return this.url;
+  }
+
+  /**
+   * Sets a request header.
+   *
+   * @param header - The header name.
+   * @param value - The header value.
+   */
+  setHeader(header: string, value: string): void {
+    this.headers[header] = value;
+  }
+
+  /**
+   * Returns a request header.
+   *
+   * @param header - The header name.
+   * @returns - The header value.
+   */
+  getHeader(header: string): string {
+    return this.headers[header];
+  }
+
+  /**
+   * Sets the handler called with the number of bytes sent. It is only called
+   * once the body was sent completely.
+   *
+   * @param handler - The progress handler.
+   */
+  setProgressHandler(handler: (bytesSent: number) => void): void {
+    this.onProgress = handler;
+  }
+
+  /**
+   * Sends the request.
+   *
+   * @param [body] - The request body.
+   * @returns - The response.
+   */
+  async send(body?: BodyInit | null): Promise<HttpResponse> {
+    const response = await this.fetchFn(this.url, {
+      method: this.method,
+      headers: this.headers,
+      body: body || undefined,
+      signal: this.abortController.signal,
+      ...(this.credentials ? { credentials: this.credentials } : {}),
+    });
+    const text = await response.text();
+    if (this.onProgress && body) {
+      this.onProgress(getBodySize(body));
+    }
+    return new FetchHttpResponse(response, text);
+  }
+
+  /**
+   * Aborts the request.
+   */
+  async abort(): Promise<void> {
+    this.abortController.abort();
+  }
+
+  /**
+   * Returns the underlying object, which `fetch` doesn't have.
+   *
+   * @returns - Always undefined.
+   */
+  getUnderlyingObject(): undefined {
+    return undefined;
+  }
+}
+
+/**
+ * A tus response received with `fetch`.
+ */
+class FetchHttpResponse implements HttpResponse {
+  /**
+   * Creates a `FetchHttpResponse`.
+   *
+   * @param response - The fetch response.
+   * @param body - The response body.
+   */
+  constructor(protected response: Response, protected body: string) {}
+
+  /**
+   * Returns the response status.
+   *
+   * @returns - The status.
+   */
+  getStatus(): number {
+    return this.response.status;
+  }
+
+  /**
+   * Returns a response header.
+   *
+   * @param header - The header name.
+   * @returns - The header value.
+   */
+  getHeader(header: string): string {
+    return this.response.headers.get(header) as string;
+  }
+
+  /**
+   * Returns the response body.
+   *
+   * @returns - The body.
+   */
+  getBody(): string {
+    return this.body;
+  }
+
+  /**
+   * Returns the fetch response.
+   *
+   * @returns - The response.
+   */
+  getUnderlyingObject(): Response {
+    return this.response;
+  }
+}
+
+/**
+ * Reads the data of a response according to the `responseType`, reporting
+ * download progress. Like axios, JSON responses are parsed if possible.
+ *
+ * @param response - The fetch response.
+ * @param config - The request config.
+ * @returns - The response data.
+ */
+async function readResponseData(response: Response, config: AxiosRequestConfig): Promise<unknown> {
+  if (config.responseType === "stream") {
+    return response.body;
+  }
+
+  let bytes: Uint8Array;
+  if (config.onDownloadProgress && response.body) {
+    const total = Number(response.headers.get("content-length")) || 0;
+    const chunks: Uint8Array[] = [];
+    let loaded = 0;
+    const reader = response.body.getReader();
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) {
+        break;
+      }
+      chunks.push(value);
+      loaded += value.length;
+      config.onDownloadProgress({ loaded, total } as ProgressEvent);
+    }
+    bytes = new Uint8Array(loaded);
+    let offset = 0;
+    chunks.forEach((chunk) => {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    });
+  } else {
+    bytes = new Uint8Array(await response.arrayBuffer());
+  }
+
+  if (config.responseType === "arraybuffer") {
+    return bytes.buffer;
+  }
+  if (config.responseType === "blob") {
+    return new Blob([bytes], { type: response.headers.get("content-type") || "" });
+  }
+  let data: unknown = new TextDecoder().decode(bytes);
+  if (config.transformResponse) {
+    [config.transformResponse].flat().forEach((transform) => {
+      data = transform(data);
+    });
+    return data;
+  }
+  if (config.responseType !== "text" && data) {
+    try {
+      data = JSON.parse(data as string);
+    } catch {
+      // Not JSON, keep the text.
+    }
+  }
+  return data;
+}
+
+/**
+ * Creates an error compatible with `AxiosError`, so `ExecuteRequestError`
+ * can classify it. Also used for successful responses that can't be used.
+ *
+ * @param message - The error message.
+ * @param code - The axios error code.
+ * @param config - The request config.
+ * @param [response] - The response, if one was received.
+ * @returns - The error.
+ */
+export function createTransportError(
+  message: string,
+  code: string,
+  config: AxiosRequestConfig,
+  response?: AxiosResponse
+): AxiosError {
+  const error = new Error(message) as AxiosError;
+  error.name = code === "ERR_CANCELED" ? "CanceledError" : "AxiosError";
+  error.code = code;
+  error.config = config;
+  error.request = {};
+  error.response = response;
+  error.isAxiosError = true;
+  error.toJSON = () => ({ message, code });
+  return error;
+}
+
+/**
+ * Converts fetch headers to an object with lowercase names, like axios.
+ *
+ * @param headers - The fetch headers.
+ * @returns - The headers object.
+ */
+function headersToObject(headers: Headers): AxiosResponseHeaders {
+  const result: AxiosResponseHeaders = {};
+  headers.forEach((value, name) => {
+    result[name.toLowerCase()] = value;
+  });
+  return result;
+}
+
+/**
+ * Checks whether request data is a plain object that is sent as JSON.
+ *
+ * @param data - The request data.
+ * @returns - Whether the data is a plain object.
+ */
+function isPlainObject(data: unknown): boolean {
+  return typeof data === "object" && data !== null && Object.getPrototypeOf(data) === Object.prototype;
+}
+
+/**
+ * Returns the size of a request body, or 0 if it is unknown.
+ *
+ * @param body - The request body.
+ * @returns - The size in bytes.
+ */
+function getBodySize(body: unknown): number {
+  if (typeof body === "string") {
+    return new TextEncoder().encode(body).length;
+  }
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return body.byteLength;
+  }
+  if (typeof Blob !== "undefined" && body instanceof Blob) {
+    return body.size;
+  }
+  return 0;
+}
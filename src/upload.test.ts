@@ -0,0 +1,1274 @@
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Readable } from "stream";
+import * as tus from "tus-js-client";
+import type { PreviousUpload, UploadOptions } from "tus-js-client";
+
+import { createMockClient, MockHandler, MockTusStack, portalUrl, rawCid, requestPath } from "../utils/testing";
+import { CID } from "./cid";
+import { cidTypeMetadataMedia, cidTypeMetadataWebApp } from "./constants";
+import { genKeyPairFromSeed } from "./crypto";
+import { ExecuteRequestError, IntegrityError, UploadError } from "./errors";
+import {
+  decodeMetadata,
+  encodeMetadata,
+  FileReference,
+  MediaMetadataBuilder,
+  verifyMetadata,
+  WebAppMetadata,
+} from "./metadata";
+import { MemoryUploadStore } from "./store";
+import { UploadController } from "./controller";
+import { encodeBase64Url } from "./utils/encoding";
+import * as hash from "./utils/hash";
+import { hashData } from "./utils/hash";
+
+const data = new Uint8Array(100).map((_, i) => i);
+const file = new File([data], "data.bin");
+
+/**
+ * Encoded web app metadata.
+ *
+ * @property cid - The metadata cid.
+ * @property bytes - The encoded metadata.
+ */
+type EncodedWebApp = { cid: string; bytes: Uint8Array };
+
+/**
+ * Creates the files of a directory.
+ *
+ * @returns - The files, by path.
+ */
+function createDirectory(): Record<string, File> {
+  return {
+    "index.html": new File(["<html></html>"], "index.html", { type: "text/html" }),
+    "css/main.css": new File(["body {}"], "main.css", { type: "text/css" }),
+  };
+}
+
+/**
+ * Encodes web app metadata referencing the given files.
+ *
+ * @param directory - The files, by path.
+ * @returns - The metadata cid and the encoded metadata.
+ */
+async function encodeWebApp(directory: Record<string, File>): Promise<EncodedWebApp> {
+  const paths: Record<string, FileReference> = {};
+  for (const [path, file] of Object.entries(directory)) {
+    const cid = await rawCid(new Uint8Array(await file.arrayBuffer()));
+    paths[path] = { cid: CID.decode(cid), contentType: file.type };
+  }
+  const bytes = encodeMetadata({
+    type: "web_app",
+    name: "site",
+    tryFiles: [],
+    errorPages: {},
+    paths,
+    extensions: { unknown: new Map() },
+  });
+  const cid = CID.fromHash(await hashData(bytes), cidTypeMetadataWebApp).toBase64Url();
+  return { cid, bytes };
+}
+
+/**
+ * Creates a handler for a portal that answers directory uploads with the
+ * given cid and serves the given metadata.
+ *
+ * @param cid - The directory cid.
+ * @param bytes - The metadata served for the cid.
+ * @returns - The handler.
+ */
+function directoryHandler(cid: string, bytes: Uint8Array): MockHandler {
+  return (config) => {
+    const path = requestPath(config);
+    if (path === "/s5/upload/directory") {
+      return { data: { cid } };
+    }
+    if (path === `/s5/blob/${cid}`) {
+      return { data: bytes };
+    }
+    return { status: 404 };
+  };
+}
+
+/**
+ * Creates a handler for a portal that stores small uploads and serves them
+ * by their cid.
+ *
+ * @param blobs - The stored content, by base64url cid.
+ * @returns - The handler.
+ */
+function storageHandler(blobs: Map<string, Uint8Array>): MockHandler {
+  return async (config) => {
+    const path = requestPath(config);
+    if (path === "/s5/upload") {
+      const file = (config.data as FormData).get("file") as File;
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const cid = await rawCid(bytes);
+      blobs.set(cid, bytes);
+      return { data: { cid } };
+    }
+    const bytes = blobs.get(path.slice(1));
+    return bytes ? { data: bytes } : { status: 404 };
+  };
+}
+
+/**
+ * Returns the uploaded file a metadata cid references.
+ *
+ * @param blobs - The content stored by `storageHandler`.
+ * @param cid - The metadata cid.
+ * @returns - The encoded metadata.
+ */
+function getUploadedMetadata(blobs: Map<string, Uint8Array>, cid: string): Uint8Array {
+  const hash = encodeBase64Url(CID.decode(cid).hash);
+  const key = [...blobs.keys()].find((key) => encodeBase64Url(CID.decode(key).hash) === hash);
+  return blobs.get(key as string) as Uint8Array;
+}
+
+/**
+ * A fake tus upload.
+ *
+ * @property url - The upload URL.
+ * @property options - The options the upload was created with.
+ * @property findPreviousUploads - Finds previous uploads in the upload store.
+ * @property resumeFromPreviousUpload - Records the resumed upload.
+ * @property start - Succeeds or fails right away.
+ * @property abort - Records aborts.
+ */
+type FakeTusUpload = {
+  url: string;
+  options: UploadOptions;
+  findPreviousUploads: () => Promise<PreviousUpload[]>;
+  resumeFromPreviousUpload: jest.Mock;
+  start: jest.Mock;
+  abort: jest.Mock;
+};
+
+/**
+ * Replaces the tus upload with a fake that finds previous uploads in the
+ * upload store and then succeeds or fails right away.
+ *
+ * @param [error] - The error to fail with.
+ * @returns - The mocked constructor and the fake upload.
+ */
+function mockTusUpload(error?: Error): { Upload: jest.SpyInstance; upload: FakeTusUpload } {
+  const upload: FakeTusUpload = {
+    url: `${portalUrl}/s5/upload/tus/1`,
+    options: {},
+    findPreviousUploads: async (): Promise<PreviousUpload[]> => {
+      const { urlStorage, fingerprint } = upload.options as Required<UploadOptions>;
+      return urlStorage ? urlStorage.findUploadsByFingerprint(await fingerprint(file, upload.options)) : [];
+    },
+    resumeFromPreviousUpload: jest.fn(),
+    start: jest.fn(() => (error ? upload.options.onError?.(error) : upload.options.onSuccess?.())),
+    abort: jest.fn(async () => undefined),
+  };
+  const Upload = jest.spyOn(tus, "Upload").mockImplementation((_file, options) => {
+    upload.options = options;
+    return upload as unknown as tus.Upload;
+  });
+  return { Upload, upload };
+}
+
+/**
+ * Waits until the given condition holds.
+ *
+ * @param condition - The condition.
+ */
+async function waitFor(condition: () => boolean): Promise<void> {
+  while (!condition()) {
+    await new Promise((resolve) => setTimeout(resolve, 1));
+  }
+}
+
+describe("uploadFile", () => {
+  it("should upload small files and verify the returned cid", async () => {
+    const cid = await rawCid(data);
+    const { client, request } = createMockClient(() => ({ data: { cid } }));
+
+    await expect(client.uploadFile(file, { customFilename: "other.bin" })).resolves.toEqual({
+      cid,
+    });
+
+    const uploaded = (request.mock.calls[0][0].data as FormData).get("file") as File;
+    expect(uploaded.name).toEqual("other.bin");
+    expect(new Uint8Array(await uploaded.arrayBuffer())).toEqual(data);
+  });
+
+  it.each([
+    ["bytes", async () => data, "file"],
+    ["a stream", async () => ({ stream: Readable.from([data.slice(0, 50), data.slice(50)]), size: 100 }), "file"],
+    [
+      "a path",
+      async () => {
+        const dir = await fs.mkdtemp(join(tmpdir(), "s5-upload-"));
+        await fs.writeFile(join(dir, "data.bin"), data);
+        return join(dir, "data.bin");
+      },
+      "data.bin",
+    ],
+  ])("should upload %s", async (_name, createInput, filename) => {
+    const blobs = new Map<string, Uint8Array>();
+    const { client, request } = createMockClient(storageHandler(blobs));
+
+    const { cid } = await client.uploadFile(await createInput());
+
+    expect(blobs.get(cid)).toEqual(data);
+    expect(((request.mock.calls[0][0].data as FormData).get("file") as File).name).toEqual(filename);
+  });
+
+  it.each([
+    ["bytes", () => data],
+    ["a stream", () => ({ stream: Readable.from([data.slice(0, 50), data.slice(50)]), size: data.length })],
+  ])("should encrypt %s and download them again", async (_name, createInput) => {
+    const blobs = new Map<string, Uint8Array>();
+    const { client, request } = createMockClient(storageHandler(blobs));
+
+    const { cid } = await client.uploadFile(createInput(), { encrypt: true });
+
+    const file = (request.mock.calls[0][0].data as FormData).get("file") as File;
+    // One padded chunk and its tag.
+    expect(file).toMatchObject({ name: "file", size: 4096 + 16 });
+    await expect(client.downloadData(cid)).resolves.toEqual(data);
+  });
+
+  it("should reject encrypted and streamed replicas", async () => {
+    const { client } = createMockClient(undefined, {}, [portalUrl, "https://other.example"]);
+    const stream = { stream: Readable.from([data]), size: data.length };
+
+    await expect(client.uploadFile(data, { uploadReplicas: 2, encrypt: true })).rejects.toThrow("uploadReplicas");
+    await expect(client.uploadFile(stream, { uploadReplicas: 2 })).rejects.toThrow("when uploading replicas");
+    await expect(client.uploadFile(data, { uploadReplicas: 3 })).rejects.toThrow("at most the number of portals");
+  });
+
+  it("should throw an IntegrityError if replicas have different cids", async () => {
+    const { client } = createMockClient(
+      async (config) => ({ data: { cid: await rawCid(new TextEncoder().encode(config.url)) } }),
+      {},
+      [portalUrl, "https://other.example"]
+    );
+
+    await expect(client.uploadFile(data, { uploadReplicas: 2, verifyCid: false })).rejects.toThrow(
+      "Portals returned different cids"
+    );
+  });
+
+  it("should not upload replicas to other portals once aborted", async () => {
+    const abortController = new AbortController();
+    const { client, request } = createMockClient(
+      () => {
+        abortController.abort();
+        return { status: null };
+      },
+      {},
+      [portalUrl, "https://other.example", "https://third.example"]
+    );
+
+    await expect(client.uploadFile(data, { uploadReplicas: 2, signal: abortController.signal })).rejects.toThrow();
+    const urls = request.mock.calls.map(([config]) => config.url as string);
+    expect(urls.some((url) => url.startsWith("https://third.example"))).toBe(false);
+  });
+
+  it("should throw an IntegrityError if the portal returns another cid", async () => {
+    const cid = await rawCid(data.subarray(1));
+    const { client } = createMockClient(() => ({ data: { cid } }));
+
+    await expect(client.uploadFile(file)).rejects.toThrow(IntegrityError);
+    await expect(client.uploadFile(file, { verifyCid: false })).resolves.toEqual({ cid });
+  });
+
+  it("should throw an IntegrityError if the portal returns an invalid cid", async () => {
+    const cid = await rawCid(data);
+    const { client } = createMockClient(() => ({ data: { cid: "invalid" } }));
+
+    await expect(client.uploadFile(file)).rejects.toThrow(IntegrityError);
+    await expect(client.uploadFile(file)).rejects.toMatchObject({
+      expected: cid,
+      actual: "invalid",
+    });
+  });
+});
+
+describe("uploadDirectory", () => {
+  it("should verify the directory metadata against the files by default", async () => {
+    const directory = createDirectory();
+    const { cid, bytes } = await encodeWebApp(directory);
+    const { client, request } = createMockClient(directoryHandler(cid, bytes));
+
+    await expect(client.uploadDirectory(directory, "site")).resolves.toEqual({ cid });
+    expect(request.mock.calls.map(([config]) => requestPath(config))).toEqual([
+      "/s5/upload/directory",
+      `/s5/blob/${cid}`,
+    ]);
+  });
+
+  it("should throw an IntegrityError if the metadata references other files", async () => {
+    const directory = createDirectory();
+    const { cid, bytes } = await encodeWebApp({ ...directory, "index.html": new File(["other"], "index.html") });
+    const { client } = createMockClient(directoryHandler(cid, bytes));
+
+    await expect(client.uploadDirectory(directory, "site")).rejects.toThrow(IntegrityError);
+  });
+
+  it("should throw an IntegrityError if the metadata misses a file", async () => {
+    const directory = createDirectory();
+    const { cid, bytes } = await encodeWebApp({ "index.html": directory["index.html"] });
+    const { client } = createMockClient(directoryHandler(cid, bytes));
+
+    await expect(client.uploadDirectory(directory, "site")).rejects.toThrow("does not contain path 'css/main.css'");
+  });
+
+  it("should throw an IntegrityError if the metadata does not match the directory cid", async () => {
+    const directory = createDirectory();
+    const { cid } = await encodeWebApp(directory);
+    const { bytes } = await encodeWebApp({ "index.html": directory["index.html"] });
+    const { client } = createMockClient(directoryHandler(cid, bytes));
+
+    await expect(client.uploadDirectory(directory, "site")).rejects.toThrow(IntegrityError);
+  });
+
+  it("should send the directory options", async () => {
+    const { client, request } = createMockClient(directoryHandler("unverified", new Uint8Array()));
+
+    await client.uploadDirectory(createDirectory(), "site", { verifyDirectoryFiles: false });
+
+    const config = request.mock.calls[0][0];
+    expect(new URL(config.url as string).searchParams.get("tryfiles")).toEqual('["index.html"]');
+    expect(new URL(config.url as string).searchParams.get("errorpages")).toEqual('{"404":"/404.html"}');
+    expect((config.data as FormData).has("css/main.css")).toBe(true);
+  });
+
+  it("should throw an IntegrityError if the directory cid is not web app metadata", async () => {
+    const bytes = encodeMetadata(new MediaMetadataBuilder("My video").build());
+    const cid = CID.fromHash(await hashData(bytes), cidTypeMetadataMedia).toBase64Url();
+    const { client } = createMockClient(directoryHandler(cid, bytes));
+
+    await expect(client.uploadDirectory(createDirectory(), "site")).rejects.toThrow("is not web app metadata");
+  });
+
+  it("should reject encrypted directories", async () => {
+    const { client, request } = createMockClient();
+
+    await expect(client.uploadDirectory(createDirectory(), "site", { encrypt: true })).rejects.toThrow(
+      "false for directories"
+    );
+    await expect(
+      client.uploadDirectory(createDirectory(), "site", { encrypt: true, uploadFilesIndividually: true })
+    ).rejects.toThrow("false for directories");
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it("should not download the metadata if verification is turned off", async () => {
+    const directory = createDirectory();
+    const { client, request } = createMockClient(directoryHandler("unverified", new Uint8Array()));
+
+    await expect(client.uploadDirectory(directory, "site", { verifyDirectoryFiles: false })).resolves.toEqual({
+      cid: "unverified",
+    });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("uploadDirectory with uploadFilesIndividually", () => {
+  it("should upload the files and web app metadata referencing them", async () => {
+    const blobs = new Map<string, Uint8Array>();
+    const { client } = createMockClient(storageHandler(blobs));
+    const directory = { ...createDirectory(), "404.html": new File(["not found"], "404.html") };
+
+    const { cid } = await client.uploadDirectory(directory, "site", { uploadFilesIndividually: true });
+
+    expect(CID.decode(cid).type).toEqual(cidTypeMetadataWebApp);
+    const metadata = decodeMetadata(getUploadedMetadata(blobs, cid)) as WebAppMetadata;
+    expect(metadata).toMatchObject({ name: "site", tryFiles: ["index.html"], errorPages: { 404: "/404.html" } });
+    expect(metadata.paths["css/main.css"].contentType).toEqual("text/css");
+    for (const [path, file] of Object.entries(directory)) {
+      const uploaded = blobs.get(metadata.paths[path].cid.toBase64Url());
+      expect(uploaded).toEqual(new Uint8Array(await file.arrayBuffer()));
+    }
+  });
+
+  it("should upload the files to a single portal", async () => {
+    const blobs = new Map<string, Uint8Array>();
+    const { client, request } = createMockClient(storageHandler(blobs), {}, [portalUrl, "https://other.example"]);
+
+    await client.uploadDirectory(createDirectory(), "site", { uploadFilesIndividually: true, uploadReplicas: 2 });
+
+    expect(request).toHaveBeenCalledTimes(Object.keys(createDirectory()).length + 1);
+  });
+
+  it("should skip error pages that are not part of the directory", async () => {
+    const blobs = new Map<string, Uint8Array>();
+    const { client } = createMockClient(storageHandler(blobs));
+
+    const { cid } = await client.uploadDirectory(createDirectory(), "site", { uploadFilesIndividually: true });
+
+    expect(decodeMetadata(getUploadedMetadata(blobs, cid))).toMatchObject({ errorPages: {} });
+  });
+
+  it("should upload empty files without try files and error pages", async () => {
+    const blobs = new Map<string, Uint8Array>();
+    const handler = storageHandler(blobs);
+    const { client } = createMockClient((config) => {
+      if (config.onUploadProgress) {
+        config.onUploadProgress({ loaded: 0, total: 0 } as ProgressEvent);
+      }
+      return handler(config);
+    });
+    const onUploadProgress = jest.fn();
+
+    const { cid } = await client.uploadDirectory({ "empty.txt": new File([], "empty.txt") }, "site", {
+      uploadFilesIndividually: true,
+      tryFiles: undefined,
+      errorPages: undefined,
+      onUploadProgress,
+    });
+
+    const metadata = decodeMetadata(getUploadedMetadata(blobs, cid)) as WebAppMetadata;
+    expect(metadata).toMatchObject({ tryFiles: [], errorPages: {} });
+    expect(blobs.get(metadata.paths["empty.txt"].cid.toBase64Url())).toEqual(new Uint8Array());
+    expect(onUploadProgress).toHaveBeenCalledWith(1, expect.objectContaining({ loaded: 0, total: 0 }));
+  });
+
+  it("should reject error pages that are not absolute paths", async () => {
+    const { client, request } = createMockClient();
+
+    await expect(
+      client.uploadDirectory(createDirectory(), "site", {
+        uploadFilesIndividually: true,
+        errorPages: { 404: "404.html" },
+      })
+    ).rejects.toThrow("errorPages[404]");
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it("should limit the number of concurrent uploads and report the total progress", async () => {
+    const blobs = new Map<string, Uint8Array>();
+    const handler = storageHandler(blobs);
+    let running = 0;
+    let maxRunning = 0;
+    const { client } = createMockClient(async (config) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      running--;
+      if (config.onUploadProgress) {
+        config.onUploadProgress({ loaded: 1, total: 1 } as ProgressEvent);
+      }
+      return handler(config);
+    });
+    const directory = Object.fromEntries(
+      Array.from({ length: 5 }, (_, i) => [`${i}.bin`, new File([data.slice(0, i + 1)], `${i}.bin`)])
+    );
+    const onUploadProgress = jest.fn();
+
+    await client.uploadDirectory(directory, "files", {
+      uploadFilesIndividually: true,
+      maxConcurrentUploads: 2,
+      onUploadProgress,
+    });
+
+    expect(maxRunning).toEqual(2);
+    expect(onUploadProgress).toHaveBeenCalledWith(1, expect.objectContaining({ loaded: 15, total: 15 }));
+  });
+
+  it("should not start new uploads after an upload failed", async () => {
+    const { client, request } = createMockClient(() => ({ status: 500, data: "failed" }));
+    const directory = Object.fromEntries(
+      Array.from({ length: 5 }, (_, i) => [`${i}.bin`, new File([data], `${i}.bin`)])
+    );
+
+    await expect(
+      client.uploadDirectory(directory, "files", { uploadFilesIndividually: true, maxConcurrentUploads: 1 })
+    ).rejects.toThrow();
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("uploadDirectory with previousDirectoryCid", () => {
+  /**
+   * Creates a handler for a portal that stores uploaded files and serves
+   * the given metadata.
+   *
+   * @param [previous] - The metadata of a previous version.
+   * @returns - The handler.
+   */
+  function filesHandler(previous?: EncodedWebApp): MockHandler {
+    return async (config) => {
+      const path = requestPath(config);
+      if (path === "/s5/upload") {
+        const file = (config.data as FormData).get("file") as File;
+        return { data: { cid: await rawCid(new Uint8Array(await file.arrayBuffer())) } };
+      }
+      if (previous && path === `/s5/blob/${previous.cid}`) {
+        return { data: previous.bytes };
+      }
+      return { status: 404 };
+    };
+  }
+
+  it("should only upload the files that changed since the previous version", async () => {
+    const directory = createDirectory();
+    const previous = await encodeWebApp({ ...directory, "index.html": new File(["old"], "index.html") });
+    const { client, request } = createMockClient(filesHandler(previous));
+    const computeFileCid = jest.spyOn(hash, "computeFileCid");
+    const onUploadProgress = jest.fn();
+
+    try {
+      const { cid } = await client.uploadDirectory(directory, "site", {
+        previousDirectoryCid: previous.cid,
+        tryFiles: [],
+        errorPages: {},
+        onUploadProgress,
+      });
+
+      expect(cid).toEqual((await encodeWebApp(directory)).cid);
+      const uploads = request.mock.calls.filter(([config]) => requestPath(config) === "/s5/upload");
+      expect(uploads.map(([config]) => (config.data as FormData).get("file"))).toEqual([
+        expect.objectContaining({ size: directory["index.html"].size }),
+        expect.objectContaining({ name: "metadata" }),
+      ]);
+      // Every file is hashed once, and the uploaded metadata.
+      expect(computeFileCid).toHaveBeenCalledTimes(3);
+      // The unchanged file counts as uploaded.
+      const skipped = directory["css/main.css"].size;
+      expect(onUploadProgress).toHaveBeenCalledWith(
+        skipped / (skipped + directory["index.html"].size),
+        expect.objectContaining({ loaded: skipped })
+      );
+    } finally {
+      computeFileCid.mockRestore();
+    }
+  });
+
+  it("should upload large changed files with the cid computed for the comparison", async () => {
+    const directory = createDirectory();
+    const previous = await encodeWebApp({ ...directory, "index.html": new File(["old"], "index.html") });
+    const stack = new MockTusStack();
+    const { client } = createMockClient(filesHandler(previous), {}, portalUrl, stack);
+    const computeFileCid = jest.spyOn(hash, "computeFileCid");
+
+    try {
+      const { cid } = await client.uploadDirectory(directory, "site", {
+        previousDirectoryCid: previous.cid,
+        tryFiles: [],
+        errorPages: {},
+        largeFileSize: 10,
+      });
+
+      expect(cid).toEqual((await encodeWebApp(directory)).cid);
+      expect([...stack.uploads.values()].map(({ metadata }) => metadata.filename)).toEqual(["index.html", "metadata"]);
+      expect(computeFileCid).toHaveBeenCalledTimes(3);
+    } finally {
+      computeFileCid.mockRestore();
+    }
+  });
+
+  it("should not upload files that moved since the previous version", async () => {
+    const previousDirectory = createDirectory();
+    const previous = await encodeWebApp(previousDirectory);
+    const { client, request } = createMockClient(filesHandler(previous));
+    const directory = {
+      "style.css": previousDirectory["css/main.css"],
+      "index.html": new File(["<html>changed</html>"], "index.html", { type: "text/html" }),
+    };
+
+    const { cid } = await client.uploadDirectory(directory, "site", {
+      previousDirectoryCid: previous.cid,
+      tryFiles: [],
+      errorPages: {},
+    });
+
+    expect(cid).toEqual((await encodeWebApp(directory)).cid);
+    const uploads = request.mock.calls.filter(([config]) => requestPath(config) === "/s5/upload");
+    // The changed file and the metadata.
+    expect(uploads).toHaveLength(2);
+  });
+
+  it("should reject previous versions that are not web app metadata", async () => {
+    const bytes = encodeMetadata(new MediaMetadataBuilder("My video").build());
+    const cid = CID.fromHash(await hashData(bytes), cidTypeMetadataMedia).toBase64Url();
+    const { client } = createMockClient(filesHandler({ cid, bytes }));
+
+    await expect(client.uploadDirectory(createDirectory(), "site", { previousDirectoryCid: cid })).rejects.toThrow(
+      "previousDirectoryCid"
+    );
+  });
+
+  it("should throw an IntegrityError if the previous version does not match its cid", async () => {
+    const directory = createDirectory();
+    const { cid } = await encodeWebApp(directory);
+    const { client } = createMockClient(filesHandler({ cid, bytes: new Uint8Array([1, 2, 3]) }));
+
+    await expect(client.uploadDirectory(directory, "site", { previousDirectoryCid: cid })).rejects.toThrow(
+      IntegrityError
+    );
+  });
+});
+
+describe("uploadDirectoryFromPath", () => {
+  let dir: string;
+  let cid: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), "s5-site-"));
+    await fs.mkdir(join(dir, "site", "css"), { recursive: true });
+    await fs.writeFile(join(dir, "site", "index.html"), "<html></html>");
+    await fs.writeFile(join(dir, "site", "app.js.map"), "{}");
+    await fs.writeFile(join(dir, "site", "css", "main.css"), "body {}");
+    cid = await rawCid(new TextEncoder().encode("directory"));
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should upload the files that are not ignored", async () => {
+    const { client, request } = createMockClient(directoryHandler(cid, new Uint8Array()));
+
+    await expect(
+      client.uploadDirectoryFromPath(`${join(dir, "site")}/`, { verifyDirectoryFiles: false, ignore: ["*.map"] })
+    ).resolves.toEqual({ cid });
+
+    const url = new URL(request.mock.calls[0][0].url as string);
+    expect(url.searchParams.get("filename")).toEqual("site");
+    const formData = request.mock.calls[0][0].data as FormData;
+    expect(formData.has("index.html")).toBe(true);
+    expect(formData.has("css/main.css")).toBe(true);
+    expect(formData.has("app.js.map")).toBe(false);
+  });
+
+  it("should use a custom directory name", async () => {
+    const { client, request } = createMockClient(directoryHandler(cid, new Uint8Array()));
+
+    await client.uploadDirectoryFromPath(join(dir, "site"), { customFilename: "www", verifyDirectoryFiles: false });
+
+    expect(new URL(request.mock.calls[0][0].url as string).searchParams.get("filename")).toEqual("www");
+  });
+
+  it("should name the current directory 'directory'", async () => {
+    const { client, request } = createMockClient(directoryHandler(cid, new Uint8Array()));
+
+    await client.uploadDirectoryFromPath(".", { verifyDirectoryFiles: false, ignore: ["*", "!package.json"] });
+
+    expect(new URL(request.mock.calls[0][0].url as string).searchParams.get("filename")).toEqual("directory");
+    expect((request.mock.calls[0][0].data as FormData).has("package.json")).toBe(true);
+  });
+
+  it("should throw if there are no files to upload", async () => {
+    const { client, request } = createMockClient();
+
+    await expect(client.uploadDirectoryFromPath(join(dir, "site"), { ignore: ["*"] })).rejects.toThrow(
+      "does not contain any files to upload"
+    );
+    expect(request).not.toHaveBeenCalled();
+  });
+});
+
+describe("uploadMetadata", () => {
+  it("should upload media metadata", async () => {
+    const blobs = new Map<string, Uint8Array>();
+    const { client } = createMockClient(storageHandler(blobs));
+    const metadata = new MediaMetadataBuilder("My video").setTags(["nature"]).build();
+
+    const { cid } = await client.uploadMetadata(metadata);
+
+    expect(CID.decode(cid).type).toEqual(cidTypeMetadataMedia);
+    expect(decodeMetadata(getUploadedMetadata(blobs, cid))).toEqual(metadata);
+  });
+
+  it("should upload signed media metadata", async () => {
+    const blobs = new Map<string, Uint8Array>();
+    const { client } = createMockClient(storageHandler(blobs));
+    const keyPair = await genKeyPairFromSeed(new Uint8Array(32).fill(1));
+    const metadata = new MediaMetadataBuilder("My video").build();
+
+    const { cid } = await client.uploadMetadata(metadata, { signingKeyPairs: [keyPair] });
+
+    expect(CID.decode(cid).type).toEqual(cidTypeMetadataMedia);
+    await expect(verifyMetadata(getUploadedMetadata(blobs, cid))).resolves.toEqual([keyPair.publicKey]);
+  });
+
+  it("should upload metadata to a single portal", async () => {
+    const blobs = new Map<string, Uint8Array>();
+    const { client, request } = createMockClient(storageHandler(blobs), {}, [portalUrl, "https://other.example"]);
+
+    await client.uploadMetadata(new MediaMetadataBuilder("My video").build(), { uploadReplicas: 2 });
+
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject metadata that can't be uploaded", async () => {
+    const { client, request } = createMockClient();
+    const metadata = new MediaMetadataBuilder("My video").build();
+
+    await expect(client.uploadMetadata(metadata, { encrypt: true })).rejects.toThrow("false for metadata");
+    await expect(client.uploadMetadata({ ...metadata, type: "directory" } as never)).rejects.toThrow(
+      "'media' or 'web_app'"
+    );
+    expect(request).not.toHaveBeenCalled();
+  });
+});
+
+describe("uploadLargeFile", () => {
+  const tusUrl = `${portalUrl}/s5/upload/tus`;
+  const file = new File([data], "data.bin", { type: "application/octet-stream", lastModified: 1000 });
+  const largeFileSize = 10;
+
+  /**
+   * Creates a client that uploads large files to a mocked tus server.
+   *
+   * @param [handler] - Answers all other requests.
+   * @param [portal] - The portal URL, or several portal URLs.
+   * @returns - The client, the mocked transport function and the tus server.
+   */
+  function createTusClient(handler?: MockHandler, portal?: string | string[]) {
+    const stack = new MockTusStack();
+    const { client, request } = createMockClient(handler, {}, portal, stack);
+    return { client, request, stack };
+  }
+
+  /**
+   * Stores an upload of the first bytes of the data on the tus server and in
+   * the upload store, as a previous upload that was interrupted.
+   *
+   * @param stack - The tus server.
+   * @param store - The upload store.
+   * @param fingerprint - The fingerprint of the upload, without the prefix and endpoint.
+   * @param offset - The number of bytes the server received.
+   */
+  async function storePreviousUpload(
+    stack: MockTusStack,
+    store: MemoryUploadStore,
+    fingerprint: string,
+    offset: number
+  ): Promise<void> {
+    const uploadUrl = `${tusUrl}/previous`;
+    stack.uploads.set(uploadUrl, { length: data.length, data: data.slice(0, offset), metadata: {} });
+    await store.addUpload(`s5-tus-${fingerprint}-${tusUrl}`, {
+      size: data.length,
+      metadata: {},
+      creationTime: new Date().toString(),
+      // Stored by tus, but missing from its types.
+      uploadUrl,
+    } as PreviousUpload);
+  }
+
+  it("should upload large files with tus and the locally computed hash", async () => {
+    const cid = await rawCid(data);
+    const { client, request, stack } = createTusClient();
+    const onUploadProgress = jest.fn();
+    const onHashProgress = jest.fn();
+
+    await expect(client.uploadFile(file, { largeFileSize, onUploadProgress, onHashProgress })).resolves.toEqual({
+      cid,
+    });
+
+    expect(stack.requests.map(({ method }) => method)).toEqual(["POST", "PATCH"]);
+    expect([...stack.uploads.values()]).toEqual([
+      {
+        length: data.length,
+        data,
+        metadata: {
+          hash: encodeBase64Url(CID.decode(cid).hash),
+          filename: "data.bin",
+          filetype: "application/octet-stream",
+        },
+      },
+    ]);
+    expect(onUploadProgress).toHaveBeenLastCalledWith(1, { loaded: data.length, total: data.length });
+    expect(onHashProgress).toHaveBeenLastCalledWith(1);
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it("should resume uploads of the same content from the upload store", async () => {
+    const cid = await rawCid(data);
+    const { client, stack } = createTusClient();
+    const uploadStore = new MemoryUploadStore();
+    await storePreviousUpload(stack, uploadStore, cid, 40);
+
+    await expect(client.uploadFile(file, { largeFileSize, uploadStore })).resolves.toEqual({ cid });
+
+    expect(stack.requests.map(({ method, headers }) => [method, headers["Upload-Offset"]])).toEqual([
+      ["HEAD", undefined],
+      ["PATCH", "40"],
+    ]);
+    expect(stack.uploads.get(`${tusUrl}/previous`)?.data).toEqual(data);
+    await expect(uploadStore.findAllUploads()).resolves.toEqual([]);
+  });
+
+  it("should start a new upload if the portal forgot the previous one", async () => {
+    const cid = await rawCid(data);
+    const { client, stack } = createTusClient();
+    const uploadStore = new MemoryUploadStore();
+    await storePreviousUpload(stack, uploadStore, cid, 40);
+    stack.uploads.clear();
+
+    await expect(client.uploadFile(file, { largeFileSize, uploadStore })).resolves.toEqual({ cid });
+
+    expect(stack.requests.map(({ method }) => method)).toEqual(["HEAD", "POST", "PATCH"]);
+    expect(stack.uploads.get(`${tusUrl}/1`)?.data).toEqual(data);
+  });
+
+  it("should hash resumed files while uploading them and ask the portal for the cid", async () => {
+    const cid = await rawCid(data);
+    const { client, request, stack } = createTusClient();
+    const uploadStore = new MemoryUploadStore();
+    await storePreviousUpload(stack, uploadStore, `data.bin-${data.length}-1000`, 40);
+    const onHashProgress = jest.fn();
+
+    await expect(
+      client.uploadFile(file, { largeFileSize, uploadStore, hashWhileUploading: true, onHashProgress })
+    ).resolves.toEqual({ cid });
+
+    expect(stack.uploads.get(`${tusUrl}/previous`)?.data).toEqual(data);
+    expect(onHashProgress).toHaveBeenLastCalledWith(1);
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(request.mock.calls[0][0]).toMatchObject({ method: "head", url: `${portalUrl}/${cid}` });
+  });
+
+  it("should throw an IntegrityError if the portal does not serve the cid computed while uploading", async () => {
+    const { client, stack } = createTusClient(() => ({ status: 404 }));
+
+    await expect(client.uploadFile(file, { largeFileSize, hashWhileUploading: true })).rejects.toThrow(IntegrityError);
+    expect(stack.uploads.get(`${tusUrl}/1`)?.metadata).not.toHaveProperty("hash");
+  });
+
+  it("should only throw an IntegrityError if the portal does not have the computed cid", async () => {
+    const { client } = createTusClient(() => ({ status: 400 }));
+
+    await expect(client.uploadFile(file, { largeFileSize, hashWhileUploading: true })).rejects.toThrow(
+      ExecuteRequestError
+    );
+  });
+
+  it("should reject hashing in a worker without worker support", async () => {
+    const { client, stack } = createTusClient();
+    const canHashInWorker = jest.spyOn(hash, "canHashInWorker").mockReturnValue(false);
+
+    try {
+      await expect(client.uploadFile(file, { largeFileSize, hashInWorker: true })).rejects.toThrow("hashInWorker");
+      expect(stack.requests).toEqual([]);
+    } finally {
+      canHashInWorker.mockRestore();
+    }
+  });
+
+  it("should throw an UploadError if the stream fails", async () => {
+    const { client } = createTusClient();
+    const stream = Readable.from(
+      (async function* () {
+        yield data.slice(0, 10);
+        throw new Error("Read failed");
+      })()
+    );
+
+    await expect(
+      client.uploadFile({ stream, size: data.length }, { largeFileSize, retryDelays: [] })
+    ).rejects.toMatchObject({ constructor: UploadError, message: expect.stringContaining("Read failed") });
+  });
+
+  it("should upload streams and send the last slice again after a failure", async () => {
+    const cid = await rawCid(data);
+    const { client, stack } = createTusClient();
+    stack.failures = [500];
+    const stream = Readable.from([data.slice(0, 30), data.slice(30)]);
+
+    await expect(
+      client.uploadFile({ stream, size: data.length, name: "data.txt" }, { largeFileSize, retryDelays: [0] })
+    ).resolves.toEqual({ cid });
+
+    expect(stack.requests.map(({ method }) => method)).toEqual(["POST", "PATCH", "HEAD", "PATCH"]);
+    expect(stack.uploads.get(`${tusUrl}/1`)).toEqual({
+      length: data.length,
+      data,
+      metadata: { filename: "data.txt", filetype: "text/plain" },
+    });
+  });
+
+  it("should hash streams of strings while uploading them", async () => {
+    const text = "a".repeat(100);
+    const { client, stack } = createTusClient();
+    const onHashProgress = jest.fn();
+    const stream = Readable.from([text.slice(0, 30), text.slice(30)]);
+
+    await expect(client.uploadFile({ stream, size: text.length }, { largeFileSize, onHashProgress })).resolves.toEqual({
+      cid: await rawCid(new TextEncoder().encode(text)),
+    });
+
+    expect(onHashProgress.mock.calls.map(([progress]) => progress)).toEqual([0.3, 1]);
+    expect(stack.uploads.get(`${tusUrl}/1`)?.data).toEqual(new TextEncoder().encode(text));
+  });
+
+  it("should reject streams that produce more data than announced", async () => {
+    const { client } = createTusClient();
+    const stream = Readable.from([data, data.slice(0, 10)]);
+
+    await expect(client.uploadFile({ stream, size: data.length }, { largeFileSize })).rejects.toThrow(
+      `Stream produced 110 bytes, expected ${data.length}`
+    );
+  });
+
+  it("should throw an UploadError and report the portal if the upload fails", async () => {
+    const { client, stack } = createTusClient(undefined, [portalUrl, "https://other.example"]);
+    stack.failures = [500];
+
+    await expect(client.uploadFile(file, { largeFileSize, retryDelays: [] })).rejects.toMatchObject({
+      constructor: UploadError,
+      responseStatus: 500,
+      responseMessage: "Upload failed",
+      portalUrl,
+    });
+    expect(client.portals.map(({ healthy }) => healthy)).toEqual([false, true]);
+  });
+
+  it("should throw errors of the upload store", async () => {
+    const { client, stack } = createTusClient();
+    const uploadStore = new MemoryUploadStore();
+    jest.spyOn(uploadStore, "findUploadsByFingerprint").mockRejectedValue(new Error("Store failed"));
+
+    await expect(client.uploadFile(file, { largeFileSize, uploadStore })).rejects.toThrow("Store failed");
+    expect(stack.requests).toEqual([]);
+  });
+
+  it("should start paused uploads once they are resumed", async () => {
+    const cid = await rawCid(data);
+    const { client, stack } = createTusClient();
+    const controller = new UploadController();
+    controller.pause();
+
+    const upload = client.uploadFile(file, { largeFileSize, controller });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(stack.requests).toEqual([]);
+    controller.resume();
+
+    await expect(upload).resolves.toEqual({ cid });
+  });
+
+  it("should terminate aborted uploads", async () => {
+    const { client, stack } = createTusClient();
+    const controller = new UploadController();
+    stack.onRequest = ({ method }) => {
+      if (method === "PATCH") {
+        controller.abort();
+      }
+    };
+
+    await expect(client.uploadFile(file, { largeFileSize, controller })).rejects.toMatchObject({
+      name: "AbortError",
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(stack.requests.map(({ method }) => method)).toEqual(["POST", "PATCH", "DELETE"]);
+    expect(stack.uploads.size).toEqual(0);
+  });
+
+  it("should not start uploads aborted while looking for previous uploads", async () => {
+    const { client, stack } = createTusClient();
+    const controller = new UploadController();
+    const uploadStore = new MemoryUploadStore();
+    jest.spyOn(uploadStore, "findUploadsByFingerprint").mockImplementation(async () => {
+      controller.abort();
+      return [];
+    });
+
+    await expect(client.uploadFile(file, { largeFileSize, controller, uploadStore })).rejects.toMatchObject({
+      name: "AbortError",
+    });
+    expect(stack.requests).toEqual([]);
+  });
+
+  it("should not start uploads with an aborted signal", async () => {
+    const { client, stack } = createTusClient();
+    const abortController = new AbortController();
+    abortController.abort();
+
+    await expect(client.uploadFile(file, { largeFileSize, signal: abortController.signal })).rejects.toMatchObject({
+      name: "AbortError",
+    });
+    expect(stack.requests).toEqual([]);
+  });
+});
+
+describe("uploadFile with tus", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should send large uploads through the tus HTTP stack of the transport", async () => {
+    const cid = await rawCid(data);
+    const stack = new MockTusStack();
+    const { client, request } = createMockClient(undefined, {}, portalUrl, stack);
+    const onUploadProgress = jest.fn();
+
+    await expect(client.uploadFile(file, { largeFileSize: 10, onUploadProgress })).resolves.toEqual({ cid });
+
+    expect(stack.requests.map(({ method }) => method)).toEqual(["POST", "PATCH"]);
+    expect([...stack.uploads.values()]).toEqual([
+      {
+        length: data.length,
+        data,
+        metadata: {
+          hash: encodeBase64Url(CID.decode(cid).hash),
+          filename: "data.bin",
+          filetype: "application/octet-stream",
+        },
+      },
+    ]);
+    expect(onUploadProgress).toHaveBeenLastCalledWith(1, { loaded: data.length, total: data.length });
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it("should send the session token with large uploads", async () => {
+    const stack = new MockTusStack();
+    const { client } = createMockClient(undefined, { authToken: "token" }, portalUrl, stack);
+
+    await client.uploadFile(file, { largeFileSize: 10 });
+
+    expect(stack.requests[0].headers).toMatchObject({ Authorization: "Bearer token" });
+  });
+
+  it("should upload large files with the tus options", async () => {
+    const { Upload } = mockTusUpload();
+    const { client } = createMockClient();
+
+    const { cid } = await client.uploadFile(file, { largeFileSize: 10, retryDelays: [0, 1] });
+
+    expect(cid).toEqual(await rawCid(data));
+    expect(Upload.mock.calls[0][1]).toMatchObject({
+      endpoint: `${portalUrl}/s5/upload/tus`,
+      retryDelays: [0, 1],
+      removeFingerprintOnSuccess: true,
+      metadata: { hash: encodeBase64Url(CID.decode(cid).hash), filename: "data.bin" },
+    });
+  });
+
+  it("should keep the tus defaults for unset options", async () => {
+    const { Upload } = mockTusUpload();
+    const { client } = createMockClient();
+
+    await client.uploadFile(file, { largeFileSize: 10 });
+
+    expect(Upload.mock.calls[0][1]).not.toHaveProperty("urlStorage");
+  });
+
+  it("should read the file in slices in Node", async () => {
+    const { Upload } = mockTusUpload();
+    const { client } = createMockClient();
+
+    await client.uploadFile(file, { largeFileSize: 10 });
+
+    const { fileReader, onBeforeRequest } = Upload.mock.calls[0][1] as Required<UploadOptions>;
+    const source = await fileReader.openFile(file, 0);
+    expect(source.size).toEqual(data.length);
+    await expect(source.slice(0, 60)).resolves.toEqual({ value: expect.objectContaining({ size: 60 }), done: false });
+    await expect(source.slice(60, 200)).resolves.toEqual({ value: expect.objectContaining({ size: 40 }), done: true });
+    // There is no underlying request in Node before it is sent.
+    expect(() => onBeforeRequest({ getUnderlyingObject: () => undefined } as unknown as tus.HttpRequest)).not.toThrow();
+  });
+
+  it("should resume uploads found in the upload store", async () => {
+    const { Upload, upload } = mockTusUpload();
+    const { client } = createMockClient();
+    const uploadStore = new MemoryUploadStore();
+    const previousUpload = { size: data.length, metadata: {}, creationTime: "2024-01-01T00:00:00.000Z" };
+
+    await client.uploadFile(file, { largeFileSize: 10, uploadStore });
+    const { fingerprint } = Upload.mock.calls[0][1] as Required<UploadOptions>;
+    await uploadStore.addUpload(await fingerprint(file, upload.options), previousUpload);
+    await client.uploadFile(file, { largeFileSize: 10, uploadStore });
+
+    expect(upload.resumeFromPreviousUpload).toHaveBeenCalledTimes(1);
+    expect(upload.resumeFromPreviousUpload).toHaveBeenCalledWith(expect.objectContaining(previousUpload));
+  });
+
+  it("should hash large files in a worker and report the progress", async () => {
+    mockTusUpload();
+    const { client } = createMockClient();
+    const onHashProgress = jest.fn();
+
+    const { cid } = await client.uploadFile(file, { largeFileSize: 10, hashInWorker: true, onHashProgress });
+
+    expect(cid).toEqual(await rawCid(data));
+    expect(onHashProgress).toHaveBeenLastCalledWith(1);
+  });
+
+  it("should hash large files while they are sent", async () => {
+    const { Upload, upload } = mockTusUpload();
+    const { client } = createMockClient();
+    const onHashProgress = jest.fn();
+    upload.start.mockImplementation(async () => {
+      const source = await (upload.options as Required<UploadOptions>).fileReader.openFile(file, 60);
+      await source.slice(0, 60);
+      // Slices sent again after a retry are not hashed twice.
+      await source.slice(0, 60);
+      await source.slice(80, 100);
+      upload.options.onSuccess?.();
+    });
+
+    const { cid } = await client.uploadFile(file, { largeFileSize: 10, hashWhileUploading: true, onHashProgress });
+
+    expect(cid).toEqual(await rawCid(data));
+    expect(Upload.mock.calls[0][1].metadata).not.toHaveProperty("hash");
+    expect(onHashProgress.mock.calls.map(([progress]) => progress)).toEqual([0.6, 0.8, 1]);
+  });
+
+  it("should upload large streams while hashing them", async () => {
+    const { Upload, upload } = mockTusUpload();
+    const { client } = createMockClient();
+    const stream = Readable.from([data.slice(0, 30), data.slice(30, 90), data.slice(90)]);
+    upload.start.mockImplementation(async () => {
+      const source = await (upload.options as Required<UploadOptions>).fileReader.openFile(file, 60);
+      expect(await source.slice(0, 60)).toEqual({ value: expect.objectContaining({ size: 60 }), done: false });
+      // The last slice can be sent again after a failed request.
+      await source.slice(0, 60);
+      expect(await source.slice(60, 120)).toEqual({ value: expect.objectContaining({ size: 40 }), done: true });
+      await expect(source.slice(0, 60)).rejects.toThrow("Cannot read offset 0 of the stream again");
+      upload.options.onSuccess?.();
+    });
+
+    const { cid } = await client.uploadFile({ stream, size: 100, name: "data.json" }, { largeFileSize: 10 });
+
+    expect(cid).toEqual(await rawCid(data));
+    expect(Upload.mock.calls[0][1]).toMatchObject({
+      storeFingerprintForResuming: false,
+      metadata: { filename: "data.json", filetype: "application/json" },
+    });
+    expect(upload.resumeFromPreviousUpload).not.toHaveBeenCalled();
+  });
+
+  it("should reject large streams that do not have the announced size", async () => {
+    mockTusUpload();
+    const { client } = createMockClient();
+
+    await expect(client.uploadFile({ stream: Readable.from([data]), size: 99 }, { largeFileSize: 10 })).rejects.toThrow(
+      "Stream produced 100 bytes, expected 99"
+    );
+  });
+
+  it("should reject with an UploadError with the body of the last response", async () => {
+    const error = Object.assign(new Error("tus: unexpected response"), {
+      originalRequest: { getURL: () => `${portalUrl}/s5/upload/tus/1`, getMethod: () => "PATCH" },
+      originalResponse: { getBody: () => "quota exceeded\n", getStatus: () => 507 },
+    });
+    mockTusUpload(error);
+    const { client } = createMockClient();
+
+    await expect(client.uploadFile(file, { largeFileSize: 10 })).rejects.toMatchObject({
+      constructor: UploadError,
+      message: "quota exceeded",
+      responseStatus: 507,
+      isRetryable: true,
+      url: `${portalUrl}/s5/upload/tus/1`,
+      method: "PATCH",
+      portalUrl,
+    });
+  });
+
+  it("should not retry upload errors without a request", async () => {
+    mockTusUpload(new Error("Could not read the file"));
+    const { client } = createMockClient();
+
+    await expect(client.uploadFile(file, { largeFileSize: 10 })).rejects.toMatchObject({
+      constructor: UploadError,
+      message: "Could not read the file",
+      isRetryable: false,
+      url: `${portalUrl}/s5/upload/tus`,
+    });
+  });
+});
+
+describe("uploadFile with a controller", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should abort small uploads", async () => {
+    const controller = new UploadController();
+    const { client, request } = createMockClient(async (config) => {
+      controller.abort();
+      expect(config.signal && config.signal.aborted).toBe(true);
+      return { status: null };
+    });
+
+    await expect(client.uploadFile(file, { controller })).rejects.toThrow();
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop following the signal once uploads settled", async () => {
+    const cid = await rawCid(data);
+    const { client } = createMockClient(() => ({ data: { cid } }));
+    const controller = new UploadController();
+    const { signal } = new AbortController();
+    const addEventListener = jest.spyOn(signal, "addEventListener");
+    const removeEventListener = jest.spyOn(signal, "removeEventListener");
+
+    await client.uploadFile(file, { controller, signal });
+    await client.uploadFile(file, { controller, signal });
+
+    expect(addEventListener).toHaveBeenCalledTimes(2);
+    expect(removeEventListener).toHaveBeenCalledTimes(2);
+  });
+
+  it("should abort large uploads and terminate them on the portal", async () => {
+    const { upload } = mockTusUpload();
+    const { client } = createMockClient();
+    const abortController = new AbortController();
+    upload.start.mockImplementation(() => abortController.abort());
+
+    const promise = client.uploadFile(file, { largeFileSize: 10, signal: abortController.signal });
+
+    await expect(promise).rejects.toMatchObject({ name: "AbortError" });
+    expect(upload.abort).toHaveBeenCalledWith(true);
+  });
+
+  it("should detach aborted large uploads from their controller", async () => {
+    const { upload } = mockTusUpload();
+    const { client } = createMockClient();
+    const controller = new UploadController();
+    const detach = jest.fn();
+    jest.spyOn(controller, "attach").mockReturnValue(detach);
+    upload.start.mockImplementation(() => controller.abort());
+
+    await expect(client.uploadFile(file, { largeFileSize: 10, controller })).rejects.toThrow("Upload was aborted");
+    expect(detach).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not start large uploads that were aborted before", async () => {
+    const { Upload } = mockTusUpload();
+    const { client } = createMockClient();
+    const controller = new UploadController();
+    controller.abort();
+
+    await expect(client.uploadFile(file, { largeFileSize: 10, controller })).rejects.toThrow("Upload was aborted");
+    expect(Upload).not.toHaveBeenCalled();
+  });
+
+  it("should not pause large uploads that finished", async () => {
+    const { upload } = mockTusUpload();
+    const { client } = createMockClient();
+    const controller = new UploadController();
+
+    await client.uploadFile(file, { largeFileSize: 10, controller });
+    controller.pause();
+    controller.abort();
+
+    expect(upload.abort).not.toHaveBeenCalled();
+  });
+
+  it("should pause and resume large uploads", async () => {
+    const { upload } = mockTusUpload();
+    const { client } = createMockClient();
+    const controller = new UploadController();
+    controller.pause();
+
+    const promise = client.uploadFile(file, { largeFileSize: 10, controller });
+    await waitFor(() => upload.abort.mock.calls.length > 0);
+    expect(upload.start).not.toHaveBeenCalled();
+    expect(upload.abort).toHaveBeenCalledWith(false);
+    controller.resume();
+
+    await expect(promise).resolves.toEqual({ cid: await rawCid(data) });
+    expect(upload.start).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,15 +1,50 @@
-import { AxiosResponse } from "axios";
-import { DetailedError, HttpRequest, Upload } from "tus-js-client";
+import type { AxiosResponse } from "axios";
+import { DetailedError, FileReader as TusFileReader, HttpRequest, Upload } from "tus-js-client";
 
-import * as blake3 from "blake3-wasm";
-import { Buffer } from "buffer";
-
-import { getFileMimeType } from "./utils/file";
+import {
+  concatBytes,
+  createFile,
+  DEFAULT_FILENAME,
+  getFileMimeType,
+  getMimeTypeFromName,
+  inputToFile,
+  isReadableInput,
+  ReadableInput,
+  readLocalDirectory,
+  UploadInput,
+} from "./utils/file";
+import { compileIgnorePatterns } from "./utils/ignore";
+import { mapConcurrently } from "./utils/async";
 import { BaseCustomOptions, DEFAULT_BASE_OPTIONS } from "./utils/options";
+import { createProgressEvent } from "./utils/progress";
 import { S5Client } from "./client";
 import { JsonData } from "./utils/types";
 import { buildRequestHeaders, buildRequestUrl } from "./request";
-import { mhashBlake3Default, cidTypeRaw } from "./constants";
+import { DEFAULT_DOWNLOAD_OPTIONS } from "./download";
+import { CID } from "./cid";
+import {
+  cidTypeMetadataMedia,
+  cidTypeMetadataWebApp,
+  cidTypeRaw,
+  encryptionAlgorithmXChaCha20Poly1305,
+} from "./constants";
+import {
+  EncryptedCID,
+  encryptContent,
+  ENCRYPTION_TAG_LENGTH,
+  genEncryptionKey,
+  getEncryptionChunkSizePower,
+  getEncryptionPadding,
+  readBlob,
+} from "./encryption";
+import { KeyPair } from "./crypto";
+import { UploadController } from "./controller";
+import { UploadStore } from "./store";
+import { encodeMetadata, FileReference, MediaMetadata, Metadata, signMetadata, WebAppMetadata } from "./metadata";
+import { validationError } from "./utils/validation";
+import { IntegrityError, NotFoundError, UploadError } from "./errors";
+import { encodeBase64Url } from "./utils/encoding";
+import { canHashInWorker, computeFileCid, createHasher, HASH_CHUNK_SIZE, Hasher } from "./utils/hash";
 
 /**
  * The tus chunk size is (4MiB - encryptionOverhead) * dataPieces, set as default.
@@ -22,11 +57,22 @@ export const TUS_CHUNK_SIZE = (1 << 22) * 8;
  */
 const DEFAULT_TUS_RETRY_DELAYS = [0, 5_000, 15_000, 60_000, 300_000, 600_000];
 
+/**
+ * The prefix of the fingerprints that identify tus uploads in upload stores.
+ */
+const TUS_FINGERPRINT_PREFIX = "s5-tus";
+
 /**
  * The portal file field name.
  */
 const PORTAL_FILE_FIELD_NAME = "file";
 
+/**
+ * The cids of files that were hashed before they are uploaded, e.g. to find
+ * unchanged files of a directory, so they are not hashed again.
+ */
+const hashedFileCids = new WeakMap<Blob, CID>();
+
 /**
  * Custom upload options.
  *
@@ -37,20 +83,69 @@ const PORTAL_FILE_FIELD_NAME = "file";
  * @property [largeFileSize=32943040] - The size at which files are considered "large" and will be uploaded using the tus resumable upload protocol. This is the size of one chunk by default (32 mib). Note that this does not affect the actual size of chunks used by the protocol.
  * @property [errorPages] - Defines a mapping of error codes and subfiles which are to be served in case we are serving the respective error code. All subfiles referred like this must be defined with absolute paths and must exist.
  * @property [retryDelays=[0, 5_000, 15_000, 60_000, 300_000, 600_000]] - An array or undefined, indicating how many milliseconds should pass before the next attempt to uploading will be started after the transfer has been interrupted. The array's length indicates the maximum number of attempts.
+ * @property [controller] - An `UploadController` to pause, resume or abort the upload with.
+ * @property [signal] - A signal that aborts the upload and cancels its network requests.
+ * @property [hashInWorker=false] - Whether to hash large files in a `worker_threads` worker before uploading them. Node only, with the CommonJS build; large uploads with this option throw elsewhere.
+ * @property [hashWhileUploading=false] - Whether to hash large files while they are being uploaded instead of before, so they are only read once. The portal then receives no `hash` in the tus metadata and must accept such uploads. With `verifyCid`, the portal is asked for the locally computed cid once the upload finished instead. Uploads can only be resumed while the file object is unchanged.
+ * @property [onHashProgress] - Called with the fraction of a large file that was hashed.
+ * @property [uploadStore] - Where to keep the state of large uploads so they can be resumed after a page reload or process restart, e.g. a `FileUploadStore`. Defaults to `localStorage` in browsers and no storage in Node.
+ * @property [verifyCid=true] - Whether to compute the CID of uploaded content locally and compare it to the CID returned by the portal. The CID of a directory sent in a single request is computed by the portal and can't be checked; use `uploadFilesIndividually` to verify it.
+ * @property [verifyDirectoryFiles=true] - Whether to download the metadata of a directory sent in a single request, verify it against its cid and check that it references the locally computed CIDs of its files. This costs an extra request and hashes every file.
+ * @property [uploadFilesIndividually=false] - Whether to upload the files of a directory one by one, using tus for large ones, and build the directory metadata locally instead of sending all files in a single request.
+ * @property [previousDirectoryCid] - The cid of the previous version of a directory. Files that are part of it are not uploaded again. Implies `uploadFilesIndividually`.
+ * @property [maxConcurrentUploads=4] - The maximum number of files uploaded at the same time when uploading files individually.
+ * @property [encrypt=false] - Whether to encrypt files with XChaCha20-Poly1305 before uploading them. The returned encrypted cid contains the key. Uploading directories or metadata with this option throws.
+ * @property [uploadReplicas=1] - To how many portals of a client with several portals a file is uploaded. Portals that fail are replaced by the remaining ones, and all portals must return the same cid. Not supported for streams and encrypted files. Directories and metadata are always uploaded to a single portal.
+ * @property [portalUrl] - The portal to upload a file to, instead of the next portal of the client. The upload is not moved to other portals if it fails.
  * @property [tryFiles] - Allows us to set a list of potential subfiles to return in case the requested one does not exist or is a directory. Those subfiles might be listed with relative or absolute paths. If the path is absolute the file must exist.
  */
 export type CustomUploadOptions = BaseCustomOptions & {
   endpointUpload?: string;
-  endpointDirectoryUpload: string;
+  endpointDirectoryUpload?: string;
   endpointLargeUpload?: string;
 
   customFilename?: string;
   errorPages?: JsonData;
   tryFiles?: string[];
+  verifyCid?: boolean;
+  verifyDirectoryFiles?: boolean;
+  encrypt?: boolean;
+  uploadReplicas?: number;
+  portalUrl?: string;
+  uploadFilesIndividually?: boolean;
+  previousDirectoryCid?: string;
+  maxConcurrentUploads?: number;
 
   // Large files.
   largeFileSize?: number;
   retryDelays?: number[];
+  uploadStore?: UploadStore;
+  hashInWorker?: boolean;
+  hashWhileUploading?: boolean;
+  onHashProgress?: (progress: number) => void;
+
+  controller?: UploadController;
+  signal?: AbortSignal;
+};
+
+/**
+ * Custom options for uploading metadata.
+ *
+ * @property [signingKeyPairs] - Key pairs to attach Ed25519 signature proofs with.
+ */
+export type CustomUploadMetadataOptions = CustomUploadOptions & {
+  signingKeyPairs?: KeyPair[];
+};
+
+/**
+ * Custom options for uploading a local directory.
+ *
+ * @property [ignore] - Gitignore-style patterns of files and directories to skip, e.g. `["*.map", ".git/", "!keep.map"]`.
+ * @property [followSymlinks=false] - Whether to upload the targets of symbolic links. Otherwise links are skipped.
+ */
+export type CustomUploadDirectoryFromPathOptions = CustomUploadOptions & {
+  ignore?: string[];
+  followSymlinks?: boolean;
 };
 
 /**
@@ -81,36 +176,67 @@ export const DEFAULT_UPLOAD_OPTIONS = {
   customFilename: "",
   errorPages: { 404: "/404.html" },
   tryFiles: ["index.html"],
+  verifyCid: true,
+  verifyDirectoryFiles: true,
+  encrypt: false,
+  uploadReplicas: 1,
+  portalUrl: undefined,
+  uploadFilesIndividually: false,
+  previousDirectoryCid: undefined,
+  maxConcurrentUploads: 4,
 
   // Large files.
   largeFileSize: TUS_CHUNK_SIZE,
   retryDelays: DEFAULT_TUS_RETRY_DELAYS,
+  uploadStore: undefined,
+  hashInWorker: false,
+  hashWhileUploading: false,
+  onHashProgress: undefined,
+
+  controller: undefined,
+  signal: undefined,
 };
 
 /**
  * Uploads a file to S5-net.
  *
  * @param this - S5Client
- * @param file - The file to upload.
+ * @param file - The file to upload: a `File` or `Blob`, its bytes, the path of a local file or a `ReadableInput` stream with a known size. Paths and streams are only supported in Node.
  * @param [customOptions] - Additional settings that can optionally be set.
  * @param [customOptions.endpointUpload="/s5/upload"] - The relative URL path of the portal endpoint to contact for small uploads.
  * @param [customOptions.endpointDirectoryUpload="/s5/upload/directory"] - The relative URL path of the portal endpoint to contact for Directory uploads.
  * @param [customOptions.endpointLargeUpload="/s5/upload/tus"] - The relative URL path of the portal endpoint to contact for large uploads.
- * @returns - The returned cid.
+ * @param [customOptions.encrypt=false] - Whether to encrypt the file before uploading it.
+ * @param [customOptions.uploadReplicas=1] - To how many portals the file is uploaded.
+ * @returns - The returned cid, or the encrypted cid for encrypted files.
  * @throws - Will throw if the request is successful but the upload response does not contain a complete response.
+ * @throws - Will throw an `IntegrityError` if replicas were uploaded and the portals returned different cids.
  */
 export async function uploadFile(
   this: S5Client,
-  file: File,
+  file: UploadInput,
   customOptions?: CustomUploadOptions
 ): Promise<UploadRequestResponse> {
   const opts = { ...DEFAULT_UPLOAD_OPTIONS, ...this.customOptions, ...customOptions };
 
-  if (file.size < opts.largeFileSize) {
-    return this.uploadSmallFile(file, opts);
-  } else {
+  if (opts.uploadReplicas > 1) {
+    return uploadReplicatedFile(this, file, opts);
+  }
+  if (opts.encrypt) {
+    return uploadEncryptedFile(this, file, opts);
+  }
+
+  // Large streams are sent as they are read instead of being buffered.
+  if (isReadableInput(file) && file.size >= opts.largeFileSize) {
     return this.uploadLargeFile(file, opts);
   }
+
+  const uploadedFile = await inputToFile(file);
+  if (uploadedFile.size < opts.largeFileSize) {
+    return this.uploadSmallFile(uploadedFile, opts);
+  } else {
+    return this.uploadLargeFile(uploadedFile, opts);
+  }
 }
 
 /**
@@ -122,13 +248,23 @@ export async function uploadFile(
  * @param [customOptions.endpointUpload="/s5/upload"] - The relative URL path of the portal endpoint to contact.
  * @returns - The returned cid.
  * @throws - Will throw if the request is successful but the upload response does not contain a complete response.
+ * @throws - Will throw an `IntegrityError` if the returned cid does not match the locally computed one.
  */
 export async function uploadSmallFile(
   this: S5Client,
   file: File,
   customOptions: CustomUploadOptions
 ): Promise<UploadRequestResponse> {
-  const response = await this.uploadSmallFileRequest(file, customOptions);
+  const opts = { ...DEFAULT_UPLOAD_OPTIONS, ...this.customOptions, ...customOptions };
+
+  const [response, localCid] = await Promise.all([
+    this.uploadSmallFileRequest(file, opts),
+    opts.verifyCid ? hashedFileCids.get(file) || computeFileCid(file) : undefined,
+  ]);
+
+  if (localCid) {
+    verifyReturnedCid(localCid, response.data.cid);
+  }
 
   const responsedS5Cid = { cid: response.data.cid };
   return responsedS5Cid;
@@ -158,22 +294,26 @@ export async function uploadSmallFileRequest(
     formData.append(PORTAL_FILE_FIELD_NAME, file);
   }
 
-  const response = await this.executeRequest({
-    ...opts,
-    endpointPath: opts.endpointUpload,
-    method: "post",
-    data: formData,
-  });
-
-  return response;
+  const { signal, release } = getUploadSignal(opts);
+  try {
+    return await this.executeRequest({
+      ...opts,
+      url: opts.portalUrl,
+      endpointPath: opts.endpointUpload,
+      method: "post",
+      data: formData,
+      signal,
+    });
+  } finally {
+    release();
+  }
 }
 
-/* istanbul ignore next */
 /**
  * Uploads a large file to S5-net using tus.
  *
  * @param this - S5Client
- * @param file - The file to upload.
+ * @param file - The file or stream to upload.
  * @param [customOptions] - Additional settings that can optionally be set.
  * @param [customOptions.endpointLargeUpload="/s5/upload/tus"] - The relative URL path of the portal endpoint to contact.
  * @returns - The returned cid.
@@ -181,7 +321,7 @@ export async function uploadSmallFileRequest(
  */
 export async function uploadLargeFile(
   this: S5Client,
-  file: File,
+  file: File | ReadableInput,
   customOptions?: CustomUploadOptions
 ): Promise<UploadRequestResponse> {
   const response = await this.uploadLargeFileRequest(file, customOptions);
@@ -190,31 +330,49 @@ export async function uploadLargeFile(
   return responsedS5Cid;
 }
 
-/* istanbul ignore next */
 /**
  * Makes a request to upload a file to S5-net.
  *
  * @param this - S5Client
- * @param file - The file to upload.
+ * @param file - The file or stream to upload. Streams are hashed while they are uploaded.
  * @param [customOptions] - Additional settings that can optionally be set.
  * @param [customOptions.endpointLargeUpload="/s5/upload/tus"] - The relative URL path of the portal endpoint to contact.
  * @returns - The upload response.
+ * @throws - Will throw an `UploadError` if the upload fails after all retries.
+ * @throws - Will throw if `hashInWorker` is set without `worker_threads` or `require`, e.g. in browsers.
+ * @throws - Will throw an `IntegrityError` if the file was hashed while uploading and the portal does not serve the computed cid.
  */
 export async function uploadLargeFileRequest(
   this: S5Client,
-  file: File,
+  file: File | ReadableInput,
   customOptions?: CustomUploadOptions
 ): Promise<UploadTusRequestResponse> {
   const opts = { ...DEFAULT_UPLOAD_OPTIONS, ...this.customOptions, ...customOptions };
 
   // Validation.
-  const url = await buildRequestUrl(this, { endpointPath: opts.endpointLargeUpload });
-  const headers = buildRequestHeaders(undefined, opts.customUserAgent, opts.customCookie, opts.s5ApiKey);
+  if (opts.hashInWorker && !canHashInWorker()) {
+    throw validationError("hashInWorker", opts.hashInWorker, "option", "false without worker_threads and require");
+  }
+  const portalUrl = opts.portalUrl || (await this.portalUrl());
+  const url = await buildRequestUrl(this, { baseUrl: portalUrl, endpointPath: opts.endpointLargeUpload });
+  const headers = buildRequestHeaders(
+    undefined,
+    opts.customUserAgent,
+    opts.customCookie,
+    opts.s5ApiKey,
+    opts.authToken
+  );
 
-  file = ensureFileObjectConsistency(file);
-  let filename = file.name;
-  if (opts.customFilename) {
-    filename = opts.customFilename;
+  const hashedCid = isReadableInput(file) ? undefined : hashedFileCids.get(file);
+  let filename: string;
+  let filetype: string;
+  if (isReadableInput(file)) {
+    filename = opts.customFilename || file.name || DEFAULT_FILENAME;
+    filetype = file.type || getMimeTypeFromName(filename);
+  } else {
+    file = ensureFileObjectConsistency(file);
+    filename = opts.customFilename || file.name;
+    filetype = file.type;
   }
 
   const onProgress =
@@ -226,76 +384,147 @@ export async function uploadLargeFileRequest(
       opts.onUploadProgress(progress, { loaded: bytesSent, total: bytesTotal });
     };
 
-  await blake3.load();
-
-  const hasher = blake3.createHash();
-
-  const chunkSize = 1024 * 1024;
-  let position = 0;
-  while (position <= file.size) {
-    const chunk = file.slice(position, position + chunkSize);
-    hasher.update(await chunk.arrayBuffer());
-    position += chunkSize;
-  }
-  const b3hash = hasher.digest();
-  const hash = Buffer.concat([Buffer.alloc(1, mhashBlake3Default), Buffer.from(b3hash)]);
-  const cid = Buffer.concat([Buffer.alloc(1, cidTypeRaw), hash, numberToBuffer(file.size)]);
-
-  /**
-   * convert a number to Buffer.
-   *
-   * @param value - File objects to upload, indexed by their path strings.
-   * @returns - The returned cid.
-   * @throws - Will throw if the request is successful but the upload response does not contain a complete response.
-   */
-  function numberToBuffer(value: number) {
-    const view = Buffer.alloc(16);
-    let lastIndex = 15;
-    for (let index = 0; index <= 15; ++index) {
-      if (value % 256 !== 0) {
-        lastIndex = index;
-      }
-      view[index] = value % 256;
-      value = value >> 8;
-    }
-    return view.subarray(0, lastIndex + 1);
+  let cid: CID | undefined;
+  let hashingReader: HashingFileReader | undefined;
+  if (isReadableInput(file)) {
+    hashingReader = createHashingStreamReader(file, await createHasher(), opts.onHashProgress);
+  } else if (hashedCid) {
+    cid = hashedCid;
+  } else if (opts.hashWhileUploading) {
+    hashingReader = createHashingFileReader(file, await createHasher(), opts.onHashProgress);
+  } else {
+    cid = await computeFileCid(file, { onProgress: opts.onHashProgress, useWorker: opts.hashInWorker });
   }
+  const { signal, release } = getUploadSignal(opts);
 
   return new Promise((resolve, reject) => {
+    if (signal && signal.aborted) {
+      release();
+      reject(uploadAbortedError());
+      return;
+    }
+
+    // Identify uploads by their content, so they can be resumed even if the
+    // file object changed, e.g. after a page reload. Without the CID, fall
+    // back to the file properties. Streams can't be resumed.
+    const stream = isReadableInput(file) ? file.stream : undefined;
+    let fileReader = hashingReader && hashingReader.fileReader;
+    if (!fileReader && typeof window === "undefined") {
+      // The Node file reader of tus only supports Buffers and Node streams.
+      fileReader = createBlobFileReader(file as File);
+    }
+    let fingerprint = `${TUS_FINGERPRINT_PREFIX}-${filename}-${file.size}-${url}`;
+    if (cid) {
+      fingerprint = `${TUS_FINGERPRINT_PREFIX}-${cid.toBase64Url()}-${url}`;
+    } else if (!stream) {
+      fingerprint = `${TUS_FINGERPRINT_PREFIX}-${filename}-${file.size}-${(file as File).lastModified}-${url}`;
+    }
+
+    // Stop controlling the upload and following its signals once it finished,
+    // so pausing or aborting other uploads can't affect it.
+    let detach: (() => void) | undefined;
+    const onAbort = () => {
+      finish();
+      // Terminate the upload so the portal can free its state.
+      upload.abort(true).catch(() => undefined);
+      reject(uploadAbortedError());
+    };
+    const finish = () => {
+      if (detach) {
+        detach();
+      }
+      if (signal) {
+        signal.removeEventListener("abort", onAbort);
+      }
+      release();
+    };
+
     const tusOpts = {
       endpoint: url,
-      //      retryDelays: opts.retryDelays,
+      retryDelays: opts.retryDelays,
+      fingerprint: async () => fingerprint,
+      storeFingerprintForResuming: !stream,
+      removeFingerprintOnSuccess: true,
+      // Options set to `undefined` would replace the tus defaults.
+      ...(opts.uploadStore ? { urlStorage: opts.uploadStore } : {}),
+      ...(this.transport.tusHttpStack ? { httpStack: this.transport.tusHttpStack } : {}),
+      // Custom readers buffer one chunk at a time.
+      ...(fileReader ? { fileReader, chunkSize: TUS_CHUNK_SIZE } : {}),
       metadata: {
-        hash: hash.toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace("=", ""),
+        ...(cid ? { hash: encodeBase64Url(cid.hash) } : {}),
         filename,
-        filetype: file.type,
+        filetype,
       },
       headers,
       onProgress,
       onBeforeRequest: function (req: HttpRequest) {
         const xhr = req.getUnderlyingObject();
-        xhr.withCredentials = true;
+        // Only XHR needs to be told to send cookies.
+        if (typeof XMLHttpRequest !== "undefined" && xhr instanceof XMLHttpRequest) {
+          xhr.withCredentials = true;
+        }
       },
       onError: (error: Error | DetailedError) => {
-        // Return error body rather than entire error.
-        const res = (error as DetailedError).originalResponse;
-        const newError = res ? new Error(res.getBody().trim()) || error : error;
-        reject(newError);
+        finish();
+        const uploadError = toUploadError(error, url, portalUrl);
+        this.reportPortalRequest(portalUrl, uploadError);
+        reject(uploadError);
       },
       onSuccess: async () => {
+        finish();
+        this.reportPortalRequest(portalUrl);
         if (!upload.url) {
           reject(new Error("'upload.url' was not set"));
           return;
         }
 
-        const resCid = "u" + cid.toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace("=", "");
-        const resolveData = { data: { cid: resCid } };
-        resolve(resolveData);
+        try {
+          let uploadedCid = cid;
+          if (!uploadedCid) {
+            uploadedCid = CID.fromHash(await (hashingReader as HashingFileReader).digest(), cidTypeRaw, file.size);
+            // The portal could not check the content against a hash it did not receive.
+            if (opts.verifyCid) {
+              await verifyUploadedCid(this, uploadedCid, portalUrl, opts);
+            }
+          }
+          resolve({ data: { cid: uploadedCid.toBase64Url() } });
+        } catch (e) {
+          reject(e);
+        }
       },
     };
 
-    const upload = new Upload(file, tusOpts);
-    upload.start();
+    // The input is only passed to the file reader, which reads streams itself.
+    const upload = new Upload(stream ? (stream as unknown as Blob) : (file as File), tusOpts);
+
+    if (signal) {
+      signal.addEventListener("abort", onAbort, { once: true });
+    }
+
+    // Resume from the last acknowledged offset if this file was uploaded before.
+    (stream ? Promise.resolve([]) : upload.findPreviousUploads())
+      .then((previousUploads) => {
+        if (signal && signal.aborted) {
+          return;
+        }
+        if (previousUploads.length > 0) {
+          upload.resumeFromPreviousUpload(previousUploads[0]);
+        }
+        if (opts.controller) {
+          detach = opts.controller.attach({
+            // Aborting without terminating keeps the upload on the portal.
+            pause: () => upload.abort(false).catch(() => undefined),
+            resume: () => upload.start(),
+          });
+        }
+        if (!opts.controller || !opts.controller.paused) {
+          upload.start();
+        }
+      })
+      .catch((e) => {
+        finish();
+        reject(e);
+      });
   });
 }
 
@@ -307,8 +536,11 @@ export async function uploadLargeFileRequest(
  * @param filename - The name of the directory.
  * @param [customOptions] - Additional settings that can optionally be set.
  * @param [customOptions.endpointPath="/s5/upload/directory"] - The relative URL path of the portal endpoint to contact.
+ * @param [customOptions.verifyDirectoryFiles=true] - Whether to check the files referenced by the directory metadata.
  * @returns - The returned cid.
  * @throws - Will throw if the request is successful but the upload response does not contain a complete response.
+ * @throws - Will throw an `IntegrityError` if `verifyDirectoryFiles` is set and the directory metadata does not match its cid or does not reference the locally computed file cids.
+ * @throws - Will throw if the `encrypt` option is set, since directories can't be encrypted.
  */
 export async function uploadDirectory(
   this: S5Client,
@@ -316,12 +548,173 @@ export async function uploadDirectory(
   filename: string,
   customOptions?: CustomUploadOptions
 ): Promise<UploadRequestResponse> {
-  const response = await this.uploadDirectoryRequest(directory, filename, customOptions);
+  const opts = { ...DEFAULT_UPLOAD_OPTIONS, ...this.customOptions, ...customOptions };
+  if (opts.encrypt) {
+    throw validationError("encrypt", opts.encrypt, "option", "false for directories");
+  }
 
-  const responsedS5Cid = { cid: response.data.cid };
+  if (opts.uploadFilesIndividually || opts.previousDirectoryCid) {
+    return this.uploadDirectoryFiles(directory, filename, opts);
+  }
+
+  const response = await this.uploadDirectoryRequest(directory, filename, opts);
+  const cid: string = response.data.cid;
+
+  if (opts.verifyDirectoryFiles) {
+    // The directory cid is computed by the portal from metadata we can't
+    // reproduce byte for byte, so check the files it references instead.
+    const metadata = await this.downloadMetadata(cid);
+    if (metadata.type !== "web_app") {
+      throw new IntegrityError(`Metadata of directory '${cid}' is not web app metadata`, "web_app", metadata.type);
+    }
+
+    for (const [path, file] of Object.entries(directory)) {
+      const localCid = await computeFileCid(file);
+      const reference = metadata.paths[path];
+      if (!reference) {
+        throw new IntegrityError(
+          `Directory metadata for '${cid}' does not contain path '${path}'`,
+          localCid.toBase64Url(),
+          ""
+        );
+      }
+      verifyReturnedCid(localCid, reference.cid.toBase64Url());
+    }
+  }
+
+  const responsedS5Cid = { cid };
   return responsedS5Cid;
 }
 
+/**
+ * Uploads a local directory tree to S5-net. Node only.
+ *
+ * @param this - S5Client
+ * @param dir - The path of the directory.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.ignore] - Gitignore-style patterns of files and directories to skip.
+ * @param [customOptions.followSymlinks=false] - Whether to upload the targets of symbolic links.
+ * @param [customOptions.customFilename] - The name of the directory. Defaults to the name of the local directory.
+ * @returns - The returned cid.
+ * @throws - Will throw if the directory does not contain any files to upload.
+ */
+export async function uploadDirectoryFromPath(
+  this: S5Client,
+  dir: string,
+  customOptions?: CustomUploadDirectoryFromPathOptions
+): Promise<UploadRequestResponse> {
+  const opts = { ...DEFAULT_UPLOAD_OPTIONS, ...this.customOptions, ...customOptions };
+
+  const ignore = compileIgnorePatterns(opts.ignore || []);
+  const directory = await readLocalDirectory(dir, ignore, opts.followSymlinks || false);
+  if (Object.keys(directory).length === 0) {
+    throw new Error(`Directory '${dir}' does not contain any files to upload`);
+  }
+
+  const filename = opts.customFilename || getLocalDirectoryName(dir);
+  return this.uploadDirectory(directory, filename, opts);
+}
+
+/**
+ * Uploads the files of a directory one by one and uploads web app metadata
+ * referencing them, built locally, as the directory.
+ *
+ * If the cid of a previous version of the directory is given, its verified
+ * metadata is downloaded and the files are hashed locally first. Files that
+ * are part of the previous version, at any path, are referenced without
+ * uploading them again and count as uploaded for the progress.
+ *
+ * @param this - S5Client
+ * @param directory - File objects to upload, indexed by their path strings.
+ * @param filename - The name of the directory.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.maxConcurrentUploads=4] - The maximum number of files uploaded at the same time.
+ * @param [customOptions.previousDirectoryCid] - The cid of the previous version of the directory.
+ * @returns - The cid of the web app metadata.
+ * @throws - Will throw if an error page is not an absolute path.
+ * @throws - Will throw if the previous version is not web app metadata.
+ */
+export async function uploadDirectoryFiles(
+  this: S5Client,
+  directory: Record<string, File>,
+  filename: string,
+  customOptions?: CustomUploadOptions
+): Promise<UploadRequestResponse> {
+  const opts = { ...DEFAULT_UPLOAD_OPTIONS, ...this.customOptions, ...customOptions };
+
+  const tryFiles = opts.tryFiles || [];
+  const errorPages: Record<number, string> = {};
+  for (const [code, path] of Object.entries((opts.errorPages || {}) as Record<string, string>)) {
+    if (!path.startsWith("/")) {
+      throw validationError(`errorPages[${code}]`, path, "option", "an absolute path");
+    }
+    // Skip error pages that are not part of the directory, e.g. the default 404 page.
+    if (directory[path.slice(1)]) {
+      errorPages[Number(code)] = path;
+    }
+  }
+
+  // Report the progress of all files together.
+  const entries = Object.entries(directory);
+  const total = entries.reduce((size, [, file]) => size + file.size, 0);
+  const loaded = new Array<number>(entries.length).fill(0);
+  const { onUploadProgress } = opts;
+  const onFileProgress = (index: number, fileSize: number) =>
+    onUploadProgress &&
+    ((progress: number) => {
+      loaded[index] = progress * fileSize;
+      const sum = loaded.reduce((a, b) => a + b, 0);
+      onUploadProgress(total ? sum / total : 1, createProgressEvent(sum, total));
+    });
+
+  // The cids of the files of the previous version, by their base64url encoding.
+  const previousCids = new Set<string>();
+  if (opts.previousDirectoryCid) {
+    const metadata = await this.downloadMetadata(opts.previousDirectoryCid);
+    if (metadata.type !== "web_app") {
+      throw validationError("previousDirectoryCid", opts.previousDirectoryCid, "option", "a web app metadata cid");
+    }
+    for (const reference of Object.values(metadata.paths)) {
+      previousCids.add(reference.cid.toBase64Url());
+    }
+  }
+
+  const references = await mapConcurrently(entries, opts.maxConcurrentUploads, async ([path, file], index) => {
+    const contentType = getFileMimeType(file);
+    const onProgress = onFileProgress(index, file.size);
+    if (previousCids.size > 0) {
+      const localCid = await computeFileCid(file);
+      if (previousCids.has(localCid.toBase64Url())) {
+        if (onProgress) {
+          onProgress(1);
+        }
+        return { path, reference: { cid: localCid, contentType } };
+      }
+      // Upload the file without hashing it again.
+      hashedFileCids.set(file, localCid);
+    }
+
+    // Directories are uploaded to a single portal.
+    const { cid } = await this.uploadFile(file, {
+      ...opts,
+      uploadReplicas: 1,
+      customFilename: "",
+      onUploadProgress: onProgress,
+    });
+    return { path, reference: { cid: CID.decode(cid), contentType } };
+  });
+
+  const paths: Record<string, FileReference> = {};
+  for (const { path, reference } of references) {
+    paths[path] = reference;
+  }
+
+  return this.uploadMetadata(
+    { type: "web_app", name: filename, tryFiles, errorPages, paths, extensions: { unknown: new Map() } },
+    opts
+  );
+}
+
 /**
  * Makes a request to upload a directory to S5-net.
  *
@@ -355,15 +748,450 @@ export async function uploadDirectoryRequest(
     query.errorpages = JSON.stringify(opts.errorPages);
   }
 
-  const response = await this.executeRequest({
-    ...opts,
-    endpointPath: opts.endpointDirectoryUpload,
-    method: "post",
-    data: formData,
-    query,
+  const { signal, release } = getUploadSignal(opts);
+  try {
+    return await this.executeRequest({
+      ...opts,
+      endpointPath: opts.endpointDirectoryUpload,
+      method: "post",
+      data: formData,
+      query,
+      signal,
+    });
+  } finally {
+    release();
+  }
+}
+
+/**
+ * Serializes metadata and uploads it to S5-net.
+ *
+ * @param this - S5Client
+ * @param metadata - The media or web app metadata to upload.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.signingKeyPairs] - Key pairs to sign the metadata with.
+ * @returns - The metadata cid, e.g. of type `cidTypeMetadataMedia` for media metadata.
+ * @throws - Will throw if the metadata type does not have a cid type.
+ * @throws - Will throw if the `encrypt` option is set, since metadata can't be encrypted.
+ */
+export async function uploadMetadata(
+  this: S5Client,
+  metadata: MediaMetadata | WebAppMetadata,
+  customOptions?: CustomUploadMetadataOptions
+): Promise<UploadRequestResponse> {
+  const opts = { ...DEFAULT_UPLOAD_OPTIONS, ...this.customOptions, ...customOptions };
+  if (opts.encrypt) {
+    throw validationError("encrypt", opts.encrypt, "option", "false for metadata");
+  }
+
+  let cidType: number;
+  if (metadata.type === "media") {
+    cidType = cidTypeMetadataMedia;
+  } else if (metadata.type === "web_app") {
+    cidType = cidTypeMetadataWebApp;
+  } else {
+    throw validationError("metadata.type", (metadata as Metadata).type, "parameter", "'media' or 'web_app'");
+  }
+
+  let bytes = encodeMetadata(metadata);
+  if (opts.signingKeyPairs && opts.signingKeyPairs.length > 0) {
+    bytes = await signMetadata(bytes, opts.signingKeyPairs);
+  }
+
+  const file = createFile([bytes], "metadata", { type: "application/octet-stream" });
+  // Metadata is uploaded to a single portal.
+  const { cid } = await this.uploadFile(file, { ...customOptions, uploadReplicas: 1 });
+
+  // The metadata cid references the same hash as the raw cid of the file.
+  const metadataCid = new CID(cidType, CID.decode(cid).hash);
+  return { cid: metadataCid.toBase64Url() };
+}
+
+/**
+ * Uploads a file to several portals of the client. Every upload that fails is
+ * retried on the next portal that wasn't tried yet.
+ *
+ * @param client - The S5 client.
+ * @param input - The file to upload.
+ * @param opts - The upload options.
+ * @returns - The cid returned by all portals.
+ * @throws - Will throw if the file can't be replicated, or if fewer portals than replicas succeeded.
+ * @throws - Will throw an `IntegrityError` if the portals returned different cids.
+ */
+async function uploadReplicatedFile(
+  client: S5Client,
+  input: UploadInput,
+  opts: CustomUploadOptions & { uploadReplicas: number }
+): Promise<UploadRequestResponse> {
+  if (isReadableInput(input)) {
+    throw validationError("file", input, "parameter", "a file, bytes or a path when uploading replicas");
+  }
+  if (opts.encrypt) {
+    throw validationError("uploadReplicas", opts.uploadReplicas, "option", "1 for encrypted files");
+  }
+  // Try the portals that are currently healthy first.
+  const candidates = client.portals.sort((a, b) => a.unhealthyUntil - b.unhealthyUntil).map(({ url }) => url);
+  if (candidates.length < opts.uploadReplicas) {
+    throw validationError(
+      "uploadReplicas",
+      opts.uploadReplicas,
+      "option",
+      `at most the number of portals of the client (${candidates.length})`
+    );
+  }
+
+  const file = await inputToFile(input);
+  const uploadReplica = async (): Promise<string> => {
+    let lastError: unknown;
+    while (candidates.length > 0) {
+      try {
+        const { cid } = await client.uploadFile(file, { ...opts, uploadReplicas: 1, portalUrl: candidates.shift() });
+        return cid;
+      } catch (e) {
+        if (opts.signal && opts.signal.aborted) {
+          throw e;
+        }
+        lastError = e;
+      }
+    }
+    throw lastError;
+  };
+  const cids = await Promise.all(Array.from({ length: opts.uploadReplicas }, uploadReplica));
+
+  const mismatch = cids.find((cid) => cid !== cids[0]);
+  if (mismatch !== undefined) {
+    throw new IntegrityError("Portals returned different cids for the same file", cids[0], mismatch);
+  }
+  return { cid: cids[0] };
+}
+
+/**
+ * Encrypts a file chunk by chunk while uploading it. The content is never
+ * buffered as a whole, and its name and type are not sent to the portal.
+ *
+ * @param client - The S5 client.
+ * @param input - The file to upload.
+ * @param opts - The upload options.
+ * @returns - The encrypted cid.
+ */
+async function uploadEncryptedFile(
+  client: S5Client,
+  input: UploadInput,
+  opts: CustomUploadOptions
+): Promise<UploadRequestResponse> {
+  let content: AsyncIterable<Uint8Array>;
+  let size: number;
+  if (isReadableInput(input)) {
+    content = input.stream as AsyncIterable<Uint8Array>;
+    size = input.size;
+  } else {
+    const file = await inputToFile(input);
+    content = readBlob(file, HASH_CHUNK_SIZE);
+    size = file.size;
+  }
+
+  const key = await genEncryptionKey();
+  const chunkSizePower = getEncryptionChunkSizePower(size);
+  const padding = getEncryptionPadding(size, chunkSizePower);
+  const chunks = (size + padding) / 2 ** chunkSizePower;
+  const encryptedSize = chunks * (2 ** chunkSizePower + ENCRYPTION_TAG_LENGTH);
+
+  // Hash the unencrypted content for the original cid as it is encrypted.
+  const hasher = await createHasher();
+  const encrypted = encryptContent(content, size, key, chunkSizePower, (piece) => hasher.update(piece));
+  const { cid } = await client.uploadFile(
+    { stream: encrypted, size: encryptedSize },
+    { ...opts, encrypt: false, customFilename: "" }
+  );
+
+  const encryptedCid = new EncryptedCID(
+    encryptionAlgorithmXChaCha20Poly1305,
+    chunkSizePower,
+    CID.decode(cid).hash,
+    key,
+    padding,
+    CID.fromHash(hasher.digest(), cidTypeRaw, size)
+  );
+  return { cid: encryptedCid.toBase64Url() };
+}
+
+/**
+ * Compares a cid returned by the portal to the locally computed one.
+ *
+ * @param localCid - The locally computed cid.
+ * @param returnedCid - The cid returned by the portal, in any supported encoding.
+ * @throws - Will throw an `IntegrityError` if the cids don't match or the returned cid is invalid.
+ */
+function verifyReturnedCid(localCid: CID, returnedCid: string): void {
+  if (!CID.isValid(returnedCid) || !CID.decode(returnedCid).equals(localCid)) {
+    throw new IntegrityError(
+      `Portal returned cid '${returnedCid}', expected '${localCid.toBase64Url()}'`,
+      localCid.toBase64Url(),
+      returnedCid
+    );
+  }
+}
+
+/**
+ * Checks that the portal serves the content of a large upload under the cid
+ * computed while it was sent.
+ *
+ * @param client - The S5 client.
+ * @param cid - The locally computed cid.
+ * @param portalUrl - The portal the content was uploaded to.
+ * @param opts - The upload options.
+ * @throws - Will throw an `IntegrityError` if the portal does not serve the cid.
+ */
+async function verifyUploadedCid(
+  client: S5Client,
+  cid: CID,
+  portalUrl: string,
+  opts: CustomUploadOptions
+): Promise<void> {
+  try {
+    await client.executeRequest({
+      ...opts,
+      url: portalUrl,
+      method: "head",
+      endpointPath: DEFAULT_DOWNLOAD_OPTIONS.endpointDownload,
+      extraPath: cid.toBase64Url(),
+      onUploadProgress: undefined,
+    });
+  } catch (e) {
+    if (e instanceof NotFoundError) {
+      throw new IntegrityError(
+        `Portal does not serve the uploaded content under the locally computed cid '${cid.toBase64Url()}'`,
+        cid.toBase64Url(),
+        "",
+        { portalUrl }
+      );
+    }
+    throw e;
+  }
+}
+
+/**
+ * Creates a tus file reader that reads slices of a file.
+ *
+ * @param file - The file to upload.
+ * @returns - The file reader.
+ */
+function createBlobFileReader(file: File): TusFileReader {
+  return {
+    openFile: async () => ({
+      size: file.size,
+      slice: async (start: number, end: number) => {
+        end = Math.min(end, file.size);
+        const bytes = new Uint8Array(await file.slice(start, end).arrayBuffer());
+        // The Node HTTP stack of tus reads the content length from `size`.
+        return { value: Object.assign(bytes, { size: bytes.length }), done: end >= file.size };
+      },
+      close: () => undefined,
+    }),
+  };
+}
+
+/**
+ * Returns the signal that aborts an upload, combining the `controller` and
+ * `signal` options.
+ *
+ * @param opts - The upload options.
+ * @returns - The abort signal, if any, and a function to call once the upload settled.
+ */
+function getUploadSignal(opts: CustomUploadOptions): { signal?: AbortSignal; release: () => void } {
+  if (!opts.controller) {
+    return { signal: opts.signal, release: () => undefined };
+  }
+  const release = opts.signal ? opts.controller.follow(opts.signal) : () => undefined;
+  return { signal: opts.controller.signal, release };
+}
+
+/**
+ * A tus file reader that hashes the file while tus reads it for sending.
+ *
+ * @property fileReader - The reader to pass to tus.
+ * @property digest - Hashes any bytes that were not sent and returns the digest of the whole file.
+ */
+type HashingFileReader = {
+  fileReader: TusFileReader;
+  digest: () => Promise<Uint8Array>;
+};
+
+/**
+ * Creates a tus file reader that feeds the slices tus sends into the hasher,
+ * so the file is only read once. Slices that are sent again after a retry
+ * are not hashed twice. Bytes that tus skips, e.g. when resuming an upload,
+ * are read from the file separately.
+ *
+ * @param file - The file to upload.
+ * @param hasher - The hasher to feed.
+ * @param [onHashProgress] - Called with the fraction of the file that was hashed.
+ * @returns - The file reader.
+ */
+function createHashingFileReader(
+  file: File,
+  hasher: Hasher,
+  onHashProgress?: (progress: number) => void
+): HashingFileReader {
+  let hashedBytes = 0;
+
+  const hashed = (bytes: Uint8Array) => {
+    hasher.update(bytes);
+    hashedBytes += bytes.length;
+    if (onHashProgress) {
+      onHashProgress(hashedBytes / file.size);
+    }
+  };
+  const hashUpTo = async (end: number) => {
+    while (hashedBytes < end) {
+      const chunk = file.slice(hashedBytes, Math.min(hashedBytes + HASH_CHUNK_SIZE, end));
+      hashed(new Uint8Array(await chunk.arrayBuffer()));
+    }
+  };
+
+  const fileReader = {
+    openFile: async () => ({
+      size: file.size,
+      slice: async (start: number, end: number) => {
+        end = Math.min(end, file.size);
+        const bytes = new Uint8Array(await file.slice(start, end).arrayBuffer());
+        await hashUpTo(start);
+        if (end > hashedBytes) {
+          hashed(bytes.subarray(hashedBytes - start));
+        }
+        // The Node HTTP stack of tus reads the content length from `size`.
+        return { value: Object.assign(bytes, { size: bytes.length }), done: end >= file.size };
+      },
+      close: () => undefined,
+    }),
+  };
+
+  return {
+    fileReader,
+    digest: async () => {
+      await hashUpTo(file.size);
+      return hasher.digest();
+    },
+  };
+}
+
+/**
+ * Creates a tus file reader for a stream that hashes the data as it is read.
+ * The data of the last slice is kept, so tus can send it again after a
+ * failed request.
+ *
+ * @param input - The stream to upload.
+ * @param hasher - The hasher to feed.
+ * @param [onHashProgress] - Called with the fraction of the stream that was hashed.
+ * @returns - The file reader.
+ */
+function createHashingStreamReader(
+  input: ReadableInput,
+  hasher: Hasher,
+  onHashProgress?: (progress: number) => void
+): HashingFileReader {
+  const chunks = input.stream[Symbol.asyncIterator]();
+  let buffer = new Uint8Array(0);
+  let bufferStart = 0;
+  let pending: Uint8Array[] = [];
+  let readBytes = 0;
+
+  const readUpTo = async (end: number) => {
+    while (readBytes < end) {
+      const { value, done } = await chunks.next();
+      if (done) {
+        break;
+      }
+      const bytes: Uint8Array = typeof value === "string" ? new TextEncoder().encode(value) : value;
+      hasher.update(bytes);
+      pending.push(bytes);
+      readBytes += bytes.length;
+      if (onHashProgress) {
+        onHashProgress(Math.min(readBytes / input.size, 1));
+      }
+    }
+  };
+
+  const fileReader = {
+    openFile: async () => ({
+      size: input.size,
+      slice: async (start: number, end: number) => {
+        end = Math.min(end, input.size);
+        if (start < bufferStart) {
+          throw new Error(`Cannot read offset ${start} of the stream again`);
+        }
+        await readUpTo(end);
+
+        // Drop the data before the slice, the portal has received it.
+        buffer = concatBytes([buffer.subarray(start - bufferStart), ...pending]);
+        bufferStart = start;
+        pending = [];
+
+        const bytes = buffer.slice(0, end - start);
+        return { value: Object.assign(bytes, { size: bytes.length }), done: end >= input.size };
+      },
+      close: () => undefined,
+    }),
+  };
+
+  return {
+    fileReader,
+    digest: async () => {
+      // Make sure the stream doesn't produce more data than announced.
+      await readUpTo(input.size + 1);
+      if (readBytes !== input.size) {
+        throw new Error(`Stream produced ${readBytes} bytes, expected ${input.size}`);
+      }
+      return hasher.digest();
+    },
+  };
+}
+
+/**
+ * Converts an error of a tus upload to an `UploadError`, with the body of the
+ * last response as the message rather than the entire error.
+ *
+ * @param error - The tus error.
+ * @param url - The tus endpoint URL.
+ * @param portalUrl - The portal URL.
+ * @returns - The upload error.
+ */
+function toUploadError(error: Error | DetailedError, url: string, portalUrl: string): UploadError {
+  const { originalRequest, originalResponse } = error as DetailedError;
+  const body = originalResponse ? originalResponse.getBody().trim() : "";
+  const status = originalResponse ? originalResponse.getStatus() : null;
+  const uploadError = new UploadError(body || error.message, error, status, body || null, {
+    url: originalRequest ? originalRequest.getURL() : url,
+    method: originalRequest ? originalRequest.getMethod() : undefined,
+    portalUrl,
   });
+  // Errors without a request, e.g. from reading the file, are not network failures.
+  if (!originalRequest) {
+    uploadError.isRetryable = false;
+  }
+  return uploadError;
+}
 
-  return response;
+/**
+ * Returns the error that aborted uploads reject with.
+ *
+ * @returns - The error.
+ */
+function uploadAbortedError(): Error {
+  const error = new Error("Upload was aborted");
+  error.name = "AbortError";
+  return error;
+}
+
+/**
+ * Returns the name of a local directory, ignoring trailing separators.
+ *
+ * @param dir - The path of the directory.
+ * @returns - The directory name.
+ */
+function getLocalDirectoryName(dir: string): string {
+  const parts = dir.split(/[\\/]/).filter((part) => part !== "" && part !== ".");
+  return parts.length > 0 ? parts[parts.length - 1] : "directory";
 }
 
 /**
@@ -377,5 +1205,6 @@ export async function uploadDirectoryRequest(
  * @returns - The processed file.
  */
 function ensureFileObjectConsistency(file: File): File {
-  return new File([file], file.name, { type: getFileMimeType(file) });
+  // Keep the modification time, which identifies resumable uploads.
+  return createFile([file], file.name, { type: getFileMimeType(file), lastModified: file.lastModified });
 }
@@ -0,0 +1,44 @@
+/**
+ * Returns a promise that resolves after the given amount of time.
+ *
+ * @param ms - The delay in milliseconds.
+ * @returns - A promise that resolves after the delay.
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Calls an async function for every item, running at most `limit` calls at
+ * the same time. Rejects with the first error, without starting new calls.
+ *
+ * @param items - The items.
+ * @param limit - The maximum number of concurrent calls.
+ * @param fn - The function to call.
+ * @returns - The results, in the order of the items.
+ */
+export async function mapConcurrently<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (e) {
+        failed = true;
+        throw e;
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,71 @@
+import {
+  decodeBase32,
+  decodeBase58,
+  decodeBase64Url,
+  decodeNumber,
+  encodeBase32,
+  encodeBase58,
+  encodeBase64Url,
+  encodeEndian,
+  encodeNumber,
+} from "./encoding";
+
+const bytes = new Uint8Array([0, 0, 251, 255, 1, 2]);
+
+describe("base64url", () => {
+  it("should round-trip bytes", () => {
+    const encoded = encodeBase64Url(bytes);
+
+    expect(encoded).toEqual("AAD7_wEC");
+    expect(decodeBase64Url(encoded)).toEqual(bytes);
+    expect(decodeBase64Url("AAD7_wE=")).toEqual(bytes.subarray(0, 5));
+  });
+
+  it("should reject invalid strings", () => {
+    expect(() => decodeBase64Url("AA+/")).toThrow("Invalid base64url string 'AA+/'");
+  });
+});
+
+describe("base32", () => {
+  it("should round-trip bytes", () => {
+    const encoded = encodeBase32(bytes);
+
+    expect(encoded).toEqual("aaapx7ybai");
+    expect(decodeBase32(encoded)).toEqual(bytes);
+    expect(decodeBase32("AAAPX7YBAI======")).toEqual(bytes);
+  });
+
+  it("should reject invalid strings", () => {
+    expect(() => decodeBase32("aa1")).toThrow("Invalid base32 character '1'");
+  });
+});
+
+describe("base58", () => {
+  it("should round-trip bytes", () => {
+    const encoded = encodeBase58(bytes);
+
+    expect(encoded.startsWith("11")).toBe(true);
+    expect(decodeBase58(encoded)).toEqual(bytes);
+    expect(decodeBase58("")).toEqual(new Uint8Array(0));
+  });
+
+  it("should reject invalid strings", () => {
+    expect(() => decodeBase58("10")).toThrow("Invalid base58 character '0'");
+  });
+});
+
+describe("encodeNumber", () => {
+  it.each([
+    [0, [0]],
+    [255, [255]],
+    [256, [0, 1]],
+    [2 ** 40 + 7, [7, 0, 0, 0, 0, 1]],
+  ])("should round-trip %s", (value, expected) => {
+    expect(encodeNumber(value)).toEqual(new Uint8Array(expected));
+    expect(decodeNumber(encodeNumber(value))).toEqual(value);
+  });
+
+  it("should encode numbers with a fixed length", () => {
+    expect(encodeEndian(258, 4)).toEqual(new Uint8Array([2, 1, 0, 0]));
+  });
+});
@@ -0,0 +1,198 @@
+import base32Encode from "base32-encode";
+import { Buffer } from "buffer";
+
+import { trimSuffix } from "./string";
+
+/**
+ * The alphabet used by the base58btc encoding.
+ */
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+/**
+ * The alphabet used by the lowercase RFC 4648 base32 encoding.
+ */
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+/**
+ * Encodes the given bytes as an unpadded base64url string.
+ *
+ * @param bytes - The bytes to encode.
+ * @returns - The base64url string.
+ */
+export function encodeBase64Url(bytes: Uint8Array): string {
+  const base64 = Buffer.from(bytes).toString("base64");
+  return trimSuffix(base64.replace(/\+/g, "-").replace(/\//g, "_"), "=");
+}
+
+/**
+ * Decodes the given base64url string, with or without padding.
+ *
+ * @param str - The base64url string.
+ * @returns - The decoded bytes.
+ * @throws - Will throw if the string contains characters outside of the base64url alphabet.
+ */
+export function decodeBase64Url(str: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*=*$/.test(str)) {
+    throw new Error(`Invalid base64url string '${str}'`);
+  }
+  const base64 = str.replace(/-/g, "+").replace(/_/g, "/");
+  return new Uint8Array(Buffer.from(base64, "base64"));
+}
+
+/**
+ * Encodes the given bytes as a lowercase, unpadded RFC 4648 base32 string.
+ *
+ * @param bytes - The bytes to encode.
+ * @returns - The base32 string.
+ */
+export function encodeBase32(bytes: Uint8Array): string {
+  return base32Encode(bytes, "RFC4648", { padding: false }).toLowerCase();
+}
+
+/**
+ * Decodes the given RFC 4648 base32 string. Case and padding are ignored.
+ *
+ * @param str - The base32 string.
+ * @returns - The decoded bytes.
+ * @throws - Will throw if the string contains characters outside of the base32 alphabet.
+ */
+export function decodeBase32(str: string): Uint8Array {
+  str = trimSuffix(str.toLowerCase(), "=");
+
+  const bytes = new Uint8Array(Math.floor((str.length * 5) / 8));
+  let bits = 0;
+  let value = 0;
+  let index = 0;
+  for (const char of str) {
+    const digit = BASE32_ALPHABET.indexOf(char);
+    if (digit === -1) {
+      throw new Error(`Invalid base32 character '${char}'`);
+    }
+    value = (value << 5) | digit;
+    bits += 5;
+    if (bits >= 8) {
+      bytes[index++] = (value >>> (bits - 8)) & 0xff;
+      bits -= 8;
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Encodes the given bytes as a base58btc string.
+ *
+ * @param bytes - The bytes to encode.
+ * @returns - The base58 string.
+ */
+export function encodeBase58(bytes: Uint8Array): string {
+  // Leading zero bytes are encoded as leading '1' characters.
+  let zeroes = 0;
+  while (zeroes < bytes.length && bytes[zeroes] === 0) {
+    zeroes++;
+  }
+
+  // Repeatedly divide the big-endian number by 58, collecting remainders.
+  const digits: number[] = [];
+  for (let i = zeroes; i < bytes.length; i++) {
+    let carry = bytes[i];
+    for (let j = 0; j < digits.length; j++) {
+      carry += digits[j] << 8;
+      digits[j] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+
+  let str = BASE58_ALPHABET[0].repeat(zeroes);
+  for (let i = digits.length - 1; i >= 0; i--) {
+    str += BASE58_ALPHABET[digits[i]];
+  }
+  return str;
+}
+
+/**
+ * Decodes the given base58btc string.
+ *
+ * @param str - The base58 string.
+ * @returns - The decoded bytes.
+ * @throws - Will throw if the string contains characters outside of the base58 alphabet.
+ */
+export function decodeBase58(str: string): Uint8Array {
+  let zeroes = 0;
+  while (zeroes < str.length && str[zeroes] === BASE58_ALPHABET[0]) {
+    zeroes++;
+  }
+
+  // Repeatedly multiply the little-endian byte array by 58, adding digits.
+  const bytes: number[] = [];
+  for (let i = zeroes; i < str.length; i++) {
+    let carry = BASE58_ALPHABET.indexOf(str[i]);
+    if (carry === -1) {
+      throw new Error(`Invalid base58 character '${str[i]}'`);
+    }
+    for (let j = 0; j < bytes.length; j++) {
+      carry += bytes[j] * 58;
+      bytes[j] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  const result = new Uint8Array(zeroes + bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    result[result.length - 1 - i] = bytes[i];
+  }
+  return result;
+}
+
+/**
+ * Encodes a number as a little-endian byte array, with trailing zero bytes
+ * removed. Zero is encoded as a single zero byte.
+ *
+ * @param value - The non-negative integer to encode.
+ * @returns - The encoded bytes.
+ */
+export function encodeNumber(value: number): Uint8Array {
+  const bytes: number[] = [];
+  do {
+    bytes.push(value % 256);
+    value = Math.floor(value / 256);
+  } while (value > 0);
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Encodes a number as a little-endian byte array of a fixed length.
+ *
+ * @param value - The non-negative integer to encode.
+ * @param length - The number of bytes.
+ * @returns - The encoded bytes.
+ */
+export function encodeEndian(value: number, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    bytes[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  return bytes;
+}
+
+/**
+ * Decodes a little-endian byte array into a number.
+ *
+ * @param bytes - The bytes to decode.
+ * @returns - The decoded number.
+ */
+export function decodeNumber(bytes: Uint8Array): number {
+  let value = 0;
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    value = value * 256 + bytes[i];
+  }
+  return value;
+}
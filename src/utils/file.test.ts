@@ -0,0 +1,168 @@
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Readable } from "stream";
+
+import { createFile, DEFAULT_FILENAME, getFileMimeType, inputToFile, isFile, readLocalDirectory } from "./file";
+import { compileIgnorePatterns } from "./ignore";
+
+/**
+ * Reads the content of a file as text.
+ *
+ * @param file - The file.
+ * @returns - The text.
+ */
+function readText(file: Blob): Promise<string> {
+  return file.text();
+}
+
+describe("createFile", () => {
+  /**
+   * Replaces a property for the duration of a test.
+   *
+   * @param object - The object.
+   * @param key - The property.
+   * @returns - A function restoring the property.
+   */
+  function removeProperty(object: object, key: string): () => void {
+    const descriptor = Object.getOwnPropertyDescriptor(object, key) as PropertyDescriptor;
+    Object.defineProperty(object, key, { value: undefined, configurable: true });
+    return () => Object.defineProperty(object, key, descriptor);
+  }
+
+  it.each([
+    ["without the File global", ["File"]],
+    ["without the File global and buffer.File", ["File", "buffer.File"]],
+  ])("should create files %s", async (_name, properties) => {
+    const restore = properties.map((property) =>
+      property === "File" ? removeProperty(global, "File") : removeProperty(jest.requireActual("buffer"), "File")
+    );
+
+    try {
+      const file = createFile(["content"], "file.txt", { type: "text/plain", lastModified: 1 });
+
+      expect(isFile(file)).toBe(true);
+      expect(file).toMatchObject({ name: "file.txt", type: "text/plain", lastModified: 1 });
+      await expect(readText(file)).resolves.toEqual("content");
+      expect(createFile([], "empty").lastModified).toBeGreaterThan(1);
+    } finally {
+      restore.forEach((restoreProperty) => restoreProperty());
+    }
+  });
+});
+
+describe("getFileMimeType", () => {
+  it.each([
+    ["image.png", "", "image/png"],
+    ["image.png", "image/custom", "image/custom"],
+    ["file.unknownext", "", ""],
+    ["file", "", ""],
+  ])("should get the type of '%s' with the type '%s'", (name, type, expected) => {
+    expect(getFileMimeType(new File([], name, { type }))).toEqual(expected);
+  });
+});
+
+describe("inputToFile", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), "s5-file-"));
+    await fs.writeFile(join(dir, "index.html"), "<html></html>");
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should return files unchanged", async () => {
+    const file = new File(["content"], "file.txt");
+
+    await expect(inputToFile(file)).resolves.toBe(file);
+  });
+
+  it("should convert blobs and bytes", async () => {
+    const fromBlob = await inputToFile(new Blob(["blob"], { type: "text/plain" }));
+    const fromBytes = await inputToFile(new TextEncoder().encode("bytes"));
+
+    expect(fromBlob).toMatchObject({ name: DEFAULT_FILENAME, type: "text/plain" });
+    await expect(readText(fromBlob)).resolves.toEqual("blob");
+    expect(fromBytes).toMatchObject({ name: DEFAULT_FILENAME, type: "" });
+    await expect(readText(fromBytes)).resolves.toEqual("bytes");
+  });
+
+  it.each([
+    ["with openAsBlob", true],
+    ["without openAsBlob", false],
+  ])("should open local files %s", async (_name, hasOpenAsBlob) => {
+    const nodeFs = jest.requireActual("fs");
+    const openAsBlob = nodeFs.openAsBlob;
+    if (!hasOpenAsBlob) {
+      nodeFs.openAsBlob = undefined;
+    }
+
+    try {
+      const file = await inputToFile(join(dir, "index.html"));
+
+      expect(file).toMatchObject({ name: "index.html", type: "text/html" });
+      await expect(readText(file)).resolves.toEqual("<html></html>");
+    } finally {
+      nodeFs.openAsBlob = openAsBlob;
+    }
+  });
+
+  it("should read streams", async () => {
+    const file = await inputToFile({ stream: Readable.from(["a", "b"]), size: 2, name: "data.json" });
+    const unnamed = await inputToFile({ stream: Readable.from([new Uint8Array([1])]), size: 1, type: "x/y" });
+
+    expect(file).toMatchObject({ name: "data.json", type: "application/json" });
+    await expect(readText(file)).resolves.toEqual("ab");
+    expect(unnamed).toMatchObject({ name: DEFAULT_FILENAME, type: "x/y" });
+  });
+
+  it("should throw if a stream does not have the announced size", async () => {
+    await expect(inputToFile({ stream: Readable.from(["abc"]), size: 2 })).rejects.toThrow(
+      "Stream produced 3 bytes, expected 2"
+    );
+  });
+
+  it("should throw for unsupported input", async () => {
+    await expect(inputToFile(1 as unknown as string)).rejects.toThrow("Unsupported upload input type 'number'");
+  });
+});
+
+describe("readLocalDirectory", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), "s5-dir-"));
+    const site = join(dir, "site");
+    await fs.mkdir(join(site, "css"), { recursive: true });
+    await fs.mkdir(join(dir, "shared"));
+    await fs.writeFile(join(site, "index.html"), "<html></html>");
+    await fs.writeFile(join(site, "app.js.map"), "{}");
+    await fs.writeFile(join(site, "css", "main.css"), "body {}");
+    await fs.writeFile(join(dir, "shared", "logo.svg"), "<svg></svg>");
+    await fs.symlink(join(dir, "shared"), join(site, "shared"));
+    await fs.symlink(join(site, "index.html"), join(site, "home.html"));
+    // A link back to the directory itself must not be followed forever.
+    await fs.symlink(site, join(site, "css", "site"));
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should read the files of a directory and skip links", async () => {
+    const files = await readLocalDirectory(`${join(dir, "site")}//`, compileIgnorePatterns([]), false);
+
+    expect(Object.keys(files)).toEqual(["app.js.map", "css/main.css", "index.html"]);
+    expect(files["css/main.css"].type).toEqual("text/css");
+    await expect(readText(files["index.html"])).resolves.toEqual("<html></html>");
+  });
+
+  it("should follow links and skip ignored files", async () => {
+    const files = await readLocalDirectory(join(dir, "site"), compileIgnorePatterns(["*.map"]), true);
+
+    expect(Object.keys(files)).toEqual(["css/main.css", "home.html", "index.html", "shared/logo.svg"]);
+  });
+});
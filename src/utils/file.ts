@@ -1,8 +1,40 @@
+import * as buffer from "buffer";
+import * as fs from "fs";
 import mime from "mime/lite";
 import path from "path-browserify";
+import type { Readable } from "stream";
 
+import { IgnoreMatcher } from "./ignore";
 import { trimPrefix } from "./string";
 
+/**
+ * The filename used for uploaded data that has no name.
+ */
+export const DEFAULT_FILENAME = "file";
+
+/**
+ * A Node `Readable` stream, or any async iterable of bytes, with a known
+ * size, uploaded as a file.
+ *
+ * @property stream - The stream of the file content.
+ * @property size - The number of bytes the stream will produce.
+ * @property [name] - The filename.
+ * @property [type] - The mime type. Guessed from the filename if not set.
+ */
+export type ReadableInput = {
+  stream: Readable | AsyncIterable<Uint8Array>;
+  size: number;
+  name?: string;
+  type?: string;
+};
+
+/**
+ * Anything that can be uploaded as a file: a `File` or `Blob`, the bytes as a
+ * `Uint8Array` or `Buffer`, the path of a local file or a `ReadableInput`.
+ * Paths and streams are only supported in Node.
+ */
+export type UploadInput = File | Blob | Uint8Array | string | ReadableInput;
+
 /**
  * Get the file mime type. In case the type is not provided, try to guess the
  * file type based on the extension.
@@ -12,7 +44,17 @@ import { trimPrefix } from "./string";
  */
 export function getFileMimeType(file: File): string {
   if (file.type) return file.type;
-  let ext = path.extname(file.name);
+  return getMimeTypeFromName(file.name);
+}
+
+/**
+ * Guesses the mime type of a file based on the extension of its name.
+ *
+ * @param name - The filename.
+ * @returns - The mime type, or an empty string if it is unknown.
+ */
+export function getMimeTypeFromName(name: string): string {
+  let ext = path.extname(name);
   ext = trimPrefix(ext, ".");
   if (ext !== "") {
     const mimeType = mime.getType(ext);
@@ -22,3 +64,196 @@ export function getFileMimeType(file: File): string {
   }
   return "";
 }
+
+/**
+ * Checks whether the given upload input is a `ReadableInput`.
+ *
+ * @param input - The upload input.
+ * @returns - Whether the input is a stream.
+ */
+export function isReadableInput(input: unknown): input is ReadableInput {
+  return (
+    typeof input === "object" &&
+    input !== null &&
+    "stream" in input &&
+    typeof (input as ReadableInput).stream === "object" &&
+    Symbol.asyncIterator in (input as ReadableInput).stream
+  );
+}
+
+/**
+ * Creates a `File`. `File` is not a global before Node 20, so Node's
+ * `buffer.File` is used there, or a `Blob` with the file properties on Node
+ * versions that don't have it either.
+ *
+ * @param parts - The file content.
+ * @param name - The filename.
+ * @param [options] - The file type and modification time.
+ * @returns - The file.
+ */
+export function createFile(parts: BlobPart[], name: string, options: FilePropertyBag = {}): File {
+  if (typeof File !== "undefined") {
+    return new File(parts, name, options);
+  }
+  const NodeFile = (buffer as { File?: new (parts: BlobPart[], name: string, options?: FilePropertyBag) => File }).File;
+  if (NodeFile) {
+    return new NodeFile(parts, name, options);
+  }
+  return Object.assign(new Blob(parts, options), {
+    name,
+    lastModified: options.lastModified ?? Date.now(),
+    webkitRelativePath: "",
+  });
+}
+
+/**
+ * Checks whether the given value is a `File`, including files created by
+ * `createFile` without the `File` global.
+ *
+ * @param value - The value.
+ * @returns - Whether the value is a file.
+ */
+export function isFile(value: unknown): value is File {
+  return typeof Blob !== "undefined" && value instanceof Blob && typeof (value as File).name === "string";
+}
+
+/**
+ * Converts an upload input into a `File`. Local files are opened without
+ * reading them into memory if the Node version supports it, streams are read
+ * into memory.
+ *
+ * @param input - The upload input.
+ * @returns - The file.
+ * @throws - Will throw if the input type is not supported or a stream does not have the announced size.
+ */
+export async function inputToFile(input: UploadInput): Promise<File> {
+  if (isFile(input)) {
+    return input;
+  }
+  if (typeof input === "string") {
+    return createFile([await openLocalFile(input)], path.basename(input.replace(/\\/g, "/")), {
+      type: getMimeTypeFromName(input),
+    });
+  }
+  if (input instanceof Blob) {
+    return createFile([input], DEFAULT_FILENAME, { type: input.type });
+  }
+  if (input instanceof Uint8Array) {
+    return createFile([input], DEFAULT_FILENAME);
+  }
+  if (isReadableInput(input)) {
+    const name = input.name || DEFAULT_FILENAME;
+    const data = await readStream(input.stream);
+    if (data.length !== input.size) {
+      throw new Error(`Stream produced ${data.length} bytes, expected ${input.size}`);
+    }
+    return createFile([data], name, { type: input.type || getMimeTypeFromName(name) });
+  }
+  throw new Error(`Unsupported upload input type '${typeof input}'`);
+}
+
+/**
+ * Reads the files of a local directory tree, indexed by their paths relative
+ * to the directory with `/` separators. Node only.
+ *
+ * @param dir - The path of the directory.
+ * @param ignore - Decides which files and directories to skip.
+ * @param followSymlinks - Whether to include the targets of symbolic links. Otherwise links are skipped.
+ * @returns - The files.
+ */
+export async function readLocalDirectory(
+  dir: string,
+  ignore: IgnoreMatcher,
+  followSymlinks: boolean
+): Promise<Record<string, File>> {
+  const files: Record<string, File> = {};
+  // The real paths of the directories being read, to detect link cycles.
+  const visited = new Set<string>();
+
+  const walk = async (absolutePath: string, relativePath: string) => {
+    const realPath = await fs.promises.realpath(absolutePath);
+    if (visited.has(realPath)) {
+      return;
+    }
+    visited.add(realPath);
+
+    const entries = await fs.promises.readdir(absolutePath, { withFileTypes: true });
+    // Names are unique within a directory.
+    entries.sort((a, b) => (a.name < b.name ? -1 : 1));
+    for (const entry of entries) {
+      const entryPath = `${absolutePath}/${entry.name}`;
+      const entryRelativePath = relativePath ? `${relativePath}/${entry.name}` : entry.name;
+
+      let isDirectory = entry.isDirectory();
+      let isFile = entry.isFile();
+      if (entry.isSymbolicLink()) {
+        if (!followSymlinks) {
+          continue;
+        }
+        const stats = await fs.promises.stat(entryPath);
+        isDirectory = stats.isDirectory();
+        isFile = stats.isFile();
+      }
+
+      if (ignore(entryRelativePath, isDirectory)) {
+        continue;
+      }
+      if (isDirectory) {
+        await walk(entryPath, entryRelativePath);
+      } else if (isFile) {
+        files[entryRelativePath] = await inputToFile(entryPath);
+      }
+    }
+
+    visited.delete(realPath);
+  };
+
+  // Remove trailing separators, but keep a root directory.
+  await walk(dir.replace(/(.)[\\/]+$/, "$1"), "");
+  return files;
+}
+
+/**
+ * Opens a local file as a `Blob`. Node only.
+ *
+ * @param filePath - The path of the file.
+ * @returns - The file content.
+ */
+async function openLocalFile(filePath: string): Promise<Blob> {
+  // `openAsBlob` is available since Node 19.8 and reads the file lazily.
+  const openAsBlob = (fs as { openAsBlob?: (path: string) => Promise<Blob> }).openAsBlob;
+  if (openAsBlob) {
+    return openAsBlob(filePath);
+  }
+  return new Blob([await fs.promises.readFile(filePath)]);
+}
+
+/**
+ * Reads a Node stream into memory.
+ *
+ * @param stream - The stream.
+ * @returns - The stream content.
+ */
+async function readStream(stream: Readable | AsyncIterable<Uint8Array>): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === "string" ? new TextEncoder().encode(chunk) : chunk);
+  }
+  return concatBytes(chunks);
+}
+
+/**
+ * Concatenates byte arrays.
+ *
+ * @param chunks - The byte arrays.
+ * @returns - The concatenated bytes.
+ */
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
@@ -0,0 +1,137 @@
+import { cidTypeRaw } from "../constants";
+import { computeFileCid, createHasher, HASH_CHUNK_SIZE, hashData, hashFile } from "./hash";
+
+// Reference digests computed with an independent BLAKE3 implementation.
+const emptyDigest = "af1349b9f5f9a1a6a0404dea36dcc9499bcb25c9adc112b7cc9a93cae41f3262";
+const largeDigest = "a7bb55bed0c04f58879d1fc1cafb27e14e931f4411fe63baf5b2d5a60357bffb";
+
+// Larger than the slices blake3-wasm can hash at once.
+const largeData = new Uint8Array(3 * HASH_CHUNK_SIZE + 5).map((_, i) => i % 251);
+
+const toHexString = (bytes: Uint8Array) => Buffer.from(bytes).toString("hex");
+
+describe("hashData", () => {
+  it("should hash empty data", async () => {
+    expect(toHexString(await hashData(new Uint8Array()))).toEqual(emptyDigest);
+  });
+
+  it("should hash data larger than 1 MiB", async () => {
+    expect(toHexString(await hashData(largeData))).toEqual(largeDigest);
+  });
+});
+
+describe("createHasher", () => {
+  it("should give the same digest for data passed in parts", async () => {
+    const hasher = await createHasher();
+    hasher.update(largeData.subarray(0, 12345));
+    hasher.update(largeData.subarray(12345, 2 * HASH_CHUNK_SIZE + 3));
+    hasher.update(largeData.subarray(2 * HASH_CHUNK_SIZE + 3));
+
+    expect(toHexString(hasher.digest())).toEqual(largeDigest);
+  });
+});
+
+describe("hashFile", () => {
+  it.each([false, true])("should hash files larger than 1 MiB with useWorker=%s", async (useWorker) => {
+    const progress: number[] = [];
+    const digest = await hashFile(new Blob([largeData]), {
+      useWorker,
+      onProgress: (fraction) => progress.push(fraction),
+    });
+
+    expect(toHexString(digest)).toEqual(largeDigest);
+    expect(progress).toHaveLength(4);
+    expect(progress[3]).toEqual(1);
+  });
+});
+
+describe("hashFile in a worker", () => {
+  /**
+   * Loads the hash module with a mocked `worker_threads` module.
+   *
+   * @param workerThreads - The mocked module.
+   * @returns - The hash module.
+   */
+  function loadHashModule(workerThreads: Record<string, unknown>): typeof import("./hash") {
+    let hashModule: typeof import("./hash") | undefined;
+    jest.isolateModules(() => {
+      jest.doMock("worker_threads", () => workerThreads);
+      hashModule = jest.requireActual<typeof import("./hash")>("./hash");
+    });
+    return hashModule as typeof import("./hash");
+  }
+
+  /**
+   * A worker that answers every message with the given message.
+   */
+  class FakeWorker {
+    listeners: Record<string, (message: unknown) => void> = {};
+    static reply: unknown = {};
+
+    /**
+     * Registers a listener.
+     *
+     * @param event - The event name.
+     * @param listener - The listener.
+     */
+    once(event: string, listener: (message: unknown) => void) {
+      this.listeners[event] = listener;
+    }
+
+    /**
+     * Removes a listener.
+     *
+     * @param event - The event name.
+     */
+    off(event: string) {
+      delete this.listeners[event];
+    }
+
+    /**
+     * Answers a message.
+     */
+    postMessage() {
+      setImmediate(() => this.listeners.message(FakeWorker.reply));
+    }
+
+    /**
+     * Terminates the worker.
+     *
+     * @returns - The exit code.
+     */
+    async terminate() {
+      return 0;
+    }
+  }
+
+  afterEach(() => {
+    jest.dontMock("worker_threads");
+  });
+
+  it("should reject useWorker without worker_threads", async () => {
+    const { canHashInWorker, hashFile: hashFileWithoutWorker } = loadHashModule({});
+
+    expect(canHashInWorker()).toBe(false);
+    await expect(hashFileWithoutWorker(new Blob([largeData]), { useWorker: true })).rejects.toThrow("useWorker");
+  });
+
+  it.each([
+    [{}, "did not return a digest"],
+    [{ error: "out of memory" }, "Hashing failed: out of memory"],
+  ])("should reject invalid worker answers like %j", async (reply, message) => {
+    FakeWorker.reply = reply;
+    const { hashFile: hashFileWithFakeWorker } = loadHashModule({ Worker: FakeWorker });
+
+    await expect(hashFileWithFakeWorker(new Blob([new Uint8Array(10)]), { useWorker: true })).rejects.toThrow(message);
+  });
+});
+
+describe("computeFileCid", () => {
+  it("should compute the raw CID of a file", async () => {
+    const cid = await computeFileCid(new Blob([largeData]));
+
+    expect(cid.type).toEqual(cidTypeRaw);
+    expect(cid.size).toEqual(largeData.length);
+    expect(toHexString(cid.digest)).toEqual(largeDigest);
+  });
+});
@@ -0,0 +1,204 @@
+import * as blake3 from "blake3-wasm";
+import { Worker } from "worker_threads";
+
+import { CID } from "../cid";
+import { cidTypeRaw } from "../constants";
+import { throwValidationError } from "./validation";
+
+/**
+ * The size of the slices that are read from a file while hashing it, and the
+ * maximum size of the data passed to blake3-wasm at once.
+ */
+export const HASH_CHUNK_SIZE = 1 << 20;
+
+/**
+ * An incremental BLAKE3 hasher.
+ */
+export type Hasher = {
+  update: (data: Uint8Array) => void;
+  digest: () => Uint8Array;
+};
+
+/**
+ * Loads the WebAssembly code of blake3-wasm once.
+ */
+let blake3Loaded: Promise<void> | undefined;
+
+/**
+ * Creates an incremental BLAKE3 hasher, loading the WebAssembly code if needed.
+ *
+ * @returns - The hasher.
+ */
+export async function createHasher(): Promise<Hasher> {
+  if (!blake3Loaded) {
+    blake3Loaded = blake3.load();
+  }
+  await blake3Loaded;
+
+  const hasher = blake3.createHash();
+  return {
+    update: (data: Uint8Array) => {
+      // blake3-wasm computes wrong digests for updates larger than 1 MiB.
+      for (let position = 0; position < data.length; position += HASH_CHUNK_SIZE) {
+        hasher.update(data.subarray(position, position + HASH_CHUNK_SIZE));
+      }
+    },
+    digest: () => new Uint8Array(hasher.digest()),
+  };
+}
+
+/**
+ * Options for hashing files.
+ *
+ * @property [onProgress] - Called after each slice with the fraction of the file that was hashed.
+ * @property [useWorker=false] - Whether to hash in a `worker_threads` worker, keeping the main thread free. Node only, with the CommonJS build; hashing with this option throws elsewhere.
+ */
+export type HashOptions = {
+  onProgress?: (progress: number) => void;
+  useWorker?: boolean;
+};
+
+/**
+ * An incremental BLAKE3 hasher running in a worker thread.
+ */
+type WorkerHasher = {
+  update: (data: Uint8Array) => Promise<void>;
+  digest: () => Promise<Uint8Array>;
+  terminate: () => Promise<number>;
+};
+
+/**
+ * The code of the hashing worker. Every message with a chunk is answered
+ * once the chunk was hashed, a message without one with the final digest.
+ */
+const HASH_WORKER_SOURCE = `
+const { parentPort, workerData } = require("worker_threads");
+const blake3 = require(workerData.blake3Path);
+let hasher;
+parentPort.on("message", async ({ chunk }) => {
+  try {
+    if (!hasher) {
+      await blake3.load();
+      hasher = blake3.createHash();
+    }
+    if (chunk) {
+      hasher.update(new Uint8Array(chunk));
+      parentPort.postMessage({});
+    } else {
+      parentPort.postMessage({ digest: new Uint8Array(hasher.digest()) });
+    }
+  } catch (e) {
+    parentPort.postMessage({ error: e.message });
+  }
+});
+`;
+
+/**
+ * Checks whether files can be hashed in a worker, which requires
+ * `worker_threads`, and `require` to locate blake3-wasm for the worker.
+ *
+ * @returns - Whether the `useWorker` hash option is supported.
+ */
+export function canHashInWorker(): boolean {
+  // `worker_threads` is replaced by an empty module in browser bundles, and
+  // ES module builds don't have `require`.
+  return typeof Worker === "function" && typeof require === "function";
+}
+
+/**
+ * Creates a BLAKE3 hasher that runs in a `worker_threads` worker.
+ *
+ * @returns - The hasher.
+ */
+async function createWorkerHasher(): Promise<WorkerHasher> {
+  // Resolve the module from here, as eval workers resolve it from the working directory.
+  const blake3Path = require.resolve("blake3-wasm");
+  const worker = new Worker(HASH_WORKER_SOURCE, { eval: true, workerData: { blake3Path } });
+
+  const request = (chunk?: ArrayBuffer): Promise<{ digest?: Uint8Array }> =>
+    new Promise((resolve, reject) => {
+      const onError = (e: Error) => {
+        worker.off("message", onMessage);
+        reject(e);
+      };
+      const onMessage = (message: { digest?: Uint8Array; error?: string }) => {
+        worker.off("error", onError);
+        if (message.error) {
+          reject(new Error(`Hashing failed: ${message.error}`));
+        } else {
+          resolve(message);
+        }
+      };
+      worker.once("message", onMessage);
+      worker.once("error", onError);
+      worker.postMessage({ chunk }, chunk ? [chunk] : []);
+    });
+
+  return {
+    update: async (data: Uint8Array) => {
+      // Copy the data, as the buffer is transferred to the worker.
+      await request(data.slice().buffer);
+    },
+    digest: async () => {
+      const { digest } = await request();
+      // Messages from the worker are not type checked.
+      if (!ArrayBuffer.isView(digest)) {
+        throw new Error("Hashing failed: the worker did not return a digest");
+      }
+      return new Uint8Array(digest.buffer, digest.byteOffset, digest.byteLength);
+    },
+    terminate: () => worker.terminate(),
+  };
+}
+
+/**
+ * Computes the BLAKE3 digest of the given file, reading it in slices.
+ *
+ * @param file - The file to hash.
+ * @param [options] - Additional settings that can optionally be set.
+ * @returns - The 32-byte digest.
+ * @throws - Will throw if `useWorker` is set without `worker_threads` or `require`, e.g. in browsers.
+ */
+export async function hashFile(file: Blob, options: HashOptions = {}): Promise<Uint8Array> {
+  if (options.useWorker && !canHashInWorker()) {
+    throwValidationError("useWorker", options.useWorker, "option", "false without worker_threads and require");
+  }
+  const hasher = options.useWorker ? await createWorkerHasher() : await createHasher();
+  try {
+    for (let position = 0; position < file.size; position += HASH_CHUNK_SIZE) {
+      const chunk = file.slice(position, position + HASH_CHUNK_SIZE);
+      await hasher.update(new Uint8Array(await chunk.arrayBuffer()));
+      if (options.onProgress) {
+        options.onProgress(Math.min(position + HASH_CHUNK_SIZE, file.size) / file.size);
+      }
+    }
+    return await hasher.digest();
+  } finally {
+    if ("terminate" in hasher) {
+      await hasher.terminate();
+    }
+  }
+}
+
+/**
+ * Computes the BLAKE3 digest of the given data.
+ *
+ * @param data - The data to hash.
+ * @returns - The 32-byte digest.
+ */
+export async function hashData(data: Uint8Array): Promise<Uint8Array> {
+  const hasher = await createHasher();
+  hasher.update(data);
+  return hasher.digest();
+}
+
+/**
+ * Computes the raw CID of the given file locally.
+ *
+ * @param file - The file to hash.
+ * @param [options] - Additional settings that can optionally be set.
+ * @returns - The raw CID.
+ */
+export async function computeFileCid(file: Blob, options?: HashOptions): Promise<CID> {
+  return CID.fromHash(await hashFile(file, options), cidTypeRaw, file.size);
+}
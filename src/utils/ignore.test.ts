@@ -0,0 +1,75 @@
+import { compileIgnorePatterns } from "./ignore";
+
+describe("compileIgnorePatterns", () => {
+  it("should ignore nothing without patterns", () => {
+    const isIgnored = compileIgnorePatterns(["", "  ", "# *.js"]);
+
+    expect(isIgnored("index.js", false)).toBe(false);
+  });
+
+  it.each([
+    ["*.map", "app.js.map", true],
+    ["*.map", "dist/js/app.js.map", true],
+    ["*.map", "app.js", false],
+    ["build", "build", true],
+    ["build", "src/build", true],
+    ["build", "builder", false],
+  ])("should match unanchored pattern '%s' against '%s' at any depth", (pattern, path, ignored) => {
+    expect(compileIgnorePatterns([pattern])(path, false)).toBe(ignored);
+  });
+
+  it.each([
+    ["/build", "build", true],
+    ["/build", "src/build", false],
+    ["src/*.ts", "src/index.ts", true],
+    ["src/*.ts", "src/utils/index.ts", false],
+    ["src/*.ts", "lib/src/index.ts", false],
+    ["src/**/*.ts", "src/index.ts", true],
+    ["src/**/*.ts", "src/utils/deep/index.ts", true],
+    ["**/fixtures/*.json", "test/fixtures/a.json", true],
+    ["**/fixtures/*.json", "fixtures/a.json", true],
+  ])("should anchor pattern '%s' to the root when matching '%s'", (pattern, path, ignored) => {
+    expect(compileIgnorePatterns([pattern])(path, false)).toBe(ignored);
+  });
+
+  it("should only match directories with a trailing slash", () => {
+    const isIgnored = compileIgnorePatterns(["logs/"]);
+
+    expect(isIgnored("logs", true)).toBe(true);
+    expect(isIgnored("app/logs", true)).toBe(true);
+    expect(isIgnored("logs", false)).toBe(false);
+  });
+
+  it("should re-include paths matching a negated pattern", () => {
+    const isIgnored = compileIgnorePatterns(["*.map", "!keep.map"]);
+
+    expect(isIgnored("app.map", false)).toBe(true);
+    expect(isIgnored("keep.map", false)).toBe(false);
+    expect(isIgnored("dist/keep.map", false)).toBe(false);
+  });
+
+  it("should apply the last matching pattern", () => {
+    const isIgnored = compileIgnorePatterns(["!keep.map", "*.map"]);
+
+    expect(isIgnored("keep.map", false)).toBe(true);
+  });
+
+  it("should support anchored negations", () => {
+    const isIgnored = compileIgnorePatterns(["*.json", "!/package.json"]);
+
+    expect(isIgnored("package.json", false)).toBe(false);
+    expect(isIgnored("lib/package.json", false)).toBe(true);
+  });
+
+  it.each([
+    ["file?.txt", "file1.txt", true],
+    ["file?.txt", "file10.txt", false],
+    ["file[0-9].txt", "file5.txt", true],
+    ["file[!0-9].txt", "file5.txt", false],
+    ["file[!0-9].txt", "filea.txt", true],
+    ["\\#notes", "#notes", true],
+    ["a.b", "axb", false],
+  ])("should support the wildcard or escape in '%s' when matching '%s'", (pattern, path, ignored) => {
+    expect(compileIgnorePatterns([pattern])(path, false)).toBe(ignored);
+  });
+});
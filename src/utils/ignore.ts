@@ -0,0 +1,117 @@
+/**
+ * A compiled gitignore-style pattern.
+ *
+ * @property regex - Matches the paths the pattern applies to.
+ * @property negated - Whether the pattern re-includes paths (`!pattern`).
+ * @property directoryOnly - Whether the pattern only matches directories (`pattern/`).
+ */
+type IgnoreRule = {
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+};
+
+/**
+ * Decides whether a path is ignored.
+ *
+ * @param path - The path relative to the root, with `/` separators.
+ * @param isDirectory - Whether the path is a directory.
+ * @returns - Whether the path is ignored.
+ */
+export type IgnoreMatcher = (path: string, isDirectory: boolean) => boolean;
+
+/**
+ * Compiles gitignore-style patterns into a matcher.
+ *
+ * Supported are `#` comments, `!` negation, a trailing `/` for directories,
+ * patterns anchored to the root with a leading or inner `/`, and the `*`,
+ * `?`, `**` and `[...]` wildcards. As in git, the last matching pattern wins,
+ * and paths inside an ignored directory can't be re-included.
+ *
+ * @param patterns - The patterns, one per entry.
+ * @returns - The matcher.
+ */
+export function compileIgnorePatterns(patterns: string[]): IgnoreMatcher {
+  const rules = patterns.map(compileIgnorePattern).filter((rule): rule is IgnoreRule => rule !== null);
+
+  return (path: string, isDirectory: boolean) => {
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) {
+        continue;
+      }
+      if (rule.negated === ignored && rule.regex.test(path)) {
+        ignored = !rule.negated;
+      }
+    }
+    return ignored;
+  };
+}
+
+/**
+ * Compiles a single gitignore-style pattern.
+ *
+ * @param pattern - The pattern.
+ * @returns - The rule, or null for blank lines and comments.
+ */
+function compileIgnorePattern(pattern: string): IgnoreRule | null {
+  pattern = pattern.trim();
+  if (pattern === "" || pattern.startsWith("#")) {
+    return null;
+  }
+
+  const negated = pattern.startsWith("!");
+  if (negated) {
+    pattern = pattern.slice(1);
+  }
+  const directoryOnly = pattern.endsWith("/");
+  if (directoryOnly) {
+    pattern = pattern.slice(0, -1);
+  }
+  // Patterns without an inner slash match at any depth.
+  const anchored = pattern.includes("/");
+  if (pattern.startsWith("/")) {
+    pattern = pattern.slice(1);
+  }
+
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      if (pattern[i + 2] === "/") {
+        // `**/` matches zero or more directories.
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[" && pattern.indexOf("]", i + 2) !== -1) {
+      const end = pattern.indexOf("]", i + 2);
+      const set = pattern.slice(i + 1, end).replace(/\\/g, "\\\\");
+      source += set.startsWith("!") ? `[^${set.slice(1)}]` : `[${set}]`;
+      i = end;
+    } else if (char === "\\" && i + 1 < pattern.length) {
+      source += escapeRegex(pattern[++i]);
+    } else {
+      source += escapeRegex(char);
+    }
+  }
+
+  const prefix = anchored ? "^" : "^(?:.*/)?";
+  return { regex: new RegExp(`${prefix}${source}$`), negated, directoryOnly };
+}
+
+/**
+ * Escapes a character for use in a regular expression.
+ *
+ * @param char - The character.
+ * @returns - The escaped character.
+ */
+function escapeRegex(char: string): string {
+  return char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
@@ -18,4 +18,18 @@ export const DEFAULT_BASE_OPTIONS = {
   onDownloadProgress: undefined,
   onUploadProgress: undefined,
   loginFn: undefined,
+  authToken: undefined,
 };
+
+/**
+ * Returns the options of the given options that apply to any request, e.g.
+ * authentication and retries, leaving out the options of a specific method
+ * such as download ranges and progress callbacks.
+ *
+ * @param opts - The options.
+ * @returns - The base options.
+ */
+export function pickBaseOptions(opts: BaseCustomOptions): BaseCustomOptions {
+  const { APIKey, s5ApiKey, customUserAgent, customCookie, loginFn, authToken, retryPolicy } = opts;
+  return { APIKey, s5ApiKey, customUserAgent, customCookie, loginFn, authToken, retryPolicy };
+}
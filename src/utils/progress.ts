@@ -0,0 +1,16 @@
+/**
+ * Creates the event passed to progress callbacks for progress the SDK tracks
+ * itself. `ProgressEvent` is not available in Node, where an object with only
+ * the progress fields is returned instead.
+ *
+ * @param loaded - The number of bytes processed.
+ * @param total - The total number of bytes.
+ * @returns - The progress event.
+ */
+export function createProgressEvent(loaded: number, total: number): ProgressEvent {
+  if (typeof ProgressEvent !== "undefined") {
+    return new ProgressEvent("progress", { lengthComputable: true, loaded, total });
+  }
+  const event: Pick<ProgressEvent, "lengthComputable" | "loaded" | "total"> = { lengthComputable: true, loaded, total };
+  return event as ProgressEvent;
+}
@@ -0,0 +1,33 @@
+import { ensurePrefix, trimPrefix, trimSuffix } from "./string";
+
+describe("ensurePrefix", () => {
+  it.each([
+    ["path", "/", "/path"],
+    ["/path", "/", "/path"],
+    ["", "/", "/"],
+  ])("should prefix '%s' with '%s'", (str, prefix, expected) => {
+    expect(ensurePrefix(str, prefix)).toEqual(expected);
+  });
+});
+
+describe("trimPrefix", () => {
+  it.each([
+    ["///path", "/", undefined, "path"],
+    ["///path", "/", 0, "///path"],
+    ["///path", "/", 2, "/path"],
+    ["path", "/", undefined, "path"],
+  ])("should trim '%s' with the prefix '%s' and the limit %s", (str, prefix, limit, expected) => {
+    expect(trimPrefix(str, prefix, limit)).toEqual(expected);
+  });
+});
+
+describe("trimSuffix", () => {
+  it.each([
+    ["path///", "/", undefined, "path"],
+    ["path///", "/", 0, "path///"],
+    ["path///", "/", 2, "path/"],
+    ["path", "/", undefined, "path"],
+  ])("should trim '%s' with the suffix '%s' and the limit %s", (str, suffix, limit, expected) => {
+    expect(trimSuffix(str, suffix, limit)).toEqual(expected);
+  });
+});
@@ -0,0 +1,43 @@
+import { addUrlQuery, addUrlSubdomain, ensureUrl, ensureUrlPrefix, makeUrl } from "./url";
+
+describe("addUrlSubdomain", () => {
+  it("should add the subdomain", () => {
+    expect(addUrlSubdomain("https://s5.example/", "sub")).toEqual("https://sub.s5.example");
+  });
+});
+
+describe("addUrlQuery", () => {
+  it("should combine the query with the existing one", () => {
+    expect(addUrlQuery("https://s5.example/path?a=1", { b: "2" })).toEqual("https://s5.example/path?a=1&b=2");
+  });
+});
+
+describe("ensureUrl", () => {
+  it.each([
+    ["s5.example", "https://s5.example"],
+    ["http://s5.example", "http://s5.example"],
+    ["https://s5.example", "https://s5.example"],
+  ])("should turn '%s' into a URL", (url, expected) => {
+    expect(ensureUrl(url)).toEqual(expected);
+  });
+});
+
+describe("ensureUrlPrefix", () => {
+  it.each([
+    ["localhost", "http://localhost/"],
+    ["s5.example", "https://s5.example"],
+    ["HTTP://s5.example", "HTTP://s5.example"],
+  ])("should prefix '%s'", (url, expected) => {
+    expect(ensureUrlPrefix(url)).toEqual(expected);
+  });
+});
+
+describe("makeUrl", () => {
+  it("should join the URL parts", () => {
+    expect(makeUrl("s5.example", "/s5/", "upload")).toEqual("https://s5.example/s5/upload");
+  });
+
+  it("should throw without URL parts", () => {
+    expect(() => makeUrl()).toThrow("Expected parameter 'args' to be non-empty");
+  });
+});
@@ -0,0 +1,21 @@
+import { throwValidationError, validationError } from "./validation";
+
+describe("validationError", () => {
+  it.each([
+    [undefined, "type 'undefined'"],
+    [null, "type 'null'"],
+    [1, "type 'number', value '1'"],
+  ])("should describe the value %s", (value, description) => {
+    expect(validationError("name", value, "parameter", "type 'string'").message).toEqual(
+      `Expected parameter 'name' to be type 'string', was ${description}`
+    );
+  });
+});
+
+describe("throwValidationError", () => {
+  it("should throw the validation error", () => {
+    expect(() => throwValidationError("name", 1, "parameter", "type 'string'")).toThrow(
+      "Expected parameter 'name' to be type 'string', was type 'number', value '1'"
+    );
+  });
+});
@@ -0,0 +1,272 @@
+import type { AxiosError, AxiosRequestConfig, AxiosResponse } from "axios";
+import type { HttpRequest, HttpResponse, HttpStack } from "tus-js-client";
+
+import { CID } from "../src/cid";
+import { CustomClientOptions, S5Client } from "../src/client";
+import { cidTypeRaw } from "../src/constants";
+import { encodePublicKey } from "../src/crypto";
+import { RegistryEntry } from "../src/registry";
+import { encodeBase64Url } from "../src/utils/encoding";
+import { hashData } from "../src/utils/hash";
+
+export const portalUrl = "https://s5.example";
+
+/**
+ * The response a mocked transport answers a request with. Responses with a
+ * status of 400 or more, or a null status for network errors, are thrown as
+ * axios errors.
+ *
+ * @property [status=200] - The response status.
+ * @property [data] - The response data.
+ * @property [headers] - The response headers.
+ */
+export type MockResponse = {
+  status?: number | null;
+  data?: unknown;
+  headers?: Record<string, string | string[]>;
+};
+
+/**
+ * Answers a request sent by a client with a mocked transport.
+ */
+export type MockHandler = (config: AxiosRequestConfig) => MockResponse | void | Promise<MockResponse | void>;
+
+/**
+ * Creates an axios error as it is thrown for failed requests.
+ *
+ * @param config - The request config.
+ * @param status - The response status, or null if there was no response.
+ * @param data - The response data.
+ * @param headers - The response headers.
+ * @returns - The axios error.
+ */
+export function createAxiosError(
+  config: AxiosRequestConfig,
+  status: number | null,
+  data: unknown,
+  headers: Record<string, string | string[]>
+): AxiosError {
+  const error = {
+    isAxiosError: true,
+    message: "Request failed",
+    config,
+    request: {},
+    response: status === null ? undefined : { status, data, headers, config },
+  };
+  return error as unknown as AxiosError;
+}
+
+/**
+ * Creates a client whose transport answers requests with the given handler.
+ *
+ * @param handler - Answers every request. Returns a 200 response with empty data by default.
+ * @param [customOptions] - The client options.
+ * @param [portal] - The portal URL, or several portal URLs.
+ * @param [tusHttpStack] - The HTTP stack of large file uploads.
+ * @returns - The client and the mocked transport function.
+ */
+export function createMockClient(
+  handler: MockHandler = () => undefined,
+  customOptions: CustomClientOptions = {},
+  portal: string | string[] = portalUrl,
+  tusHttpStack?: HttpStack
+): { client: S5Client; request: jest.Mock<Promise<AxiosResponse>, [AxiosRequestConfig]> } {
+  const request = jest.fn(async (config: AxiosRequestConfig) => {
+    const { status = 200, data = {}, headers = {} } = (await handler(config)) || {};
+    if (status === null || status >= 400) {
+      throw createAxiosError(config, status, data, headers);
+    }
+    return { status, statusText: "", data, headers, config } as AxiosResponse;
+  });
+  const client = new S5Client(portal, { ...customOptions, transport: { request, tusHttpStack } });
+  return { client, request };
+}
+
+/**
+ * Returns the path of a request URL, without the portal and query.
+ *
+ * @param config - The request config.
+ * @returns - The path.
+ */
+export function requestPath(config: AxiosRequestConfig): string {
+  return new URL(config.url as string).pathname;
+}
+
+/**
+ * Computes the raw cid of the given data.
+ *
+ * @param data - The data.
+ * @returns - The cid, base64url encoded.
+ */
+export async function rawCid(data: Uint8Array): Promise<string> {
+  return CID.fromHash(await hashData(data), cidTypeRaw, data.length).toBase64Url();
+}
+
+/**
+ * Creates a handler that answers registry lookups with the given entries,
+ * and with a 404 for other public keys.
+ *
+ * @param entries - The registry entries.
+ * @param [handler] - Answers all other requests.
+ * @returns - The handler.
+ */
+export function registryHandler(entries: RegistryEntry[], handler: MockHandler = () => undefined): MockHandler {
+  return (config) => {
+    if (requestPath(config) !== "/s5/registry" || config.method !== "get") {
+      return handler(config);
+    }
+    const pk = new URL(config.url as string).searchParams.get("pk");
+    const entry = entries.find(({ publicKey }) => encodeBase64Url(encodePublicKey(publicKey)) === pk);
+    if (!entry) {
+      return { status: 404 };
+    }
+    const data = {
+      pk,
+      revision: entry.revision,
+      data: encodeBase64Url(entry.data),
+      signature: encodeBase64Url(entry.signature),
+    };
+    return { data };
+  };
+}
+
+/**
+ * An upload stored by a `MockTusStack`.
+ *
+ * @property length - The announced length.
+ * @property data - The received data.
+ * @property metadata - The decoded upload metadata.
+ */
+export type MockTusUpload = {
+  length: number;
+  data: Uint8Array;
+  metadata: Record<string, string>;
+};
+
+/**
+ * A request received by a `MockTusStack`.
+ *
+ * @property method - The request method.
+ * @property url - The request URL.
+ * @property headers - The request headers.
+ */
+export type MockTusRequest = {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+};
+
+/**
+ * A tus HTTP stack that answers requests like a tus server keeping the
+ * uploads in memory.
+ */
+export class MockTusStack implements HttpStack {
+  uploads = new Map<string, MockTusUpload>();
+  requests: MockTusRequest[] = [];
+  /** Statuses to answer the next PATCH requests with instead of storing their data. */
+  failures: number[] = [];
+  /** Called before a request is answered. Requests aborted in the meantime reject. */
+  onRequest?: (request: MockTusRequest) => void | Promise<void>;
+
+  /**
+   * Creates a request.
+   *
+   * @param method - The request method.
+   * @param url - The request URL.
+   * @returns - The request.
+   */
+  createRequest(method: string, url: string): HttpRequest {
+    const headers: Record<string, string> = {};
+    let onProgress: (bytesSent: number) => void = () => undefined;
+    let onAbort: () => void = () => undefined;
+    return {
+      getMethod: () => method,
+      getURL: () => url,
+      setHeader: (header, value) => {
+        headers[header] = String(value);
+      },
+      getHeader: (header) => headers[header],
+      setProgressHandler: (handler) => {
+        onProgress = handler;
+      },
+      send: async (body?: Uint8Array) => {
+        const request = { method, url, headers };
+        this.requests.push(request);
+        await new Promise<void>((resolve, reject) => {
+          onAbort = () => reject(new Error("Request was aborted"));
+          Promise.resolve(this.onRequest && this.onRequest(request)).then(resolve, reject);
+        });
+        if (body) {
+          onProgress(body.length);
+        }
+        return this.handle(request, body);
+      },
+      abort: async () => onAbort(),
+      getUnderlyingObject: () => undefined,
+    };
+  }
+
+  /**
+   * Returns the name of the stack.
+   *
+   * @returns - The name.
+   */
+  getName(): string {
+    return "MockTusStack";
+  }
+
+  /**
+   * Answers a request.
+   *
+   * @param request - The request.
+   * @param [body] - The request body.
+   * @returns - The response.
+   */
+  protected handle(request: MockTusRequest, body?: Uint8Array): HttpResponse {
+    const { method, url, headers } = request;
+    const upload = this.uploads.get(url);
+    if (method === "POST") {
+      const location = `${url}/${this.uploads.size + 1}`;
+      const metadata: Record<string, string> = {};
+      headers["Upload-Metadata"].split(",").forEach((pair) => {
+        const [key, value] = pair.split(" ");
+        metadata[key] = Buffer.from(value, "base64").toString();
+      });
+      this.uploads.set(location, { length: Number(headers["Upload-Length"]), data: new Uint8Array(), metadata });
+      return createTusResponse(201, { Location: location });
+    }
+    if (!upload) {
+      return createTusResponse(404);
+    }
+    if (method === "HEAD") {
+      return createTusResponse(200, { "Upload-Offset": upload.data.length, "Upload-Length": upload.length });
+    }
+    if (method === "DELETE") {
+      this.uploads.delete(url);
+      return createTusResponse(204);
+    }
+    const status = this.failures.shift();
+    if (status) {
+      return createTusResponse(status, {}, "Upload failed");
+    }
+    upload.data = new Uint8Array([...upload.data, ...(body as Uint8Array)]);
+    return createTusResponse(204, { "Upload-Offset": upload.data.length });
+  }
+}
+
+/**
+ * Creates a tus response.
+ *
+ * @param status - The response status.
+ * @param [headers] - The response headers.
+ * @param [body] - The response body.
+ * @returns - The response.
+ */
+function createTusResponse(status: number, headers: Record<string, string | number> = {}, body = ""): HttpResponse {
+  return {
+    getStatus: () => status,
+    getHeader: (header) => (header in headers ? String(headers[header]) : (undefined as unknown as string)),
+    getBody: () => body,
+    getUnderlyingObject: () => undefined,
+  };
+}
@@ -19,7 +19,7 @@ module.exports = {
   },
   resolve: {
     extensions: [".tsx", ".ts", ".js"],
-    fallback: { "crypto": false },
+    fallback: { "crypto": false, "fs": false, "stream": false, "worker_threads": false },
   },
   output: {
     path: path.resolve(__dirname, "./dist/bundle"),